@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import EquityCurve from '@/components/EquityCurve';
+import SectionBoundary from '@/components/SectionBoundary';
+import { StatsGroup, TradeStats, breakdown, computeStats, equityCurve, scoreBucket } from '@/lib/analytics';
+import { JournalEntry, listJournal } from '@/lib/journal';
+import { getPair } from '@/lib/pairs';
+import { useStrategySettings } from '@/lib/strategy';
+
+const formatMoney = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const formatFactor = (value: number) => (value === Infinity ? '∞' : value.toFixed(2));
+
+const formatR = (value: number | null) => (value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`);
+
+function StatCard({ label, value, tone = 'text-white' }: { label: string; value: string; tone?: string }) {
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
+      <p className="text-gray-400 text-sm">{label}</p>
+      <p className={`text-2xl font-bold ${tone}`}>{value}</p>
+    </div>
+  );
+}
+
+function BreakdownTable({ title, groups }: { title: string; groups: StatsGroup[] }) {
+  return (
+    <section className="bg-gray-900 border border-gray-700 rounded-xl p-5">
+      <h2 className="text-lg font-bold text-white mb-3">{title}</h2>
+      {groups.length === 0 ? (
+        <p className="text-gray-500 text-sm">No closed trades yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-500 text-xs uppercase text-left">
+              <th className="py-1"></th>
+              <th className="py-1 text-right">Trades</th>
+              <th className="py-1 text-right">Win %</th>
+              <th className="py-1 text-right">Avg R</th>
+              <th className="py-1 text-right">PF</th>
+              <th className="py-1 text-right">P&L</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map(({ key, stats }) => (
+              <tr key={key} className="border-t border-gray-800 text-gray-300">
+                <td className="py-1 text-white">{key}</td>
+                <td className="py-1 text-right">{stats.trades}</td>
+                <td className="py-1 text-right">{stats.winRate.toFixed(1)}%</td>
+                <td className="py-1 text-right">{formatR(stats.avgR)}</td>
+                <td className="py-1 text-right">{formatFactor(stats.profitFactor)}</td>
+                <td className={`py-1 text-right ${stats.totalPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatMoney(stats.totalPnl)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+export default function AnalyticsPage() {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const strategy = useStrategySettings();
+
+  useEffect(() => {
+    listJournal()
+      .then(setEntries)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to open journal storage'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const stats: TradeStats = computeStats(entries);
+  const curve = equityCurve(entries);
+
+  return (
+    <main className="min-h-screen p-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <header className="text-center mb-6 pb-6 border-b border-gray-700">
+        <Link href="/" className="text-purple-400 hover:text-purple-300 inline-block mb-4">
+          ← Back to Dashboard
+        </Link>
+        <div className="flex items-center justify-center mb-3">
+          <span className="text-4xl mr-3">📈</span>
+          <h1 className="text-4xl font-bold text-purple-400">Performance Analytics</h1>
+        </div>
+        <p className="text-gray-400">Computed from closed trades in the <Link href="/journal" className="text-purple-400 hover:text-purple-300">trade journal</Link></p>
+      </header>
+
+      {loading && <p className="text-center text-gray-400">Loading trades...</p>}
+
+      {error && (
+        <div className="bg-red-900 border border-red-500 rounded-xl p-6 mb-6">
+          <p className="text-red-300">⚠️ {error}</p>
+        </div>
+      )}
+
+      {!loading && !error && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <StatCard label="Closed Trades" value={`${stats.trades} (${stats.wins}W / ${stats.losses}L)`} />
+            <StatCard label="Win Rate" value={`${stats.winRate.toFixed(1)}%`} tone="text-yellow-400" />
+            <StatCard label="Expectancy" value={`${formatMoney(stats.expectancy)} / trade`} tone={stats.expectancy >= 0 ? 'text-green-400' : 'text-red-400'} />
+            <StatCard label="Average R" value={formatR(stats.avgR)} tone="text-blue-400" />
+            <StatCard label="Profit Factor" value={formatFactor(stats.profitFactor)} />
+            <StatCard label="Max Drawdown" value={formatMoney(-stats.maxDrawdown)} tone="text-red-400" />
+            <StatCard label="Total P&L" value={formatMoney(stats.totalPnl)} tone={stats.totalPnl >= 0 ? 'text-green-400' : 'text-red-400'} />
+            <StatCard label="Avg Time in Trade" value={`${stats.avgHoursInTrade.toFixed(1)}h`} />
+          </div>
+
+          {/* Equity Curve */}
+          <SectionBoundary name="Equity Curve">
+            <section className="bg-gray-900 border border-purple-500 rounded-xl p-6 mb-6">
+              <h2 className="text-2xl font-bold text-white mb-4">💰 EQUITY CURVE</h2>
+              <EquityCurve points={curve} />
+            </section>
+          </SectionBoundary>
+
+          {/* Breakdowns */}
+          <SectionBoundary name="Breakdowns">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <BreakdownTable title="By Pair" groups={breakdown(entries, e => getPair(e.pair)?.displayName || e.pair)} />
+              <BreakdownTable title="By Pattern" groups={breakdown(entries, e => e.pattern_type?.replace(/_/g, ' ') || 'Unknown')} />
+              <BreakdownTable title="By Session" groups={breakdown(entries, e => e.session || 'Unknown')} />
+              <BreakdownTable title="By Confluence Score at Entry" groups={breakdown(entries, e => scoreBucket(e.confluence_score, strategy))} />
+            </div>
+          </SectionBoundary>
+        </>
+      )}
+    </main>
+  );
+}
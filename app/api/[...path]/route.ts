@@ -0,0 +1,15 @@
+import { proxy } from '@/lib/proxy';
+
+// Forwards /api/* to the backend - see lib/proxy.ts
+export const dynamic = 'force-dynamic';
+
+type Context = { params: Promise<{ path: string[] }> };
+
+const handle = async (request: Request, { params }: Context) =>
+  proxy(request, (await params).path.map(encodeURIComponent).join('/'));
+
+export const GET = handle;
+export const POST = handle;
+export const PUT = handle;
+export const PATCH = handle;
+export const DELETE = handle;
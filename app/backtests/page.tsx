@@ -0,0 +1,224 @@
+'use client';
+
+import { ChangeEvent, Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import BacktestCompare from '@/components/BacktestCompare';
+import BacktestReport from '@/components/BacktestReport';
+import SectionBoundary from '@/components/SectionBoundary';
+import {
+  BacktestRun,
+  backtestStats,
+  deleteBacktest,
+  formatR,
+  importBacktestFile,
+  listBacktests
+} from '@/lib/backtest';
+import { PAIRS, getPair } from '@/lib/pairs';
+import { errorMessage, toast } from '@/lib/toast';
+
+function Backtests() {
+  const searchParams = useSearchParams();
+  const [runs, setRuns] = useState<BacktestRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [pairFilter, setPairFilter] = useState<string>(searchParams.get('pair') || 'all');
+  const [strategyFilter, setStrategyFilter] = useState<string>('all');
+  const [selected, setSelected] = useState<string[]>([]);   // one run to view, two to compare
+
+  const loadRuns = async () => {
+    try {
+      setRuns(await listBacktests());
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open backtest storage');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const importFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const errors: string[] = [];
+    const imported: BacktestRun[] = [];
+    for (const file of files) {
+      try {
+        imported.push(await importBacktestFile(file.name, await file.text()));
+      } catch (err) {
+        errors.push(`${file.name}: ${errorMessage(err)}`);
+      }
+    }
+    setImportErrors(errors);
+    if (imported.length > 0) {
+      toast.success(`Imported ${imported.length} backtest run${imported.length === 1 ? '' : 's'}`);
+      setSelected(imported.slice(-2).map(r => r.id));
+    }
+    await loadRuns();
+  };
+
+  const deleteRun = async (run: BacktestRun) => {
+    if (!confirm(`Delete the backtest run "${run.name}"?`)) return;
+    try {
+      await deleteBacktest(run.id);
+      setSelected(ids => ids.filter(id => id !== run.id));
+    } catch (err) {
+      toast.error('Could not delete the run', err);
+    }
+    await loadRuns();
+  };
+
+  // Picking a third run drops the first pick
+  const toggle = (id: string) =>
+    setSelected(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id].slice(-2)));
+
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  const strategies = [...new Set(runs.map(r => r.strategy))].sort();
+  const visible = runs.filter(r => (pairFilter === 'all' || r.pair === pairFilter) && (strategyFilter === 'all' || r.strategy === strategyFilter));
+  const picked = selected.map(id => runs.find(r => r.id === id)).filter((r): r is BacktestRun => !!r);
+
+  return (
+    <main className="min-h-screen p-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <header className="text-center mb-6 pb-6 border-b border-gray-700">
+        <Link href="/" className="text-purple-400 hover:text-purple-300 inline-block mb-4">
+          ← Back to Dashboard
+        </Link>
+        <div className="flex items-center justify-center mb-3">
+          <span className="text-4xl mr-3">🧪</span>
+          <h1 className="text-4xl font-bold text-purple-400">Backtests</h1>
+        </div>
+        <p className="text-gray-400">Results of the confluence strategy on historical data - import a run, or two to compare</p>
+      </header>
+
+      {/* Import */}
+      <section className="bg-gray-900 border border-gray-700 rounded-xl p-6 mb-6">
+        <label className="block">
+          <span className="text-white font-bold">Import result files</span>
+          <span className="text-gray-400 text-sm ml-2">JSON or CSV - trades plus the parameters of the run</span>
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            multiple
+            onChange={importFiles}
+            className="block mt-3 text-gray-300 text-sm"
+          />
+        </label>
+        {importErrors.map(message => (
+          <p key={message} role="alert" className="text-red-300 text-sm mt-2">❌ {message}</p>
+        ))}
+      </section>
+
+      {/* Filters */}
+      <div className="flex flex-wrap justify-center gap-3 mb-6">
+        <select
+          aria-label="Pair"
+          value={pairFilter}
+          onChange={(e) => setPairFilter(e.target.value)}
+          className="bg-gray-800 text-white px-3 py-2 rounded-lg text-sm"
+        >
+          <option value="all">All Pairs</option>
+          {PAIRS.map(p => <option key={p.slug} value={p.slug}>{p.displayName}</option>)}
+        </select>
+        <select
+          aria-label="Strategy"
+          value={strategyFilter}
+          onChange={(e) => setStrategyFilter(e.target.value)}
+          className="bg-gray-800 text-white px-3 py-2 rounded-lg text-sm"
+        >
+          <option value="all">All Strategies</option>
+          {strategies.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+      </div>
+
+      {loading && <p className="text-center text-gray-400">Loading backtests...</p>}
+
+      {error && (
+        <div className="bg-red-900 border border-red-500 rounded-xl p-6 mb-6">
+          <p className="text-red-300">⚠️ {error}</p>
+        </div>
+      )}
+
+      {!loading && !error && visible.length === 0 && (
+        <div className="bg-gray-900 border border-gray-700 rounded-xl p-6 mb-6 text-center">
+          <p className="text-gray-300">No backtest runs{runs.length > 0 ? ' match the filters' : ' yet'}.</p>
+          <p className="text-gray-500 text-sm mt-2">Import the result file of a backtest run above.</p>
+        </div>
+      )}
+
+      {/* Run List */}
+      {visible.length > 0 && (
+        <section className="bg-gray-900 border border-gray-700 rounded-xl p-6 mb-6 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="py-2"></th>
+                <th>Run</th>
+                <th>Pair</th>
+                <th>Strategy</th>
+                <th className="text-right">Trades</th>
+                <th className="text-right">Win %</th>
+                <th className="text-right">Total R</th>
+                <th>Imported</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(run => {
+                const stats = backtestStats(run.trades);
+                return (
+                  <tr key={run.id} className={`border-t border-gray-800 text-gray-200 ${selected.includes(run.id) ? 'bg-gray-800' : ''}`}>
+                    <td className="py-2">
+                      <input type="checkbox" aria-label={`Select ${run.name}`} checked={selected.includes(run.id)} onChange={() => toggle(run.id)} />
+                    </td>
+                    <td className="font-bold">{run.name}</td>
+                    <td>{getPair(run.pair)?.displayName ?? run.pair}</td>
+                    <td>{run.strategy}</td>
+                    <td className="text-right">{stats.trades}</td>
+                    <td className="text-right">{stats.winRate.toFixed(1)}%</td>
+                    <td className={`text-right ${stats.totalR >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatR(stats.totalR)}</td>
+                    <td className="text-gray-400">{new Date(run.imported_at).toLocaleDateString()}</td>
+                    <td className="text-right">
+                      <button onClick={() => deleteRun(run)} aria-label={`Delete ${run.name}`} className="text-gray-500 hover:text-red-400">🗑️</button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-gray-500 text-xs mt-3">Select one run to view it, two to compare them.</p>
+        </section>
+      )}
+
+      {picked.length === 2 && (
+        <SectionBoundary name="Backtest comparison">
+          <BacktestCompare a={picked[0]} b={picked[1]} />
+        </SectionBoundary>
+      )}
+
+      <div className={`grid grid-cols-1 gap-4 ${picked.length === 2 ? 'lg:grid-cols-2' : ''}`}>
+        {picked.map(run => {
+          const pair = getPair(run.pair);
+          if (!pair) return null;
+          return (
+            <SectionBoundary key={run.id} name={run.name}>
+              <BacktestReport pair={pair} run={run} />
+            </SectionBoundary>
+          );
+        })}
+      </div>
+    </main>
+  );
+}
+
+export default function BacktestsPage() {
+  return (
+    <Suspense>
+      <Backtests />
+    </Suspense>
+  );
+}
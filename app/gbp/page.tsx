@@ -2,72 +2,33 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-
-interface GBPUSDSignal {
-  signal: string;
-  entry_price: number;
-  stop_loss: number;
-  take_profit: number;
-  confluence_score: number;
-  risk_reward_ratio: number;
-  trade_reasons?: string[];
-  timestamp: string;
-}
-
-interface AnalysisData {
-  status: 'signal' | 'no_signal' | 'error';
-  pair: string;
-  data: {
-    signal?: GBPUSDSignal;
-    skip_info?: {
-      skip_reason: string;
-      context: string;
-    };
-    market_data: {
-      current_price: number;
-      session: {
-        current_session: string;
-        session_strength: string;
-      };
-      timestamp: string;
-    };
-    last_update?: string;
-  };
-}
-
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8002';
+import StaleDataBanner from '@/components/StaleDataBanner';
+import StreamStatusBadge from '@/components/StreamStatusBadge';
+import { fetchGBPUSDAnalysis } from '@/lib/api';
+import { useLiveStream } from '@/lib/stream';
+import { errorMessage } from '@/lib/toast';
+import type { GBPUSDAnalysis } from '@/lib/types';
 
 export default function GBPPage() {
-  const [analysisData, setAnalysisData] = useState<AnalysisData | null>(null);
+  const [analysisData, setAnalysisData] = useState<GBPUSDAnalysis | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [lastUpdate, setLastUpdate] = useState<string>('');
+  const [lastLoaded, setLastLoaded] = useState<string | undefined>(undefined); // when this page last got a good payload
 
   const fetchAnalysis = async (force_refresh: boolean = false) => {
     try {
-      const endpoint = force_refresh ? '/api/gbpusd/scan' : '/api/gbpusd/analysis';
-      const method = force_refresh ? 'POST' : 'GET';
-      const url = `${BACKEND_URL}${endpoint}`;
-
-      const response = await fetch(url, {
-        method: method,
-        headers: force_refresh ? { 'Content-Type': 'application/json' } : undefined,
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      const data = await fetchGBPUSDAnalysis(force_refresh);
       setAnalysisData(data);
+      setLastLoaded(new Date().toISOString());
       setError('');
 
       if (data.data?.last_update) {
         setLastUpdate(new Date(data.data.last_update).toLocaleString());
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(`Network Error: ${errorMessage}`);
+      // An earlier payload stays on screen under the stale-data banner
+      setError(errorMessage(err));
     } finally {
       setLoading(false);
     }
@@ -79,6 +40,14 @@ export default function GBPPage() {
     setLoading(false);
   };
 
+  // The stream only carries prices for this page - the signal analysis keeps polling
+  const streamStatus = useLiveStream(['gbpusd'], {
+    onPrice: tick => tick.pair === 'gbpusd' && setAnalysisData(prev => prev && {
+      ...prev,
+      data: { ...prev.data, market_data: { ...prev.data.market_data, current_price: tick.price } }
+    })
+  });
+
   useEffect(() => {
     fetchAnalysis(false);
     const interval = setInterval(() => fetchAnalysis(false), 3 * 60 * 1000);
@@ -118,6 +87,9 @@ export default function GBPPage() {
         <div className="text-center">
           <p className="text-red-500 text-xl">Failed to load data</p>
           <p className="text-gray-400 mt-2">{error}</p>
+          <button onClick={() => fetchAnalysis(false)} className="mt-4 bg-blue-600 text-white px-6 py-2 rounded-lg">
+            Retry
+          </button>
         </div>
       </main>
     );
@@ -141,8 +113,11 @@ export default function GBPPage() {
         </div>
         <p className="text-gray-400">4:1 R:R Research-Based System</p>
         {lastUpdate && <p className="text-gray-500 text-sm mt-2">Updated: {lastUpdate}</p>}
+        <p className="mt-1"><StreamStatusBadge status={streamStatus} /></p>
       </header>
 
+      <StaleDataBanner error={error} since={lastLoaded} onRetry={() => fetchAnalysis(false)} />
+
       {/* Action Buttons */}
       <div className="flex justify-center gap-4 mb-6">
         <button
@@ -175,7 +150,10 @@ export default function GBPPage() {
           </span>
         </div>
         <div className="bg-black rounded-lg p-4">
-          <p className="text-blue-400 text-sm mb-1">System: 50.6% Win Rate • 4:1 Risk/Reward</p>
+          <p className="text-blue-400 text-sm mb-1">
+            System: 50.6% Win Rate • 4:1 Risk/Reward{' '}
+            <Link href="/backtests?pair=gbpusd" className="text-purple-400 hover:text-purple-300">(see backtests)</Link>
+          </p>
           <p className="text-blue-400 text-sm">Average TP Time: 69 hours</p>
         </div>
       </section>
@@ -251,15 +229,6 @@ export default function GBPPage() {
           )}
         </section>
       )}
-
-      {error && (
-        <div className="bg-red-900 border border-red-500 rounded-xl p-6 mt-6">
-          <div className="flex items-center">
-            <span className="text-2xl mr-3">⚠️</span>
-            <p className="text-red-300">{error}</p>
-          </div>
-        </div>
-      )}
     </main>
   );
 }
@@ -2,95 +2,33 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-
-interface XAUUSDSignal {
-  signal: string;
-  symbol: string;
-  entry_price: number;
-  stop_loss: number;
-  take_profit: number;
-  confluence_score: number;
-  signal_strength: string;
-  risk_reward_ratio: number;
-  atr_stop_pips: number;
-  key_levels?: Array<{
-    level: number;
-    distance_pips: number;
-    strength: string;
-    bounce_rate: number;
-  }>;
-  trade_reasons?: string[];
-  timestamp_chicago: string;
-  session_info?: {
-    current_session: string;
-    expected_range: number;
-    session_strength: string;
-  };
-}
-
-interface AnalysisData {
-  status: 'signal' | 'no_signal' | 'error';
-  data: {
-    signal?: XAUUSDSignal;
-    skip_info?: {
-      skip_reason: string;
-      context: string;
-    };
-    market_data: {
-      current_price: number;
-      session: {
-        current_session: string;
-        expected_range?: number;
-        session_strength: string;
-        hours_remaining?: number;
-      };
-    };
-    levels?: Array<{
-      level: number;
-      distance_pips: number;
-      direction: string;
-      is_major: boolean;
-      bounce_rate?: number;
-      touches?: number;
-      distance_percent?: number;
-    }>;
-    last_update?: string;
-  };
-}
-
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8002';
+import StaleDataBanner from '@/components/StaleDataBanner';
+import StreamStatusBadge from '@/components/StreamStatusBadge';
+import { fetchXAUUSDAnalysis } from '@/lib/api';
+import { useLiveStream } from '@/lib/stream';
+import { errorMessage } from '@/lib/toast';
+import type { XAUUSDAnalysis } from '@/lib/types';
 
 export default function GoldPage() {
-  const [analysisData, setAnalysisData] = useState<AnalysisData | null>(null);
+  const [analysisData, setAnalysisData] = useState<XAUUSDAnalysis | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [lastUpdate, setLastUpdate] = useState<string>('');
+  const [lastLoaded, setLastLoaded] = useState<string | undefined>(undefined); // when this page last got a good payload
 
   const fetchAnalysis = async (force_refresh: boolean = false) => {
     try {
-      const endpoint = force_refresh ? '/api/xauusd/scan' : '/api/xauusd/analysis';
-      const method = force_refresh ? 'POST' : 'GET';
-      const url = `${BACKEND_URL}${endpoint}`;
-
-      const response = await fetch(url, {
-        method: method,
-        headers: force_refresh ? { 'Content-Type': 'application/json' } : undefined,
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      const data = await fetchXAUUSDAnalysis(force_refresh);
       setAnalysisData(data);
+      setLastLoaded(new Date().toISOString());
       setError('');
 
       if (data.data?.last_update) {
         setLastUpdate(new Date(data.data.last_update).toLocaleString());
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(`Network Error: ${errorMessage}`);
+      // An earlier payload stays on screen under the stale-data banner
+      setError(errorMessage(err));
     } finally {
       setLoading(false);
     }
@@ -102,6 +40,14 @@ export default function GoldPage() {
     setLoading(false);
   };
 
+  // The stream only carries prices for this page - the signal analysis keeps polling
+  const streamStatus = useLiveStream(['gold'], {
+    onPrice: tick => tick.pair === 'gold' && setAnalysisData(prev => prev && {
+      ...prev,
+      data: { ...prev.data, market_data: { ...prev.data.market_data, current_price: tick.price } }
+    })
+  });
+
   useEffect(() => {
     fetchAnalysis(false);
     const interval = setInterval(() => fetchAnalysis(false), 3 * 60 * 1000);
@@ -141,6 +87,9 @@ export default function GoldPage() {
         <div className="text-center">
           <p className="text-red-500 text-xl">Failed to load data</p>
           <p className="text-gray-400 mt-2">{error}</p>
+          <button onClick={() => fetchAnalysis(false)} className="mt-4 bg-blue-600 text-white px-6 py-2 rounded-lg">
+            Retry
+          </button>
         </div>
       </main>
     );
@@ -162,10 +111,16 @@ export default function GoldPage() {
           <span className="text-4xl mr-3">💎</span>
           <h1 className="text-4xl font-bold text-yellow-400">XAU/USD Gold</h1>
         </div>
-        <p className="text-gray-400">98% S/R Confluence System</p>
+        <p className="text-gray-400">
+          98% S/R Confluence System{' '}
+          <Link href="/backtests?pair=gold" className="text-purple-400 hover:text-purple-300 text-sm">(see backtests)</Link>
+        </p>
         {lastUpdate && <p className="text-gray-500 text-sm mt-2">Updated: {lastUpdate}</p>}
+        <p className="mt-1"><StreamStatusBadge status={streamStatus} /></p>
       </header>
 
+      <StaleDataBanner error={error} since={lastLoaded} onRetry={() => fetchAnalysis(false)} />
+
       {/* Action Buttons */}
       <div className="flex justify-center gap-4 mb-6">
         <button
@@ -309,15 +264,6 @@ export default function GoldPage() {
           ))}
         </section>
       )}
-
-      {error && (
-        <div className="bg-red-900 border border-red-500 rounded-xl p-6 mt-6">
-          <div className="flex items-center">
-            <span className="text-2xl mr-3">⚠️</span>
-            <p className="text-red-300">{error}</p>
-          </div>
-        </div>
-      )}
     </main>
   );
 }
@@ -0,0 +1,129 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import JournalTradeCard from '@/components/JournalTradeCard';
+import SectionBoundary from '@/components/SectionBoundary';
+import { JournalEntry, deleteJournalEntry, listJournal, realizedPnl, saveJournalEntry } from '@/lib/journal';
+import { ACCENT_CLASSES, PAIRS, getPair } from '@/lib/pairs';
+import { toast } from '@/lib/toast';
+
+function Journal() {
+  const searchParams = useSearchParams();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [pairFilter, setPairFilter] = useState<string>(searchParams.get('pair') || 'all');
+
+  const loadJournal = async () => {
+    try {
+      setEntries(await listJournal());
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open journal storage');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveEntry = async (entry: JournalEntry) => {
+    try {
+      await saveJournalEntry(entry);
+    } catch (err) {
+      toast.error('Could not save the trade', err);
+    }
+    await loadJournal();
+  };
+
+  const deleteEntry = async (entry: JournalEntry) => {
+    if (!confirm('Delete this trade from the journal?')) return;
+    try {
+      await deleteJournalEntry(entry.id);
+    } catch (err) {
+      toast.error('Could not delete the trade', err);
+    }
+    await loadJournal();
+  };
+
+  useEffect(() => {
+    loadJournal();
+  }, []);
+
+  const visible = entries.filter(e => pairFilter === 'all' || e.pair === pairFilter);
+  const totalPnl = visible.reduce((total, e) => total + realizedPnl(e), 0);
+
+  return (
+    <main className="min-h-screen p-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <header className="text-center mb-6 pb-6 border-b border-gray-700">
+        <Link href="/" className="text-purple-400 hover:text-purple-300 inline-block mb-4">
+          ← Back to Dashboard
+        </Link>
+        <div className="flex items-center justify-center mb-3">
+          <span className="text-4xl mr-3">📓</span>
+          <h1 className="text-4xl font-bold text-purple-400">Trade Journal</h1>
+        </div>
+        <p className="text-gray-400">Every entry and exit from the Pro Trader pages</p>
+        <p className="text-gray-500 text-sm mt-2">
+          {visible.length} trades • Realized P&L:{' '}
+          <span className={totalPnl >= 0 ? 'text-green-400' : 'text-red-400'}>${totalPnl.toFixed(2)}</span>
+        </p>
+      </header>
+
+      {/* Pair Filter */}
+      <div className="flex flex-wrap justify-center gap-2 mb-6">
+        <button
+          onClick={() => setPairFilter('all')}
+          className={`px-4 py-2 rounded-lg text-sm font-bold ${pairFilter === 'all' ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+        >
+          All Pairs
+        </button>
+        {PAIRS.map(p => (
+          <button
+            key={p.slug}
+            onClick={() => setPairFilter(p.slug)}
+            className={`px-4 py-2 rounded-lg text-sm font-bold ${
+              pairFilter === p.slug ? `${ACCENT_CLASSES[p.accent].badge} text-white` : 'bg-gray-800 text-gray-400 hover:text-white'
+            }`}
+          >
+            {p.displayName}
+          </button>
+        ))}
+      </div>
+
+      {loading && <p className="text-center text-gray-400">Loading journal...</p>}
+
+      {error && (
+        <div className="bg-red-900 border border-red-500 rounded-xl p-6 mb-6">
+          <p className="text-red-300">⚠️ {error}</p>
+        </div>
+      )}
+
+      {!loading && !error && visible.length === 0 && (
+        <div className="bg-gray-900 border border-gray-700 rounded-xl p-6 text-center">
+          <p className="text-gray-300">No trades recorded yet.</p>
+          <p className="text-gray-500 text-sm mt-2">Trades you enter from a Pro Trader page show up here.</p>
+        </div>
+      )}
+
+      {visible.map(entry => {
+        const pair = getPair(entry.pair);
+        if (!pair) return null;
+        return (
+          <SectionBoundary key={entry.id} name={`${pair.displayName} trade`}>
+            <JournalTradeCard entry={entry} pair={pair} onSave={saveEntry} onDelete={deleteEntry} />
+          </SectionBoundary>
+        );
+      })}
+    </main>
+  );
+}
+
+export default function JournalPage() {
+  return (
+    <Suspense>
+      <Journal />
+    </Suspense>
+  );
+}
@@ -1,4 +1,6 @@
 import type { Metadata } from "next";
+import AuthGate from "@/components/AuthGate";
+import Toaster from "@/components/Toaster";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -14,7 +16,8 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className="antialiased">
-        {children}
+        <AuthGate>{children}</AuthGate>
+        <Toaster />
       </body>
     </html>
   );
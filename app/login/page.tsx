@@ -0,0 +1,123 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import * as api from '@/lib/api';
+import { AUTH_PROVIDERS, OAUTH_PROVIDERS, localSession, safeRedirect, setSession } from '@/lib/auth';
+
+function Login() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const next = safeRedirect(searchParams.get('next'));
+  const [email, setEmail] = useState('');
+  const [message, setMessage] = useState<{type: 'success' | 'error', text: string} | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const verifyUrl = () => `${window.location.origin}/login/verify?next=${encodeURIComponent(next)}`;
+
+  const sendMagicLink = async () => {
+    if (!email) {
+      setMessage({type: 'error', text: 'Please enter your email'});
+      return;
+    }
+
+    setSending(true);
+    try {
+      const result = await api.requestMagicLink(email, verifyUrl());
+      if (result.success) {
+        setMessage({type: 'success', text: `Sign-in link sent to ${email} - check your inbox.`});
+      } else {
+        setMessage({type: 'error', text: result.error || 'Failed to send sign-in link'});
+      }
+    } catch (err) {
+      setMessage({type: 'error', text: 'Error sending sign-in link: ' + (err instanceof Error ? err.message : err)});
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const signInLocally = () => {
+    if (!email) {
+      setMessage({type: 'error', text: 'Please enter your email'});
+      return;
+    }
+    setSession(localSession(email));
+    router.replace(next);
+  };
+
+  const oauthProviders = OAUTH_PROVIDERS.filter(p => AUTH_PROVIDERS.includes(p.provider));
+  const usesEmail = AUTH_PROVIDERS.includes('email') || AUTH_PROVIDERS.includes('local');
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-6">
+      <div className="bg-gray-900 border-2 border-purple-500 rounded-xl p-6 max-w-md w-full">
+        <div className="flex items-center justify-center mb-3">
+          <span className="text-4xl mr-3">📊</span>
+          <h1 className="text-3xl font-bold text-purple-400">Sign In</h1>
+        </div>
+        <p className="text-gray-400 text-center mb-6">Your trades, journal and notifications are tied to your account</p>
+
+        {message && (
+          <div className={`mb-4 p-3 rounded-lg ${
+            message.type === 'success' ? 'bg-green-900 border border-green-500 text-green-200' :
+            'bg-red-900 border border-red-500 text-red-200'
+          }`}>
+            {message.text}
+          </div>
+        )}
+
+        {usesEmail && (
+          <div className="space-y-3 mb-4">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              className="w-full bg-gray-800 text-white p-3 rounded-lg border border-gray-700 focus:border-purple-500 outline-none"
+            />
+            {AUTH_PROVIDERS.includes('email') && (
+              <button
+                onClick={sendMagicLink}
+                disabled={sending}
+                className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 text-white px-4 py-2 rounded-lg font-bold"
+              >
+                ✉️ {sending ? 'Sending...' : 'Email Me a Sign-In Link'}
+              </button>
+            )}
+            {AUTH_PROVIDERS.includes('local') && (
+              <button
+                onClick={signInLocally}
+                className="w-full bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg font-bold"
+              >
+                🧪 Sign In Locally (dev/test)
+              </button>
+            )}
+          </div>
+        )}
+
+        {oauthProviders.length > 0 && (
+          <div className="space-y-2">
+            {usesEmail && <p className="text-gray-500 text-xs text-center">or</p>}
+            {oauthProviders.map(({ provider, label, icon }) => (
+              <a
+                key={provider}
+                href={api.oauthUrl(provider, verifyUrl())}
+                className="block w-full text-center bg-gray-800 hover:bg-gray-700 border border-gray-600 text-white px-4 py-2 rounded-lg"
+              >
+                {icon} Continue with {label}
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <Login />
+    </Suspense>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import * as api from '@/lib/api';
+import { safeRedirect, setSession } from '@/lib/auth';
+
+// Landing page for magic links and OAuth redirects: /login/verify?token=...&next=/path
+function Verify() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    const token = searchParams.get('token');
+    if (!token) {
+      setError('This sign-in link is missing its token');
+      return;
+    }
+
+    api.verifyLogin(token)
+      .then(session => {
+        setSession(session);
+        router.replace(safeRedirect(searchParams.get('next')));
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Sign-in failed'));
+  }, [searchParams]);
+
+  return (
+    <main className="min-h-screen flex items-center justify-center">
+      <div className="text-center">
+        {error ? (
+          <>
+            <p className="text-red-500 text-xl">Sign-in failed</p>
+            <p className="text-gray-400 mt-2">{error}</p>
+            <Link href="/login" className="inline-block mt-4 bg-purple-600 text-white px-6 py-2 rounded-lg">
+              Back to Sign In
+            </Link>
+          </>
+        ) : (
+          <p className="text-gray-400 text-xl">Signing you in...</p>
+        )}
+      </div>
+    </main>
+  );
+}
+
+export default function VerifyPage() {
+  return (
+    <Suspense>
+      <Verify />
+    </Suspense>
+  );
+}
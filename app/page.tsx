@@ -1,103 +1,216 @@
 'use client';
 
 import Link from 'next/link';
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import AlertsDrawer from '@/components/AlertsDrawer';
+import SectionBoundary from '@/components/SectionBoundary';
+import StaleDataBanner from '@/components/StaleDataBanner';
+import StreamStatusBadge from '@/components/StreamStatusBadge';
+import { observeSetup } from '@/lib/alerts';
+import { fetchProTraderSide } from '@/lib/api';
+import { ACCENT_CLASSES, PAIRS, PairConfig, formatPrice, getPair, proTraderPath } from '@/lib/pairs';
+import {
+  StrategySettings,
+  loadStrategySettings,
+  scoreOptions,
+  scoreTier,
+  setupScore,
+  useStrategySettings
+} from '@/lib/strategy';
+import { useLiveStream } from '@/lib/stream';
+import { errorMessage } from '@/lib/toast';
+import {
+  DEFAULT_WATCHLIST,
+  WatchlistConfig,
+  WatchlistSide,
+  WatchlistSort,
+  formatElapsed,
+  loadWatchlist,
+  moveSlug,
+  saveWatchlist,
+  watchlistSide
+} from '@/lib/watchlist';
 
 interface PairScore {
+  slug: string;
   pair: string;
-  buyScore: number;
-  sellScore: number;
   price: number;
-  buyStatus: string;
-  sellStatus: string;
+  session?: string;
+  buy: WatchlistSide;
+  sell: WatchlistSide;
   loading: boolean;
   error?: string;
+  updatedAt?: string;      // ISO time of the last successful load
 }
 
-export default function Home() {
-  const [scores, setScores] = useState<PairScore[]>([
-    { pair: 'XAU/USD', buyScore: 0, sellScore: 0, price: 0, buyStatus: '', sellStatus: '', loading: true },
-    { pair: 'EUR/USD', buyScore: 0, sellScore: 0, price: 0, buyStatus: '', sellStatus: '', loading: true },
-    { pair: 'GBP/USD', buyScore: 0, sellScore: 0, price: 0, buyStatus: '', sellStatus: '', loading: true }
-  ]);
+const emptyScore = (p: PairConfig): PairScore => ({
+  slug: p.slug,
+  pair: p.displayName,
+  price: 0,
+  buy: watchlistSide(p, 'bullish', null),
+  sell: watchlistSide(p, 'bearish', null),
+  loading: true
+});
+
+// A pair that fails to refresh keeps its last good scores, flagged with the error
+const mergeScore = (prev: PairScore | undefined, next: PairScore): PairScore =>
+  next.error && prev?.updatedAt ? { ...prev, loading: false, error: next.error } : next;
 
-  const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'https://fx-trading-backend-production.up.railway.app';
+const bestScore = (score: PairScore, strategy: StrategySettings) => Math.max(setupScore(score.buy, strategy), setupScore(score.sell, strategy));
 
-  const fetchPairData = async (pair: string, endpoint: string) => {
+// Closest planned entry of the two sides; pairs without one sort last
+const nearestEntry = (score: PairScore) =>
+  Math.min(score.buy.distancePips ?? Infinity, score.sell.distancePips ?? Infinity);
+
+export default function Home() {
+  const [scores, setScores] = useState<PairScore[]>(PAIRS.map(emptyScore));
+  const [watchlist, setWatchlist] = useState<WatchlistConfig>(DEFAULT_WATCHLIST);
+  const [editingWatchlist, setEditingWatchlist] = useState(false);
+  const strategy = useStrategySettings();
+  // Read by the polling interval and the stream handlers, which outlive a render
+  const watchedSlugs = useRef(watchlist.slugs);
+  watchedSlugs.current = watchlist.slugs;
+
+  const fetchPairData = async (p: PairConfig): Promise<PairScore> => {
     try {
-      const [bullishRes, bearishRes] = await Promise.all([
-        fetch(`${BACKEND_URL}/api/${endpoint}/bullish`),
-        fetch(`${BACKEND_URL}/api/${endpoint}/bearish`)
+      const [bullish, bearish] = await Promise.all([
+        fetchProTraderSide(p, 'bullish'),
+        fetchProTraderSide(p, 'bearish')
       ]);
 
-      const bullish = await bullishRes.json();
-      const bearish = await bearishRes.json();
-
-      const buyScore = bullish?.total_score || 0;
-      const sellScore = bearish?.total_score || 0;
+      const buy = watchlistSide(p, 'bullish', bullish);
+      const sell = watchlistSide(p, 'bearish', bearish);
       const price = bullish?.current_price || bearish?.current_price || 0;
 
-      const getStatus = (score: number, tradable: boolean) => {
-        if (score >= 5 && tradable) return 'READY';
-        if (score >= 5) return 'SETUP';
-        return 'NO SIGNAL';
-      };
+      // Alerts weigh the score with the settings saved right now
+      const scoring = loadStrategySettings();
+      if (bullish?.setup_status) observeSetup({ pair: p.slug, side: 'bullish', setup_status: bullish.setup_status, total_score: setupScore(buy, scoring) });
+      if (bearish?.setup_status) observeSetup({ pair: p.slug, side: 'bearish', setup_status: bearish.setup_status, total_score: setupScore(sell, scoring) });
 
       return {
-        pair,
-        buyScore,
-        sellScore,
+        slug: p.slug,
+        pair: p.displayName,
         price,
-        buyStatus: getStatus(buyScore, bullish?.tradable),
-        sellStatus: getStatus(sellScore, bearish?.tradable),
-        loading: false
+        session: (bullish || bearish)?.why_this_setup?.session?.current_session,
+        buy,
+        sell,
+        loading: false,
+        updatedAt: new Date().toISOString()
       };
-    } catch (error) {
+    } catch (err) {
       return {
-        pair,
-        buyScore: 0,
-        sellScore: 0,
-        price: 0,
-        buyStatus: 'ERROR',
-        sellStatus: 'ERROR',
+        ...emptyScore(p),
         loading: false,
-        error: 'Failed to load'
+        error: errorMessage(err)
       };
     }
   };
 
-  useEffect(() => {
-    const loadScores = async () => {
-      const pairs = [
-        { pair: 'XAU/USD', endpoint: 'pro-trader-gold' },
-        { pair: 'EUR/USD', endpoint: 'pro-trader-eurusd' },
-        { pair: 'GBP/USD', endpoint: 'pro-trader-gbpusd' }
-      ];
+  // Only the pairs on the watchlist are fetched - an added pair is fetched when it is added
+  const loadScores = async () => {
+    const results = await Promise.all(PAIRS.filter(p => watchedSlugs.current.includes(p.slug)).map(fetchPairData));
+
+    setScores(prev => prev.map(s => {
+      const result = results.find(r => r.slug === s.slug);
+      return result ? mergeScore(s, result) : s;
+    }));
+  };
+
+  const reloadPair = async (slug: string) => {
+    const pair = getPair(slug);
+    if (!pair) return;
+    const result = await fetchPairData(pair);
+    setScores(prev => prev.map(s => (s.slug === slug ? mergeScore(s, result) : s)));
+  };
 
-      const results = await Promise.all(
-        pairs.map(p => fetchPairData(p.pair, p.endpoint))
-      );
+  const streamStatus = useLiveStream(PAIRS.map(p => p.slug), {
+    onPrice: tick => setScores(prev => prev.map(s => (s.slug === tick.pair ? { ...s, price: tick.price } : s))),
+    // The reload feeds the alerts - the event's total_score is the backend's, not weighted by the strategy
+    onSetupStatus: event => {
+      if (watchedSlugs.current.includes(event.pair)) reloadPair(event.pair);
+    }
+  });
 
-      setScores(results);
-    };
+  // Watchlist lives in localStorage - read after mount to match the server render. The ref is set
+  // here too, so the first load below already fetches the saved pairs.
+  useEffect(() => {
+    const saved = loadWatchlist();
+    watchedSlugs.current = saved.slugs;
+    setWatchlist(saved);
+  }, []);
 
+  useEffect(() => {
+    // Resync whenever the stream (re)connects; poll only while it is down
     loadScores();
+    if (streamStatus === 'live') return;
+
     const interval = setInterval(loadScores, 120000); // Refresh every 2 minutes
 
     return () => clearInterval(interval);
-  }, []);
+  }, [streamStatus]);
+
+  const updateWatchlist = (changes: Partial<WatchlistConfig>) => {
+    const updated = { ...watchlist, ...changes };
+    setWatchlist(updated);
+    saveWatchlist(updated);
+  };
+
+  const addToWatchlist = (slug: string) => {
+    updateWatchlist({ slugs: [...watchlist.slugs, slug] });
+    reloadPair(slug);
+  };
 
   const getScoreColor = (score: number) => {
-    if (score >= 7) return 'text-green-400';
-    if (score >= 5) return 'text-yellow-400';
+    const tier = scoreTier(score, strategy);
+    if (tier === 'strong' || tier === 'good') return 'text-green-400';
+    if (tier === 'setup') return 'text-yellow-400';
     return 'text-red-400';
   };
 
-  const formatPrice = (price: number, pair: string) => {
-    if (pair === 'XAU/USD') return `$${price.toFixed(2)}`;
-    return price.toFixed(5);
+  const watched = watchlist.slugs
+    .map(slug => scores.find(s => s.slug === slug))
+    .filter((s): s is PairScore => s !== undefined);
+
+  const visible = watched
+    .filter(s => s.loading || bestScore(s, strategy) >= watchlist.minScore)
+    .filter(s => !watchlist.readyOnly || s.buy.setup_status === 'READY' || s.sell.setup_status === 'READY')
+    .sort((a, b) => {
+      if (watchlist.sort === 'score') return bestScore(b, strategy) - bestScore(a, strategy);
+      if (watchlist.sort === 'distance') return nearestEntry(a) - nearestEntry(b);
+      return 0;
+    });
+
+  const unwatched = PAIRS.filter(p => !watchlist.slugs.includes(p.slug));
+
+  // A pair that never loaded shows ERROR; one that failed a refresh keeps its last signal
+  const getStatus = (score: PairScore, side: WatchlistSide) => {
+    if (score.error && !score.updatedAt) return 'ERROR';
+    const points = setupScore(side, strategy);
+    if (points >= strategy.minScore && side.tradable) return 'READY';
+    if (points >= strategy.minScore) return 'SETUP';
+    return 'NO SIGNAL';
   };
 
+  const renderSide = (label: string, score: PairScore, side: WatchlistSide, className: string) => (
+    <div className={`${className} rounded-lg p-3 text-center`}>
+      <div className="text-xs uppercase mb-1">{label}</div>
+      <div className={`text-3xl font-bold ${getScoreColor(setupScore(side, strategy))}`}>
+        {score.loading ? '...' : setupScore(side, strategy)}
+      </div>
+      <div className="text-xs text-gray-400 mt-1">
+        {score.loading ? '...' : getStatus(score, side)}
+      </div>
+      {!score.loading && (
+        <div className="text-xs text-gray-500 mt-2 space-y-0.5 text-left">
+          <p>Status: <span className="text-gray-300">{side.setup_status}</span> <span title="Time since status change">({formatElapsed(side.statusSince)})</span></p>
+          <p>Pattern: <span className="text-gray-300">{side.pattern_type?.replace(/_/g, ' ') || '—'}</span></p>
+          <p>Confidence: <span className="text-gray-300">{side.confidence || '—'}</span></p>
+          <p>To Entry: <span className="text-gray-300">{side.distancePips === null ? '—' : `${side.distancePips.toFixed(1)} pips`}</span></p>
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <main className="min-h-screen p-6 max-w-7xl mx-auto">
       {/* Header */}
@@ -108,57 +221,152 @@ export default function Home() {
         </div>
         <p className="text-gray-400">ICT/Smart Money Confluence System</p>
         <p className="text-gray-500 text-sm mt-2">
-          XAUUSD Gold • EURUSD • GBPUSD • Professional Setups
+          {PAIRS.map(p => p.symbol).join(' • ')} • Professional Setups
         </p>
+        <nav className="mt-4 flex justify-center gap-6 text-sm">
+          <Link href="/journal" className="text-purple-400 hover:text-purple-300">📓 Trade Journal</Link>
+          <Link href="/analytics" className="text-purple-400 hover:text-purple-300">📈 Analytics</Link>
+          <Link href="/paper" className="text-purple-400 hover:text-purple-300">📝 Paper Trading</Link>
+          <Link href="/snapshots" className="text-purple-400 hover:text-purple-300">🗂️ Snapshots</Link>
+          <Link href="/backtests" className="text-purple-400 hover:text-purple-300">🧪 Backtests</Link>
+          <Link href="/strategy" className="text-purple-400 hover:text-purple-300">🎛️ Strategy</Link>
+          <Link href="/settings" className="text-purple-400 hover:text-purple-300">⚙️ Settings</Link>
+          <AlertsDrawer />
+        </nav>
       </header>
 
-      {/* Live Scores Dashboard */}
+      {/* Watchlist Scanner */}
       <div className="mb-8">
-        <h2 className="text-2xl font-bold text-white mb-4 flex items-center">
-          <span className="mr-2">🎯</span>
-          Live Trading Scores
-        </h2>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h2 className="text-2xl font-bold text-white flex items-center">
+            <span className="mr-2">🎯</span>
+            Watchlist
+            <span className="ml-3"><StreamStatusBadge status={streamStatus} /></span>
+          </h2>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="text-gray-400">
+              Sort{' '}
+              <select
+                value={watchlist.sort}
+                onChange={(e) => updateWatchlist({ sort: e.target.value as WatchlistSort })}
+                className="bg-gray-800 text-white p-1 rounded"
+              >
+                <option value="order">My order</option>
+                <option value="score">Best score</option>
+                <option value="distance">Closest to entry</option>
+              </select>
+            </label>
+            <label className="text-gray-400">
+              Score ≥{' '}
+              <select
+                value={watchlist.minScore}
+                onChange={(e) => updateWatchlist({ minScore: parseInt(e.target.value) })}
+                className="bg-gray-800 text-white p-1 rounded"
+              >
+                <option value="0">Any</option>
+                {scoreOptions(strategy, watchlist.minScore).map(score => <option key={score} value={score}>{score}</option>)}
+              </select>
+            </label>
+            <label className="text-gray-400 flex items-center gap-1">
+              <input type="checkbox" checked={watchlist.readyOnly} onChange={(e) => updateWatchlist({ readyOnly: e.target.checked })} />
+              READY only
+            </label>
+            <button
+              onClick={() => setEditingWatchlist(!editingWatchlist)}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded"
+            >
+              {editingWatchlist ? 'Done' : '✏️ Edit'}
+            </button>
+          </div>
+        </div>
+
+        {/* Add / remove / reorder */}
+        {editingWatchlist && (
+          <div className="bg-gray-900 border border-gray-700 rounded-lg p-4 mb-4">
+            {watchlist.slugs.length === 0 && <p className="text-gray-500 text-sm mb-2">No pairs on the watchlist.</p>}
+            <ul className="space-y-2 mb-3">
+              {watchlist.slugs.map((slug, i) => (
+                <li key={slug} className="flex items-center justify-between bg-gray-800 rounded px-3 py-2 text-sm">
+                  <span className="text-white">{getPair(slug)?.displayName}</span>
+                  <span className="flex gap-2">
+                    <button
+                      onClick={() => updateWatchlist({ slugs: moveSlug(watchlist.slugs, slug, -1) })}
+                      disabled={i === 0}
+                      className="text-gray-400 hover:text-white disabled:opacity-30"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => updateWatchlist({ slugs: moveSlug(watchlist.slugs, slug, 1) })}
+                      disabled={i === watchlist.slugs.length - 1}
+                      className="text-gray-400 hover:text-white disabled:opacity-30"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => updateWatchlist({ slugs: watchlist.slugs.filter(s => s !== slug) })}
+                      className="text-red-400 hover:text-red-300"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {unwatched.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && addToWatchlist(e.target.value)}
+                className="bg-gray-800 text-white p-2 rounded text-sm"
+              >
+                <option value="">+ Add pair...</option>
+                {unwatched.map(p => <option key={p.slug} value={p.slug}>{p.displayName}</option>)}
+              </select>
+            )}
+          </div>
+        )}
+
+        {visible.length === 0 && (
+          <p className="text-gray-500 text-center py-6">
+            {watched.length === 0 ? 'Your watchlist is empty - use Edit to add pairs.' : 'No pairs match the current filter.'}
+          </p>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          {scores.map((score) => (
-            <div key={score.pair} className="bg-gray-900 border border-gray-700 rounded-lg p-5">
-              {/* Pair Header */}
-              <div className="flex items-center justify-between mb-3 pb-3 border-b border-gray-800">
-                <h3 className="text-lg font-bold text-white">{score.pair}</h3>
-                <span className="text-sm text-gray-400">
-                  {score.loading ? '...' : formatPrice(score.price, score.pair)}
-                </span>
-              </div>
+          {visible.map((score) => (
+            <SectionBoundary key={score.slug} name={score.pair}>
+              <div className="bg-gray-900 border border-gray-700 rounded-lg p-5">
+                {/* Pair Header */}
+                <div className="flex items-center justify-between mb-3 pb-3 border-b border-gray-800">
+                  <Link href={proTraderPath(getPair(score.slug)!)} className="text-lg font-bold text-white hover:text-purple-300">
+                    {score.pair}
+                  </Link>
+                  <span className="text-sm text-gray-400">
+                    {score.loading ? '...' : formatPrice(getPair(score.slug)!, score.price)}
+                  </span>
+                </div>
+                {score.session && (
+                  <p className="text-xs text-gray-500 mb-3">Session: <span className="text-gray-300">{score.session}</span></p>
+                )}
 
-              {/* BUY/SELL Scores */}
-              <div className="grid grid-cols-2 gap-3">
-                {/* BUY Score */}
-                <div className="bg-blue-900/30 border border-blue-500/30 rounded-lg p-3 text-center">
-                  <div className="text-xs text-blue-300 uppercase mb-1">Buy</div>
-                  <div className={`text-3xl font-bold ${getScoreColor(score.buyScore)}`}>
-                    {score.loading ? '...' : score.buyScore}
-                  </div>
-                  <div className="text-xs text-gray-400 mt-1">
-                    {score.loading ? '...' : score.buyStatus}
-                  </div>
+                {/* BUY/SELL Scores */}
+                <div className="grid grid-cols-2 gap-3">
+                  {renderSide('Buy', score, score.buy, 'bg-blue-900/30 border border-blue-500/30 text-blue-300')}
+                  {renderSide('Sell', score, score.sell, 'bg-red-900/30 border border-red-500/30 text-red-300')}
                 </div>
 
-                {/* SELL Score */}
-                <div className="bg-red-900/30 border border-red-500/30 rounded-lg p-3 text-center">
-                  <div className="text-xs text-red-300 uppercase mb-1">Sell</div>
-                  <div className={`text-3xl font-bold ${getScoreColor(score.sellScore)}`}>
-                    {score.loading ? '...' : score.sellScore}
-                  </div>
-                  <div className="text-xs text-gray-400 mt-1">
-                    {score.loading ? '...' : score.sellStatus}
+                {/* Error State - stale scores stay above the banner */}
+                {score.error && score.updatedAt && (
+                  <div className="mt-3"><StaleDataBanner error={score.error} since={score.updatedAt} onRetry={() => reloadPair(score.slug)} /></div>
+                )}
+                {score.error && !score.updatedAt && (
+                  <div className="mt-2 text-xs text-red-400">
+                    Failed to load: {score.error}{' '}
+                    <button onClick={() => reloadPair(score.slug)} className="underline hover:text-red-300">Retry</button>
                   </div>
-                </div>
+                )}
               </div>
-
-              {/* Error State */}
-              {score.error && (
-                <div className="mt-2 text-xs text-red-400">{score.error}</div>
-              )}
-            </div>
+            </SectionBoundary>
           ))}
         </div>
       </div>
@@ -168,72 +376,42 @@ export default function Home() {
         <div className="flex items-center justify-center gap-6 text-sm">
           <div className="flex items-center">
             <span className="w-3 h-3 rounded-full bg-green-400 mr-2"></span>
-            <span className="text-gray-300">≥7 Strong</span>
+            <span className="text-gray-300">≥{strategy.goodScore} Strong</span>
           </div>
           <div className="flex items-center">
             <span className="w-3 h-3 rounded-full bg-yellow-400 mr-2"></span>
-            <span className="text-gray-300">≥5 Good</span>
+            <span className="text-gray-300">≥{strategy.minScore} Good</span>
           </div>
           <div className="flex items-center">
             <span className="w-3 h-3 rounded-full bg-red-400 mr-2"></span>
-            <span className="text-gray-300">&lt;5 Weak</span>
+            <span className="text-gray-300">&lt;{strategy.minScore} Weak</span>
           </div>
         </div>
       </div>
 
-      {/* Pro Trader Cards - ORIGINAL BUTTONS */}
+      {/* Pro Trader Cards - one per registered pair */}
       <h2 className="text-2xl font-bold text-white mb-4">Detailed Analysis</h2>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-        {/* Pro Trader Gold Card */}
-        <Link href="/pro-trader-gold">
-          <div className="bg-gray-900 border border-purple-500 rounded-xl p-6 hover:border-purple-400 transition-colors cursor-pointer">
-            <div className="flex items-center justify-between mb-2">
-              <div className="flex items-center">
-                <span className="text-2xl mr-3">📊</span>
-                <h3 className="text-xl font-bold text-purple-400">Pro Trader</h3>
-              </div>
-              <span className="bg-purple-600 px-2 py-1 rounded text-xs text-white">GOLD</span>
-            </div>
-            <p className="text-gray-400 text-sm mb-2">XAUUSD • Live Setup</p>
-            <p className="text-purple-400 text-xl font-bold">
-              Educational Mode
-            </p>
-          </div>
-        </Link>
-
-        {/* Pro Trader EUR/USD Card */}
-        <Link href="/pro-trader-eurusd">
-          <div className="bg-gray-900 border border-cyan-500 rounded-xl p-6 hover:border-cyan-400 transition-colors cursor-pointer">
-            <div className="flex items-center justify-between mb-2">
-              <div className="flex items-center">
-                <span className="text-2xl mr-3">💱</span>
-                <h3 className="text-xl font-bold text-cyan-400">Pro Trader</h3>
-              </div>
-              <span className="bg-cyan-600 px-2 py-1 rounded text-xs text-white">EUR/USD</span>
-            </div>
-            <p className="text-gray-400 text-sm mb-2">EURUSD • Live Setup</p>
-            <p className="text-cyan-400 text-xl font-bold">
-              Educational Mode
-            </p>
-          </div>
-        </Link>
-
-        {/* Pro Trader GBP/USD Card - NEW */}
-        <Link href="/pro-trader-gbpusd">
-          <div className="bg-gray-900 border border-green-500 rounded-xl p-6 hover:border-green-400 transition-colors cursor-pointer">
-            <div className="flex items-center justify-between mb-2">
-              <div className="flex items-center">
-                <span className="text-2xl mr-3">💷</span>
-                <h3 className="text-xl font-bold text-green-400">Pro Trader</h3>
+        {PAIRS.map((p) => {
+          const accent = ACCENT_CLASSES[p.accent];
+          return (
+            <Link key={p.slug} href={proTraderPath(p)}>
+              <div className={`bg-gray-900 border ${accent.border} rounded-xl p-6 transition-colors cursor-pointer`}>
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center">
+                    <span className="text-2xl mr-3">{p.icon}</span>
+                    <h3 className={`text-xl font-bold ${accent.text}`}>Pro Trader</h3>
+                  </div>
+                  <span className={`${accent.badge} px-2 py-1 rounded text-xs text-white`}>{p.badge}</span>
+                </div>
+                <p className="text-gray-400 text-sm mb-2">{p.symbol} • Live Setup</p>
+                <p className={`${accent.text} text-xl font-bold`}>
+                  Educational Mode
+                </p>
               </div>
-              <span className="bg-green-600 px-2 py-1 rounded text-xs text-white">NEW</span>
-            </div>
-            <p className="text-gray-400 text-sm mb-2">GBPUSD • Live Setup</p>
-            <p className="text-green-400 text-xl font-bold">
-              Educational Mode
-            </p>
-          </div>
-        </Link>
+            </Link>
+          );
+        })}
       </div>
 
     </main>
@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import SectionBoundary from '@/components/SectionBoundary';
+import { PAIRS, formatPrice, getPair, proTraderPath } from '@/lib/pairs';
+import {
+  PaperPosition,
+  clearPaperHistory,
+  listPaperPositions,
+  paperExits,
+  paperRMultiple,
+  usePaperSettings
+} from '@/lib/paper';
+import { toast } from '@/lib/toast';
+
+const formatSigned = (value: number, digits: number) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+export default function PaperTradingPage() {
+  const [settings, updateSettings] = usePaperSettings();
+  const [positions, setPositions] = useState<PaperPosition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  const loadPositions = async () => {
+    try {
+      setPositions(await listPaperPositions());
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open paper trading storage');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearHistory = async () => {
+    if (!confirm('Delete every closed paper trade? Open positions keep running.')) return;
+    try {
+      await clearPaperHistory();
+    } catch (err) {
+      toast.error('Could not clear the paper log', err);
+    }
+    await loadPositions();
+  };
+
+  useEffect(() => {
+    loadPositions();
+  }, []);
+
+  const closed = positions.filter(p => p.status === 'closed');
+  const rs = closed.map(paperRMultiple).filter((r): r is number => r !== null);
+  const wins = rs.filter(r => r > 0).length;
+  const netPips = closed.reduce((total, p) => total + paperExits(p).reduce((sum, f) => sum + (f.pips ?? 0) * f.position_size / 100, 0), 0);
+  const fills = positions
+    .flatMap(position => position.fills.map(fill => ({ position, fill })))
+    .sort((a, b) => b.fill.time.localeCompare(a.fill.time));
+
+  return (
+    <main className="min-h-screen p-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <header className="text-center mb-6 pb-6 border-b border-gray-700">
+        <Link href="/" className="text-purple-400 hover:text-purple-300 inline-block mb-4">
+          ← Back to Dashboard
+        </Link>
+        <div className="flex items-center justify-center mb-3">
+          <span className="text-4xl mr-3">📝</span>
+          <h1 className="text-4xl font-bold text-purple-400">Paper Trading</h1>
+        </div>
+        <p className="text-gray-400">Forward-test the setups against live prices - no broker, no backend trade</p>
+        <p className="text-gray-500 text-sm mt-2">
+          {closed.length} closed • Win rate: {rs.length ? `${Math.round((wins / rs.length) * 100)}%` : '—'} • Net:{' '}
+          <span className={netPips >= 0 ? 'text-green-400' : 'text-red-400'}>{formatSigned(netPips, 1)} pips</span>
+          {rs.length > 0 && <> • {formatSigned(rs.reduce((total, r) => total + r, 0), 2)}R</>}
+        </p>
+      </header>
+
+      {/* Settings */}
+      <section className="bg-gray-900 border border-yellow-600 rounded-xl p-6 mb-6">
+        <h2 className="text-2xl font-bold text-white mb-4">⚙️ SIMULATOR</h2>
+        <label className="flex items-center gap-3 text-white mb-4">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => updateSettings({ enabled: e.target.checked })}
+            className="w-5 h-5"
+          />
+          <span className="font-bold">Paper mode</span>
+          <span className="text-gray-400 text-sm">- the Pro Trader pages simulate entries, exits and stop/target changes</span>
+        </label>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {PAIRS.map(pair => (
+            <div key={pair.slug}>
+              <label htmlFor={`spread-${pair.slug}`} className="text-gray-400 text-sm">{pair.displayName} spread (pips)</label>
+              <input
+                id={`spread-${pair.slug}`}
+                type="number"
+                value={settings.spreadPips[pair.slug] ?? ''}
+                onChange={(e) => updateSettings({ spreadPips: { ...settings.spreadPips, [pair.slug]: parseFloat(e.target.value) || 0 } })}
+                className="w-full bg-gray-800 text-white p-2 rounded"
+                min="0"
+                step="0.1"
+              />
+            </div>
+          ))}
+          <div>
+            <label htmlFor="slippage" className="text-gray-400 text-sm">Slippage (pips)</label>
+            <input
+              id="slippage"
+              type="number"
+              value={settings.slippagePips}
+              onChange={(e) => updateSettings({ slippagePips: parseFloat(e.target.value) || 0 })}
+              className="w-full bg-gray-800 text-white p-2 rounded"
+              min="0"
+              step="0.1"
+            />
+          </div>
+        </div>
+        <p className="text-gray-500 text-xs mt-3">
+          Entries and manual exits fill at the bid/ask plus slippage. A touched stop closes what is left at the stop less
+          slippage; TP1 closes 50% of the full position and TP2 the rest, at their price. Prices are checked while the
+          pair&apos;s Pro Trader page is open.
+        </p>
+      </section>
+
+      {loading && <p className="text-center text-gray-400">Loading paper trades...</p>}
+
+      {error && (
+        <div className="bg-red-900 border border-red-500 rounded-xl p-6 mb-6">
+          <p className="text-red-300">⚠️ {error}</p>
+        </div>
+      )}
+
+      {!loading && !error && positions.length === 0 && (
+        <div className="bg-gray-900 border border-gray-700 rounded-xl p-6 text-center">
+          <p className="text-gray-300">No paper trades yet.</p>
+          <p className="text-gray-500 text-sm mt-2">Turn on paper mode and take a setup from a Pro Trader page.</p>
+        </div>
+      )}
+
+      {/* Fill Log */}
+      {fills.length > 0 && (
+        <SectionBoundary name="Fill Log">
+          <section className="bg-gray-900 border border-gray-700 rounded-xl p-6 mb-6 overflow-x-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-bold text-white">🧾 FILL LOG</h2>
+              {closed.length > 0 && (
+                <button onClick={clearHistory} className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm">
+                  Clear closed trades
+                </button>
+              )}
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="py-2">Time</th>
+                  <th>Pair</th>
+                  <th>Side</th>
+                  <th>Fill</th>
+                  <th className="text-right">Size</th>
+                  <th className="text-right">Quote</th>
+                  <th className="text-right">Price</th>
+                  <th className="text-right">Pips</th>
+                  <th className="text-right">P&L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fills.map(({ position, fill }, idx) => {
+                  const pair = getPair(position.pair);
+                  if (!pair) return null;
+                  return (
+                    <tr key={idx} className="border-t border-gray-800 text-gray-200">
+                      <td className="py-2 text-gray-400">{new Date(fill.time).toLocaleString()}</td>
+                      <td>
+                        <Link href={proTraderPath(pair)} className="text-purple-300 hover:text-purple-200">{pair.displayName}</Link>
+                        {position.status === 'open' && <span className="ml-2 text-xs text-yellow-300">OPEN</span>}
+                      </td>
+                      <td className={position.direction === 'LONG' ? 'text-green-400' : 'text-red-400'}>{position.direction}</td>
+                      <td>{fill.kind === 'entry' ? '➕' : '➖'} {fill.reason}</td>
+                      <td className="text-right">{fill.position_size}%</td>
+                      <td className="text-right text-gray-400">{formatPrice(pair, fill.quote)}</td>
+                      <td className="text-right">{formatPrice(pair, fill.price)}</td>
+                      <td className={`text-right ${(fill.pips ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {fill.pips === undefined ? '' : formatSigned(fill.pips, 1)}
+                      </td>
+                      <td className="text-right">{fill.pnl === undefined ? '' : `${fill.pnl < 0 ? '-' : ''}$${Math.abs(fill.pnl).toFixed(2)}`}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </section>
+        </SectionBoundary>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,15 @@
+import { notFound } from 'next/navigation';
+import ProTraderDashboard from '@/components/ProTraderDashboard';
+import { PAIRS, getPair } from '@/lib/pairs';
+
+export function generateStaticParams() {
+  return PAIRS.map(p => ({ pair: p.slug }));
+}
+
+export default async function ProTraderPage({ params }: { params: Promise<{ pair: string }> }) {
+  const { pair: slug } = await params;
+  const pair = getPair(slug);
+  if (!pair) notFound();
+
+  return <ProTraderDashboard pair={pair} />;
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import NotificationChannels from '@/components/NotificationChannels';
+import SectionBoundary from '@/components/SectionBoundary';
+import * as api from '@/lib/api';
+import { PAIRS } from '@/lib/pairs';
+import { DEFAULT_STRATEGY_SETTINGS, loadStrategySettings, scoreOptions, useStrategySettings } from '@/lib/strategy';
+import type { SavedTelegramSettings, TelegramPairRule } from '@/lib/types';
+
+// One rule per registered pair; pairs the saved config doesn't mention get the strategy's alert score
+const mergeRules = (saved?: TelegramPairRule[], minScore = loadStrategySettings().alertScore): TelegramPairRule[] =>
+  PAIRS.map(p => saved?.find(r => r.pair === p.slug) || { pair: p.slug, bullish: true, bearish: true, min_score: minScore });
+
+export default function SettingsPage() {
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string>('');
+  const [saved, setSaved] = useState<SavedTelegramSettings | null>(null);
+  const [enabled, setEnabled] = useState(true);
+  const [chatId, setChatId] = useState('');
+  const [botToken, setBotToken] = useState('');
+  const [rules, setRules] = useState<TelegramPairRule[]>(mergeRules(undefined, DEFAULT_STRATEGY_SETTINGS.alertScore));
+  const strategy = useStrategySettings();
+  const [message, setMessage] = useState<{type: 'success' | 'error', text: string} | null>(null);
+
+  const fetchSettings = async () => {
+    try {
+      const settings = await api.fetchTelegramSettings();
+      setSaved(settings);
+      setEnabled(settings.enabled);
+      setChatId(settings.chat_id);
+      setRules(mergeRules(settings.pairs));
+      setLoadError('');
+    } catch (err) {
+      // 404 = nothing saved yet; start from the defaults
+      if (err instanceof api.ApiError && err.status === 404) {
+        setRules(mergeRules());
+      } else {
+        setLoadError(err instanceof Error ? err.message : 'Network error');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Only refreshes the delivery status - keeps unsaved form edits
+  const refreshDelivery = async () => {
+    try {
+      setSaved(await api.fetchTelegramSettings());
+    } catch (err) {
+      console.error('Failed to refresh delivery status:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const updateRule = (slug: string, changes: Partial<TelegramPairRule>) =>
+    setRules(prev => prev.map(r => (r.pair === slug ? { ...r, ...changes } : r)));
+
+  const saveSettings = async () => {
+    if (!chatId) {
+      setMessage({type: 'error', text: 'Please enter your Telegram Chat ID'});
+      return;
+    }
+
+    try {
+      const result = await api.saveTelegramSettings({
+        chat_id: chatId,
+        bot_token: botToken || undefined,
+        enabled,
+        pairs: rules
+      });
+
+      if (result.success) {
+        setMessage({type: 'success', text: 'Settings saved! Test message sent to your Telegram.'});
+        setBotToken('');
+        await refreshDelivery();
+      } else {
+        setMessage({type: 'error', text: result.error || 'Failed to save settings'});
+      }
+    } catch (err) {
+      setMessage({type: 'error', text: 'Error saving settings: ' + (err instanceof Error ? err.message : err)});
+    }
+  };
+
+  const sendTestNotification = async () => {
+    try {
+      const result = await api.sendTelegramTest();
+
+      if (result.success) {
+        setMessage({type: 'success', text: 'Test notification sent! Check your Telegram.'});
+      } else {
+        setMessage({type: 'error', text: result.error || 'Failed to send test'});
+      }
+    } catch (err) {
+      setMessage({type: 'error', text: 'Error sending test: ' + (err instanceof Error ? err.message : err)});
+    }
+    await refreshDelivery();
+  };
+
+  const delivery = saved?.last_delivery;
+
+  return (
+    <main className="min-h-screen p-6 max-w-4xl mx-auto">
+      {/* Header */}
+      <header className="text-center mb-6 pb-6 border-b border-gray-700">
+        <Link href="/" className="text-purple-400 hover:text-purple-300 inline-block mb-4">
+          ← Back to Dashboard
+        </Link>
+        <div className="flex items-center justify-center mb-3">
+          <span className="text-4xl mr-3">⚙️</span>
+          <h1 className="text-4xl font-bold text-purple-400">Settings</h1>
+        </div>
+        <p className="text-gray-400">Notifications for every pair - Telegram, Discord, Slack, email and webhooks</p>
+      </header>
+
+      {loading && <p className="text-center text-gray-400">Loading saved settings...</p>}
+
+      {loadError && (
+        <div className="bg-red-900 border border-red-500 rounded-xl p-6 mb-6">
+          <p className="text-red-300">⚠️ Could not load saved settings: {loadError}</p>
+        </div>
+      )}
+
+      {!loading && (
+        <>
+          {/* Telegram */}
+          <section className="bg-gray-900 border border-purple-500 rounded-xl p-6 mb-6">
+            <h2 className="text-2xl font-bold text-white mb-4">📱 TELEGRAM</h2>
+
+            <div className="mb-6 p-4 bg-blue-900 bg-opacity-30 rounded-lg border border-blue-700">
+              <h3 className="text-lg font-bold text-blue-300 mb-2">How to Set Up:</h3>
+              <ol className="text-sm text-gray-300 space-y-2 list-decimal list-inside">
+                <li>Open Telegram and search for <strong className="text-white">@ProTraderGoldBot</strong></li>
+                <li>Start a chat with the bot (click Start)</li>
+                <li>The bot will send you your Chat ID</li>
+                <li>Copy the Chat ID and paste it below</li>
+                <li>Pick the pairs, directions and scores to be notified about and click Save</li>
+              </ol>
+            </div>
+
+            {message && (
+              <div className={`mb-4 p-3 rounded-lg ${
+                message.type === 'success' ? 'bg-green-900 border border-green-500 text-green-200' :
+                'bg-red-900 border border-red-500 text-red-200'
+              }`}>
+                {message.text}
+              </div>
+            )}
+
+            <div className="space-y-4 mb-6">
+              <label className="flex items-center gap-2 text-gray-300">
+                <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+                Send Telegram notifications
+              </label>
+
+              <div>
+                <label className="text-gray-400 text-sm block mb-2">
+                  Telegram Chat ID <span className="text-red-400">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={chatId}
+                  onChange={(e) => setChatId(e.target.value)}
+                  placeholder="e.g., 123456789"
+                  className="w-full bg-gray-800 text-white p-3 rounded-lg border border-gray-700 focus:border-purple-500 outline-none"
+                />
+              </div>
+
+              <div>
+                <label className="text-gray-400 text-sm block mb-2">
+                  Bot Token <span className="text-gray-500">(Optional - use default bot)</span>
+                </label>
+                <input
+                  type="password"
+                  value={botToken}
+                  onChange={(e) => setBotToken(e.target.value)}
+                  placeholder={saved?.bot_token_set ? 'Custom token saved - leave blank to keep it' : 'Leave blank to use default bot'}
+                  className="w-full bg-gray-800 text-white p-3 rounded-lg border border-gray-700 focus:border-purple-500 outline-none"
+                />
+              </div>
+            </div>
+
+            {/* Per-pair rules */}
+            <h3 className="text-lg font-bold text-white mb-2">What Triggers a Message</h3>
+            <table className="w-full text-sm mb-6">
+              <thead>
+                <tr className="text-gray-500 text-xs uppercase text-left">
+                  <th className="py-1">Pair</th>
+                  <th className="py-1 text-center">Buy</th>
+                  <th className="py-1 text-center">Sell</th>
+                  <th className="py-1">Score ≥</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map(rule => (
+                  <tr key={rule.pair} className="border-t border-gray-800 text-gray-300">
+                    <td className="py-2 text-white">{PAIRS.find(p => p.slug === rule.pair)?.displayName}</td>
+                    <td className="py-2 text-center">
+                      <input type="checkbox" checked={rule.bullish} onChange={(e) => updateRule(rule.pair, { bullish: e.target.checked })} />
+                    </td>
+                    <td className="py-2 text-center">
+                      <input type="checkbox" checked={rule.bearish} onChange={(e) => updateRule(rule.pair, { bearish: e.target.checked })} />
+                    </td>
+                    <td className="py-2">
+                      <select
+                        value={rule.min_score}
+                        onChange={(e) => updateRule(rule.pair, { min_score: parseInt(e.target.value) })}
+                        className="bg-gray-800 text-white p-1 rounded"
+                      >
+                        {scoreOptions(strategy, rule.min_score).map(score => <option key={score} value={score}>{score}+</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex gap-3">
+              {saved && (
+                <button
+                  onClick={sendTestNotification}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-bold"
+                >
+                  📤 Test
+                </button>
+              )}
+              <button
+                onClick={saveSettings}
+                className="flex-1 bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg font-bold"
+              >
+                💾 Save
+              </button>
+            </div>
+          </section>
+
+          {/* Delivery Status */}
+          <section className="bg-gray-900 border border-gray-700 rounded-xl p-6 mb-6">
+            <h2 className="text-2xl font-bold text-white mb-4">📬 LAST TELEGRAM DELIVERY</h2>
+            {!delivery ? (
+              <p className="text-gray-500 text-sm">No notification sent yet.</p>
+            ) : (
+              <div className="space-y-1 text-sm">
+                <p className={`font-bold ${delivery.success ? 'text-green-400' : 'text-red-400'}`}>
+                  {delivery.success ? '✅ Delivered' : '❌ Failed'}
+                </p>
+                <p className="text-gray-400">Sent: <span className="text-white">{new Date(delivery.sent_at).toLocaleString()}</span></p>
+                {delivery.pair && (
+                  <p className="text-gray-400">Pair: <span className="text-white">{PAIRS.find(p => p.slug === delivery.pair)?.displayName || delivery.pair}</span></p>
+                )}
+                {delivery.message && <p className="text-gray-300">{delivery.message}</p>}
+                {delivery.error && <p className="text-red-300">{delivery.error}</p>}
+              </div>
+            )}
+          </section>
+
+          <SectionBoundary name="Notification Channels">
+            <NotificationChannels />
+          </SectionBoundary>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import SectionBoundary from '@/components/SectionBoundary';
+import SnapshotDiff from '@/components/SnapshotDiff';
+import { ACCENT_CLASSES, PAIRS, getPair, proTraderPath } from '@/lib/pairs';
+import { ArchivedSetup, MAX_SNAPSHOTS, clearSnapshots, listSnapshots } from '@/lib/snapshots';
+import { toast } from '@/lib/toast';
+import type { TraderSide } from '@/lib/types';
+
+function Snapshots() {
+  const searchParams = useSearchParams();
+  const [pairSlug, setPairSlug] = useState<string>(getPair(searchParams.get('pair') || '')?.slug ?? PAIRS[0].slug);
+  const [side, setSide] = useState<TraderSide>('bullish');
+  const [snapshots, setSnapshots] = useState<ArchivedSetup[]>([]);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const pair = getPair(pairSlug)!;
+
+  const loadSnapshots = async () => {
+    try {
+      const list = await listSnapshots(pairSlug, side);
+      setSnapshots(list);
+      // Newest change against the one before it
+      setToId(list[0]?.id ?? '');
+      setFromId(list[1]?.id ?? '');
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open snapshot storage');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearPair = async () => {
+    if (!confirm(`Delete every ${pair.displayName} snapshot?`)) return;
+    try {
+      await clearSnapshots(pairSlug);
+    } catch (err) {
+      toast.error('Could not clear the snapshots', err);
+    }
+    await loadSnapshots();
+  };
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [pairSlug, side]);
+
+  const before = snapshots.find(s => s.id === fromId);
+  const after = snapshots.find(s => s.id === toId);
+
+  return (
+    <main className="min-h-screen p-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <header className="text-center mb-6 pb-6 border-b border-gray-700">
+        <Link href={proTraderPath(pair)} className="text-purple-400 hover:text-purple-300 inline-block mb-4">
+          ← Back to {pair.displayName}
+        </Link>
+        <div className="flex items-center justify-center mb-3">
+          <span className="text-4xl mr-3">🗂️</span>
+          <h1 className="text-4xl font-bold text-purple-400">Analysis Snapshots</h1>
+        </div>
+        <p className="text-gray-400">Every change to a setup the Pro Trader page has seen - pick two to compare</p>
+        <p className="text-gray-500 text-sm mt-2">
+          Recorded while a pair&apos;s Pro Trader page is open • last {MAX_SNAPSHOTS} per pair and side
+        </p>
+      </header>
+
+      {/* Pair and Side */}
+      <div className="flex flex-wrap justify-center gap-2 mb-6">
+        {PAIRS.map(p => (
+          <button
+            key={p.slug}
+            onClick={() => setPairSlug(p.slug)}
+            className={`px-4 py-2 rounded-lg text-sm font-bold ${
+              pairSlug === p.slug ? `${ACCENT_CLASSES[p.accent].badge} text-white` : 'bg-gray-800 text-gray-400 hover:text-white'
+            }`}
+          >
+            {p.displayName}
+          </button>
+        ))}
+        <span className="w-4" />
+        {(['bullish', 'bearish'] as const).map(s => (
+          <button
+            key={s}
+            onClick={() => setSide(s)}
+            aria-pressed={side === s}
+            className={`px-4 py-2 rounded-lg text-sm font-bold ${
+              side === s ? (s === 'bullish' ? 'bg-green-600 text-white' : 'bg-red-600 text-white') : 'bg-gray-800 text-gray-400 hover:text-white'
+            }`}
+          >
+            {s === 'bullish' ? '📈 Bullish' : '📉 Bearish'}
+          </button>
+        ))}
+      </div>
+
+      {loading && <p className="text-center text-gray-400">Loading snapshots...</p>}
+
+      {error && (
+        <div className="bg-red-900 border border-red-500 rounded-xl p-6 mb-6">
+          <p className="text-red-300">⚠️ {error}</p>
+        </div>
+      )}
+
+      {!loading && !error && snapshots.length < 2 && (
+        <div className="bg-gray-900 border border-gray-700 rounded-xl p-6 mb-6 text-center">
+          <p className="text-gray-300">{snapshots.length === 0 ? 'No snapshots yet.' : 'Only one snapshot so far - nothing to compare.'}</p>
+          <p className="text-gray-500 text-sm mt-2">Keep the {pair.displayName} Pro Trader page open; each change to the setup is saved here.</p>
+        </div>
+      )}
+
+      {before && after && (
+        <SectionBoundary name="Snapshot diff">
+          <SnapshotDiff pair={pair} before={before} after={after} />
+        </SectionBoundary>
+      )}
+
+      {/* Snapshot List */}
+      {snapshots.length > 0 && (
+        <section className="bg-gray-900 border border-gray-700 rounded-xl p-6 overflow-x-auto">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold text-white">🕒 SNAPSHOTS</h2>
+            <button onClick={clearPair} className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm">
+              Clear {pair.displayName} snapshots
+            </button>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="py-2">From</th>
+                <th>To</th>
+                <th>Time</th>
+                <th>Status</th>
+                <th>Pattern</th>
+                <th className="text-right">Score</th>
+                <th className="text-right">Confluences</th>
+              </tr>
+            </thead>
+            <tbody>
+              {snapshots.map(s => {
+                const time = new Date(s.time).toLocaleString();
+                return (
+                  <tr key={s.id} className={`border-t border-gray-800 text-gray-200 ${s.id === fromId || s.id === toId ? 'bg-gray-800' : ''}`}>
+                    <td className="py-2">
+                      <input type="radio" name="from" aria-label={`Compare from ${time}`} checked={s.id === fromId} onChange={() => setFromId(s.id)} />
+                    </td>
+                    <td>
+                      <input type="radio" name="to" aria-label={`Compare to ${time}`} checked={s.id === toId} onChange={() => setToId(s.id)} />
+                    </td>
+                    <td className="text-gray-400">{time}</td>
+                    <td>{s.setup.setup_status}</td>
+                    <td>{s.setup.pattern_type ?? ''}</td>
+                    <td className="text-right">{s.setup.total_score ?? 0}</td>
+                    <td className="text-right">{s.setup.confluences.length}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </main>
+  );
+}
+
+export default function SnapshotsPage() {
+  return (
+    <Suspense>
+      <Snapshots />
+    </Suspense>
+  );
+}
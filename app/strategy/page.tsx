@@ -0,0 +1,176 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import * as api from '@/lib/api';
+import { displayName, useSession } from '@/lib/auth';
+import {
+  CONFLUENCE_TYPES,
+  DEFAULT_STRATEGY_SETTINGS,
+  StrategySettings,
+  confluenceWeight,
+  saveStrategySettings,
+  strategyScoring,
+  useStrategySettings,
+  validateStrategy
+} from '@/lib/strategy';
+import { toast } from '@/lib/toast';
+
+type Threshold = 'minScore' | 'goodScore' | 'strongScore' | 'maxScore' | 'alertScore';
+
+const THRESHOLDS: { key: Threshold; label: string; hint: string }[] = [
+  { key: 'minScore', label: 'Setup (⭐)', hint: 'Minimum to enter - SETUP / READY on the scanner' },
+  { key: 'goodScore', label: 'Good (⭐⭐)', hint: 'Green on the scanner' },
+  { key: 'strongScore', label: 'Strong (⭐⭐⭐)', hint: 'Top tier on the Pro Trader pages' },
+  { key: 'maxScore', label: 'Full bar', hint: 'Score that fills the confluence progress bar' },
+  { key: 'alertScore', label: 'Alert at', hint: 'Default for new browser alert and Telegram rules' }
+];
+
+export default function StrategyPage() {
+  const session = useSession();
+  const strategy = useStrategySettings();
+  const [draft, setDraft] = useState<StrategySettings>(DEFAULT_STRATEGY_SETTINGS);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved settings once they are read (and again when another tab saves)
+  useEffect(() => {
+    setDraft(strategy);
+  }, [strategy]);
+
+  const update = (changes: Partial<StrategySettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const setWeight = (type: string, weight: number) =>
+    setDraft(prev => ({ ...prev, weights: { ...prev.weights, [type]: weight } }));
+
+  // Where the backend scores, what it holds must change first: the new weights when backend scoring
+  // stays or turns on, all 1 when it turns off (or the browser would apply the weights a second time)
+  const pushToBackend = async (settings: StrategySettings) => {
+    const result = await api.saveStrategyScoring(strategyScoring(settings));
+    if (!result.success) throw new Error(result.error || result.message || 'The backend refused the settings');
+    return result;
+  };
+
+  const save = async () => {
+    const problems = validateStrategy(draft);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setSaving(true);
+    try {
+      if (draft.backendScoring) {
+        const result = await pushToBackend(draft);
+        saveStrategySettings(draft);
+        toast.success('Strategy saved and pushed to the backend', result.message);
+      } else {
+        if (strategy.backendScoring) await pushToBackend({ ...draft, weights: {} });
+        saveStrategySettings(draft);
+        toast.success('Strategy saved', 'Every page now scores setups with these settings');
+      }
+    } catch (err) {
+      toast.error('Strategy not saved - the backend did not take it', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const reset = () => {
+    setDraft({ ...DEFAULT_STRATEGY_SETTINGS, backendScoring: draft.backendScoring });
+    setErrors([]);
+  };
+
+  return (
+    <main className="min-h-screen p-6 max-w-4xl mx-auto">
+      {/* Header */}
+      <header className="text-center mb-6 pb-6 border-b border-gray-700">
+        <Link href="/" className="text-purple-400 hover:text-purple-300 inline-block mb-4">
+          ← Back to Dashboard
+        </Link>
+        <div className="flex items-center justify-center mb-3">
+          <span className="text-4xl mr-3">🎛️</span>
+          <h1 className="text-4xl font-bold text-purple-400">Strategy</h1>
+        </div>
+        <p className="text-gray-400">Score thresholds and confluence weights used by every page</p>
+        <p className="text-gray-500 text-sm mt-2">
+          {session ? `Saved for ${displayName(session.user)}` : 'Saved in this browser'}
+        </p>
+      </header>
+
+      {/* Thresholds */}
+      <section className="bg-gray-900 border border-purple-600 rounded-xl p-6 mb-6">
+        <h2 className="text-2xl font-bold text-white mb-4">🎯 THRESHOLDS</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {THRESHOLDS.map(t => (
+            <div key={t.key}>
+              <label htmlFor={t.key} className="text-white text-sm font-bold">{t.label}</label>
+              <input
+                id={t.key}
+                type="number"
+                value={Number.isNaN(draft[t.key]) ? '' : draft[t.key]}
+                onChange={(e) => update({ [t.key]: parseInt(e.target.value) })}
+                className="w-full bg-gray-800 text-white p-2 rounded"
+                min="1"
+                step="1"
+              />
+              <p className="text-gray-500 text-xs mt-1">{t.hint}</p>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* Weights */}
+      <section className="bg-gray-900 border border-purple-600 rounded-xl p-6 mb-6">
+        <h2 className="text-2xl font-bold text-white mb-2">🧩 CONFLUENCE WEIGHTS</h2>
+        <p className="text-gray-400 text-sm mb-4">
+          Multiplies the points the backend gives each confluence - 1 keeps them, 0 ignores the confluence.
+        </p>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {CONFLUENCE_TYPES.map(type => (
+            <div key={type}>
+              <label htmlFor={`weight-${type}`} className="text-gray-400 text-sm">{type.replace(/_/g, ' ')}</label>
+              <input
+                id={`weight-${type}`}
+                type="number"
+                value={Number.isNaN(confluenceWeight(draft, type)) ? '' : confluenceWeight(draft, type)}
+                onChange={(e) => setWeight(type, parseFloat(e.target.value))}
+                className="w-full bg-gray-800 text-white p-2 rounded"
+                min="0"
+                step="0.25"
+              />
+            </div>
+          ))}
+        </div>
+        <label className="flex items-center gap-3 text-white mt-6">
+          <input
+            type="checkbox"
+            checked={draft.backendScoring}
+            onChange={(e) => update({ backendScoring: e.target.checked })}
+            className="w-5 h-5"
+          />
+          <span className="font-bold">Backend scoring</span>
+          <span className="text-gray-400 text-sm">- push the settings on save and show the backend&apos;s scores as sent</span>
+        </label>
+      </section>
+
+      {errors.map(message => (
+        <p key={message} role="alert" className="text-red-300 text-sm mb-2">❌ {message}</p>
+      ))}
+
+      <div className="flex gap-3">
+        <button
+          onClick={reset}
+          className="flex-1 bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg font-bold"
+        >
+          ↺ Defaults
+        </button>
+        <button
+          onClick={save}
+          disabled={saving}
+          className="flex-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-bold"
+        >
+          💾 Save
+        </button>
+      </div>
+    </main>
+  );
+}
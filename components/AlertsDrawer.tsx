@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  ALERTS_CHANGED_EVENT,
+  AlertRule,
+  AlertSettings,
+  FiredAlert,
+  clearAlertHistory,
+  listAlertHistory,
+  loadAlertSettings,
+  notificationPermission,
+  requestNotificationPermission,
+  saveAlertSettings
+} from '@/lib/alerts';
+import { PAIRS } from '@/lib/pairs';
+import { scoreOptions, useStrategySettings } from '@/lib/strategy';
+import type { TraderSide } from '@/lib/types';
+
+const SIDES: { side: TraderSide; label: string; className: string }[] = [
+  { side: 'bullish', label: 'Buy', className: 'text-blue-300' },
+  { side: 'bearish', label: 'Sell', className: 'text-red-300' }
+];
+
+// Bell button + slide-in drawer with alert rules and the history of alerts fired
+export default function AlertsDrawer() {
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<AlertSettings | null>(null);
+  const [history, setHistory] = useState<FiredAlert[]>([]);
+  const [permission, setPermission] = useState<string>('default');
+  const strategy = useStrategySettings();
+
+  useEffect(() => {
+    setSettings(loadAlertSettings());
+    setPermission(notificationPermission());
+    const refresh = () => setHistory(listAlertHistory());
+    refresh();
+    window.addEventListener(ALERTS_CHANGED_EVENT, refresh);
+    window.addEventListener('storage', refresh);
+    return () => {
+      window.removeEventListener(ALERTS_CHANGED_EVENT, refresh);
+      window.removeEventListener('storage', refresh);
+    };
+  }, []);
+
+  const update = (changes: Partial<AlertSettings>) => {
+    if (!settings) return;
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    saveAlertSettings(updated);
+  };
+
+  const updateRule = (slug: string, side: TraderSide, changes: Partial<AlertRule>) => {
+    if (!settings) return;
+    update({
+      rules: {
+        ...settings.rules,
+        [slug]: { ...settings.rules[slug], [side]: { ...settings.rules[slug][side], ...changes } }
+      }
+    });
+  };
+
+  const toggleNotifications = async (enabled: boolean) => {
+    if (enabled && notificationPermission() === 'default') {
+      setPermission(await requestNotificationPermission());
+    }
+    update({ notifications: enabled });
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="text-gray-400 hover:text-white transition-colors"
+        title="Setup alerts"
+      >
+        🔔 Alerts{history.length > 0 && <span className="ml-1 text-xs text-yellow-400">({history.length})</span>}
+      </button>
+
+      {open && settings && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={() => setOpen(false)}>
+          <aside
+            className="absolute right-0 top-0 h-full w-full max-w-md bg-gray-900 border-l border-purple-500 p-6 overflow-y-auto text-left"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-bold text-white">🔔 Setup Alerts</h2>
+              <button onClick={() => setOpen(false)} className="text-gray-400 hover:text-white text-xl">✕</button>
+            </div>
+
+            {/* Delivery */}
+            <div className="space-y-2 mb-6 text-sm">
+              <label className="flex items-center gap-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={settings.notifications}
+                  onChange={(e) => toggleNotifications(e.target.checked)}
+                />
+                Browser notifications
+                {settings.notifications && permission !== 'granted' && (
+                  <span className="text-yellow-400 text-xs">
+                    ({permission === 'unsupported' ? 'not supported in this browser' : `permission ${permission}`})
+                  </span>
+                )}
+              </label>
+              <label className="flex items-center gap-2 text-gray-300">
+                <input type="checkbox" checked={settings.sound} onChange={(e) => update({ sound: e.target.checked })} />
+                Sound
+              </label>
+              <label className="flex items-center gap-2 text-gray-300">
+                At most one alert per pair/direction every
+                <input
+                  type="number"
+                  value={settings.cooldownMinutes}
+                  onChange={(e) => update({ cooldownMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-16 bg-gray-800 text-white p-1 rounded"
+                  min="0"
+                />
+                min
+              </label>
+            </div>
+
+            {/* Rules */}
+            <h3 className="text-lg font-bold text-white mb-2">Rules</h3>
+            <table className="w-full text-sm mb-6">
+              <thead>
+                <tr className="text-gray-500 text-xs uppercase text-left">
+                  <th className="py-1">Pair</th>
+                  <th className="py-1">Side</th>
+                  <th className="py-1 text-center">On</th>
+                  <th className="py-1 text-center">READY</th>
+                  <th className="py-1">Score ≥</th>
+                </tr>
+              </thead>
+              <tbody>
+                {PAIRS.map(p => SIDES.map(({ side, label, className }) => {
+                  const rule = settings.rules[p.slug][side];
+                  return (
+                    <tr key={`${p.slug}-${side}`} className="border-t border-gray-800 text-gray-300">
+                      <td className="py-1 text-white">{side === 'bullish' ? p.displayName : ''}</td>
+                      <td className={`py-1 ${className}`}>{label}</td>
+                      <td className="py-1 text-center">
+                        <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(p.slug, side, { enabled: e.target.checked })} />
+                      </td>
+                      <td className="py-1 text-center">
+                        <input
+                          type="checkbox"
+                          checked={rule.onReady}
+                          disabled={!rule.enabled}
+                          onChange={(e) => updateRule(p.slug, side, { onReady: e.target.checked })}
+                        />
+                      </td>
+                      <td className="py-1">
+                        <select
+                          value={rule.minScore ?? ''}
+                          disabled={!rule.enabled}
+                          onChange={(e) => updateRule(p.slug, side, { minScore: e.target.value ? parseInt(e.target.value) : null })}
+                          className="bg-gray-800 text-white p-1 rounded"
+                        >
+                          <option value="">Off</option>
+                          {scoreOptions(strategy, rule.minScore).map(score => <option key={score} value={score}>{score}</option>)}
+                        </select>
+                      </td>
+                    </tr>
+                  );
+                }))}
+              </tbody>
+            </table>
+
+            {/* History */}
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-bold text-white">History</h3>
+              {history.length > 0 && (
+                <button onClick={clearAlertHistory} className="text-xs text-gray-400 hover:text-white">Clear</button>
+              )}
+            </div>
+            {history.length === 0 ? (
+              <p className="text-gray-500 text-sm">No alerts fired yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {history.map(alert => (
+                  <li key={alert.id} className="bg-gray-800 rounded-lg p-3">
+                    <p className="text-white text-sm font-bold">{alert.title}</p>
+                    <p className="text-gray-400 text-xs">{alert.body}</p>
+                    <p className="text-gray-500 text-xs">{new Date(alert.time).toLocaleString()}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </aside>
+        </div>
+      )}
+    </>
+  );
+}
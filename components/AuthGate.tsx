@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import * as api from '@/lib/api';
+import { displayName, setSession, useSession } from '@/lib/auth';
+import EnvironmentBadge from '@/components/EnvironmentBadge';
+
+// Sends signed-out visitors to /login and shows who is signed in on every other page
+export default function AuthGate({ children }: { children: React.ReactNode }) {
+  const session = useSession();
+  const pathname = usePathname();
+  const router = useRouter();
+  const isLoginPage = pathname.startsWith('/login');
+
+  useEffect(() => {
+    if (session === null && !isLoginPage) {
+      router.replace(`/login?next=${encodeURIComponent(pathname)}`);
+    }
+  }, [session, isLoginPage, pathname]);
+
+  const signOut = async () => {
+    await api.logout().catch(err => console.error('Failed to end the backend session:', err));
+    setSession(null);
+  };
+
+  if (isLoginPage) {
+    return (
+      <>
+        <div className="max-w-7xl mx-auto px-6 pt-3 flex items-center text-sm">
+          <EnvironmentBadge />
+        </div>
+        {children}
+      </>
+    );
+  }
+
+  if (!session) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-400 text-xl">Checking sign-in...</p>
+      </main>
+    );
+  }
+
+  return (
+    <>
+      <div className="max-w-7xl mx-auto px-6 pt-3 flex items-center gap-3 text-sm">
+        <EnvironmentBadge />
+        <span className="flex-1" />
+        <span className="text-gray-400">👤 {displayName(session.user)}</span>
+        <button onClick={signOut} className="text-gray-500 hover:text-white transition-colors">Sign out</button>
+      </div>
+      {children}
+    </>
+  );
+}
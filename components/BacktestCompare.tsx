@@ -0,0 +1,109 @@
+'use client';
+
+import {
+  BacktestRun,
+  BacktestStats,
+  backtestStats,
+  confluenceContribution,
+  formatFactor,
+  formatR,
+  parameterDiff
+} from '@/lib/backtest';
+
+interface Props {
+  a: BacktestRun;
+  b: BacktestRun;
+}
+
+// Metric rows of the comparison; `better` says which way is an improvement
+const METRICS: { label: string; value: (s: BacktestStats) => number; format: (v: number) => string; digits: number; better: 1 | -1 }[] = [
+  { label: 'Trades', value: s => s.trades, format: v => `${v}`, digits: 0, better: 1 },
+  { label: 'Win Rate', value: s => s.winRate, format: v => `${v.toFixed(1)}%`, digits: 1, better: 1 },
+  { label: 'Average R', value: s => s.avgR, format: formatR, digits: 2, better: 1 },
+  { label: 'Total R', value: s => s.totalR, format: formatR, digits: 2, better: 1 },
+  { label: 'Profit Factor', value: s => s.profitFactor, format: formatFactor, digits: 2, better: 1 },
+  { label: 'Max Drawdown', value: s => s.maxDrawdownR, format: v => formatR(-v), digits: 2, better: -1 },
+  { label: 'Longest Losing Streak', value: s => s.longestLosingStreak, format: v => `${v}`, digits: 0, better: -1 }
+];
+
+const deltaTone = (delta: number, better: 1 | -1) =>
+  !isFinite(delta) || delta === 0 ? 'text-gray-400' : delta * better > 0 ? 'text-green-400' : 'text-red-400';
+
+// Two runs side by side: what was run differently, and how the results moved from A to B
+export default function BacktestCompare({ a, b }: Props) {
+  const statsA = backtestStats(a.trades);
+  const statsB = backtestStats(b.trades);
+  const parameters = parameterDiff(a, b);
+  const byTypeA = new Map(confluenceContribution(a.trades).map(c => [c.type, c]));
+  const byTypeB = new Map(confluenceContribution(b.trades).map(c => [c.type, c]));
+  const types = [...new Set([...byTypeA.keys(), ...byTypeB.keys()])].sort();
+
+  return (
+    <section className="bg-gray-900 border border-blue-600 rounded-xl p-6 mb-6 overflow-x-auto">
+      <h2 className="text-2xl font-bold text-white mb-4">⚖️ COMPARE</h2>
+      <table className="w-full text-sm mb-6">
+        <thead>
+          <tr className="text-gray-400 text-left">
+            <th className="py-2"></th>
+            <th className="text-right">A: {a.name}</th>
+            <th className="text-right">B: {b.name}</th>
+            <th className="text-right">B - A</th>
+          </tr>
+        </thead>
+        <tbody>
+          {METRICS.map(m => {
+            const delta = m.value(statsB) - m.value(statsA);
+            return (
+              <tr key={m.label} className="border-t border-gray-800 text-gray-200">
+                <td className="py-1 text-gray-400">{m.label}</td>
+                <td className="text-right">{m.format(m.value(statsA))}</td>
+                <td className="text-right">{m.format(m.value(statsB))}</td>
+                <td className={`text-right ${deltaTone(delta, m.better)}`}>
+                  {isFinite(delta) ? `${delta > 0 ? '+' : ''}${delta.toFixed(m.digits)}` : '—'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <h3 className="text-lg font-bold text-white mb-2">Parameters</h3>
+      {parameters.length === 0 ? (
+        <p className="text-gray-500 text-sm mb-6">Neither file lists parameters.</p>
+      ) : (
+        <table className="w-full text-sm mb-6">
+          <tbody>
+            {parameters.map(p => (
+              <tr key={p.key} className={`border-t border-gray-800 ${p.changed ? 'text-yellow-300 font-bold' : 'text-gray-400'}`}>
+                <td className="py-1">{p.key}</td>
+                <td className="text-right">{p.a === undefined ? '—' : String(p.a)}</td>
+                <td className="text-right">{p.b === undefined ? '—' : String(p.b)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {types.length > 0 && (
+        <>
+          <h3 className="text-lg font-bold text-white mb-2">Average R by Confluence Type</h3>
+          <table className="w-full text-sm">
+            <tbody>
+              {types.map(type => {
+                const ca = byTypeA.get(type);
+                const cb = byTypeB.get(type);
+                return (
+                  <tr key={type} className="border-t border-gray-800 text-gray-200">
+                    <td className="py-1 text-gray-400">{type.replace(/_/g, ' ')}</td>
+                    <td className="text-right">{ca ? `${formatR(ca.avgR)} (${ca.trades})` : '—'}</td>
+                    <td className="text-right">{cb ? `${formatR(cb.avgR)} (${cb.trades})` : '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import EquityCurve from '@/components/EquityCurve';
+import {
+  BacktestRun,
+  backtestStats,
+  confluenceContribution,
+  formatFactor,
+  formatR,
+  rDistribution,
+  rEquity
+} from '@/lib/backtest';
+import { PairConfig, formatPrice } from '@/lib/pairs';
+
+function StatCard({ label, value, tone = 'text-white' }: { label: string; value: string; tone?: string }) {
+  return (
+    <div className="bg-gray-800 rounded-lg p-3">
+      <p className="text-gray-400 text-xs">{label}</p>
+      <p className={`text-xl font-bold ${tone}`}>{value}</p>
+    </div>
+  );
+}
+
+// Underwater curve - how far below its running peak the equity was after each trade
+function DrawdownChart({ points, height = 100 }: { points: { drawdown: number }[]; height?: number }) {
+  const width = 800;
+  const values = [0, ...points.map(p => p.drawdown)];
+  const max = Math.max(...values) || 1;
+  const x = (i: number) => (i / Math.max(1, values.length - 1)) * width;
+  const area = `0,0 ${values.map((value, i) => `${x(i)},${(value / max) * height}`).join(' ')} ${width},0`;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }}>
+      <polygon points={area} fill="#ef444466" stroke="#ef4444" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
+
+// One imported backtest run: summary, equity and drawdown in R, R distribution, confluences and trades
+export default function BacktestReport({ pair, run }: { pair: PairConfig; run: BacktestRun }) {
+  const stats = backtestStats(run.trades);
+  const curve = rEquity(run.trades);
+  const distribution = rDistribution(run.trades);
+  const mostInBucket = Math.max(1, ...distribution.map(b => b.count));
+  const contributions = confluenceContribution(run.trades);
+
+  return (
+    <section className="bg-gray-900 border border-purple-600 rounded-xl p-6 mb-6 min-w-0">
+      <h2 className="text-2xl font-bold text-white">{run.name}</h2>
+      <p className="text-gray-400 text-sm mb-2">
+        {pair.displayName} • {run.strategy} • {run.file_name}
+      </p>
+      {Object.keys(run.parameters).length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {Object.entries(run.parameters).map(([key, value]) => (
+            <span key={key} className="bg-gray-800 text-gray-300 text-xs px-2 py-1 rounded">{key} = {String(value)}</span>
+          ))}
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        <StatCard label="Trades" value={`${stats.trades} (${stats.wins}W / ${stats.losses}L)`} />
+        <StatCard label="Win Rate" value={`${stats.winRate.toFixed(1)}%`} tone="text-yellow-400" />
+        <StatCard label="Average R" value={formatR(stats.avgR)} tone={stats.avgR >= 0 ? 'text-green-400' : 'text-red-400'} />
+        <StatCard label="Total R" value={formatR(stats.totalR)} tone={stats.totalR >= 0 ? 'text-green-400' : 'text-red-400'} />
+        <StatCard label="Profit Factor" value={formatFactor(stats.profitFactor)} />
+        <StatCard label="Max Drawdown" value={formatR(-stats.maxDrawdownR)} tone="text-red-400" />
+        <StatCard label="Longest Losing Streak" value={`${stats.longestLosingStreak}`} />
+        <StatCard label="Total P&L" value={stats.totalPnl === undefined ? '—' : `${stats.totalPnl < 0 ? '-' : ''}$${Math.abs(stats.totalPnl).toFixed(2)}`} />
+      </div>
+
+      {/* Equity and Drawdown */}
+      <h3 className="text-lg font-bold text-white mb-2">💰 Equity (R)</h3>
+      <EquityCurve points={curve} />
+      <h3 className="text-lg font-bold text-white mt-4 mb-2">📉 Drawdown (R)</h3>
+      <DrawdownChart points={curve} />
+
+      {/* R Distribution */}
+      <h3 className="text-lg font-bold text-white mt-6 mb-2">📊 Distribution of R</h3>
+      <div className="space-y-1 mb-6">
+        {distribution.map(bucket => (
+          <div key={bucket.label} className="flex items-center gap-2 text-sm">
+            <span className="w-24 text-gray-400 text-right">{bucket.label}</span>
+            <div className="flex-1 bg-gray-800 rounded h-4">
+              <div
+                className={`h-4 rounded ${bucket.loss ? 'bg-red-500' : 'bg-green-500'}`}
+                style={{ width: `${(bucket.count / mostInBucket) * 100}%` }}
+              />
+            </div>
+            <span className="w-8 text-gray-300">{bucket.count}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Confluence Contribution */}
+      <h3 className="text-lg font-bold text-white mb-2">🧩 By Confluence Type</h3>
+      {contributions.length === 0 ? (
+        <p className="text-gray-500 text-sm mb-6">The file lists no confluences per trade.</p>
+      ) : (
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-xs uppercase text-left">
+                <th className="py-1"></th>
+                <th className="py-1 text-right">Trades</th>
+                <th className="py-1 text-right">Win %</th>
+                <th className="py-1 text-right">Avg R</th>
+                <th className="py-1 text-right">Total R</th>
+                <th className="py-1 text-right" title="Average R of trades with this confluence minus trades without it">Edge</th>
+              </tr>
+            </thead>
+            <tbody>
+              {contributions.map(c => (
+                <tr key={c.type} className="border-t border-gray-800 text-gray-300">
+                  <td className="py-1 text-white">{c.type.replace(/_/g, ' ')}</td>
+                  <td className="py-1 text-right">{c.trades}</td>
+                  <td className="py-1 text-right">{c.winRate.toFixed(1)}%</td>
+                  <td className="py-1 text-right">{formatR(c.avgR)}</td>
+                  <td className={`py-1 text-right ${c.totalR >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatR(c.totalR)}</td>
+                  <td className={`py-1 text-right ${(c.edge ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>{c.edge === null ? '—' : formatR(c.edge)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Trade List */}
+      <h3 className="text-lg font-bold text-white mb-2">🧾 Trades</h3>
+      <div className="overflow-auto max-h-96">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-gray-900">
+            <tr className="text-gray-400 text-left">
+              <th className="py-2">Closed</th>
+              <th>Side</th>
+              <th className="text-right">Entry</th>
+              <th className="text-right">Exit</th>
+              <th className="text-right">R</th>
+              <th>Exit Reason</th>
+              <th>Confluences</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...run.trades].sort((a, b) => b.closed_at.localeCompare(a.closed_at)).map((trade, idx) => (
+              <tr key={idx} className="border-t border-gray-800 text-gray-200">
+                <td className="py-1 text-gray-400">{new Date(trade.closed_at).toLocaleString()}</td>
+                <td className={trade.direction === 'LONG' ? 'text-green-400' : 'text-red-400'}>{trade.direction}</td>
+                <td className="text-right">{formatPrice(pair, trade.entry_price)}</td>
+                <td className="text-right">{formatPrice(pair, trade.exit_price)}</td>
+                <td className={`text-right ${trade.r_multiple >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatR(trade.r_multiple)}</td>
+                <td className="text-gray-400">{trade.exit_reason ?? ''}</td>
+                <td className="text-gray-400 text-xs">{trade.confluences.join(', ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  DEFAULT_ENVIRONMENT,
+  ENVIRONMENTS,
+  ENVIRONMENT_SWITCHING,
+  EnvironmentName,
+  activeEnvironment,
+  environmentConfig,
+  readCookie,
+  switchEnvironment
+} from '@/lib/config';
+import { SCENARIO_COOKIE, mockScenario } from '@/lib/mock/scenarios';
+
+// Which backend the proxy is talking to; in development it doubles as a switcher
+export default function EnvironmentBadge() {
+  const [environment, setEnvironment] = useState<EnvironmentName>(DEFAULT_ENVIRONMENT);
+  const [scenario, setScenario] = useState<string | undefined>(undefined);
+
+  // The choice lives in a cookie - read after mount to match the server render
+  useEffect(() => {
+    setEnvironment(activeEnvironment(document.cookie));
+    setScenario(readCookie(document.cookie, SCENARIO_COOKIE));
+  }, []);
+
+  const change = (name: EnvironmentName) => {
+    switchEnvironment(name);
+    // Reload so every page, cache and the live stream start over against the new backend
+    window.location.reload();
+  };
+
+  const { label, badge } = environmentConfig(environment);
+  // Scenario picked with ?scenario= (lib/mock/scenarios.ts)
+  const scenarioLabel = environment === 'mock' && scenario ? ` · ${mockScenario(scenario).label}` : '';
+
+  if (!ENVIRONMENT_SWITCHING) {
+    return <span className={`px-2 py-0.5 rounded border text-xs font-bold ${badge}`}>{label}{scenarioLabel}</span>;
+  }
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-500" title="Development only - switches the backend the /api proxy uses">
+      <span className={`px-2 py-0.5 rounded border font-bold ${badge}`}>{label}{scenarioLabel}</span>
+      <select
+        value={environment}
+        onChange={(e) => change(e.target.value as EnvironmentName)}
+        className="bg-gray-800 text-white px-2 py-0.5 rounded border border-gray-700"
+      >
+        {ENVIRONMENTS.map(env => (
+          <option key={env.name} value={env.name}>
+            {env.label}{env.name === DEFAULT_ENVIRONMENT ? ' (build default)' : ''}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,28 @@
+interface EquityCurveProps {
+  points: { equity: number }[];
+  height?: number;
+}
+
+// Lightweight SVG line of cumulative P&L; the dashed line marks break-even
+export default function EquityCurve({ points, height = 200 }: EquityCurveProps) {
+  if (points.length === 0) {
+    return <p className="text-gray-500 text-sm text-center py-8">No closed trades yet.</p>;
+  }
+
+  const width = 800;
+  const values = [0, ...points.map(p => p.equity)];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const x = (i: number) => (i / (values.length - 1)) * width;
+  const y = (value: number) => height - ((value - min) / span) * height;
+  const line = values.map((value, i) => `${x(i)},${y(value)}`).join(' ');
+  const final = values[values.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }}>
+      <line x1={0} x2={width} y1={y(0)} y2={y(0)} stroke="#4b5563" strokeDasharray="4 4" />
+      <polyline points={line} fill="none" stroke={final >= 0 ? '#22c55e' : '#ef4444'} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useState } from 'react';
+import type { JournalEntry } from '@/lib/journal';
+import { PairConfig, formatPrice, priceStep } from '@/lib/pairs';
+import { errorMessage } from '@/lib/toast';
+import { EXIT_PORTIONS, EXIT_REASONS, exitPreview, exitSize } from '@/lib/trade';
+import type { ActiveTradeStatus, ExitTradeRequest, TradeActionResult, TradeDirection } from '@/lib/types';
+
+interface Props {
+  pair: PairConfig;
+  trade: ActiveTradeStatus;
+  direction: TradeDirection;
+  defaultPortion: number;          // percent of the open position
+  defaultReason: string;
+  journal?: JournalEntry;          // open trade in the journal: stop at entry and planned risk for the preview
+  paper?: boolean;                 // paper position - filled by the simulator, no fill price to enter
+  paperFill?: number;              // the simulator's fill at the live price, for the paper preview
+  onExit: (exit: ExitTradeRequest) => Promise<TradeActionResult>;
+  onClose: () => void;
+}
+
+const formatSigned = (value: number, digits: number) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const formatMoney = (value: number) => `${value < 0 ? '-' : '+'}$${Math.abs(value).toFixed(2)}`;
+
+// Exit part or all of the open position at the actual fill; the backend's answer is shown in place
+export default function ExitTradeDialog({ pair, trade, direction, defaultPortion, defaultReason, journal, paper, paperFill, onExit, onClose }: Props) {
+  const [portion, setPortion] = useState<number>(defaultPortion);
+  const [custom, setCustom] = useState(!EXIT_PORTIONS.includes(defaultPortion));
+  const [fillPrice, setFillPrice] = useState<number>(trade.current_price ?? trade.entry_price);
+  const [reason, setReason] = useState(defaultReason);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<TradeActionResult | null>(null);
+  const [error, setError] = useState('');
+
+  const size = exitSize(trade.position_size, portion);
+  const exitPrice = paper && paperFill !== undefined ? paperFill : fillPrice;
+  const invalid = isNaN(portion) || portion <= 0 || portion > 100
+    ? 'Choose between 1% and 100% of the open position'
+    : isNaN(exitPrice) || exitPrice <= 0 ? 'Enter the price you were filled at' : '';
+  const preview = invalid ? null : exitPreview(
+    pair,
+    direction,
+    { entry_price: trade.entry_price, stop_loss: journal?.stop_loss ?? trade.stop_loss },
+    exitPrice,
+    size,
+    journal?.risk_amount
+  );
+  const currency = journal?.account_currency || 'USD';
+
+  const submit = async () => {
+    setSubmitting(true);
+    setError('');
+    try {
+      const response = await onExit({ exit_price: exitPrice, position_size: size, reason });
+      if (response.success) setResult(response);
+      else setError(response.error || response.message || 'The backend refused the exit');
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+      <div role="dialog" aria-label="Exit Trade" className="bg-gray-900 border-2 border-red-500 rounded-xl p-6 max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-white">🔴 Exit Trade</h2>
+          <span className={`px-3 py-1 rounded-full text-sm font-bold ${direction === 'LONG' ? 'bg-green-600' : 'bg-red-600'} text-white`}>
+            {direction} {trade.position_size}%
+          </span>
+        </div>
+
+        {result ? (
+          <>
+            <div className="mb-6 p-4 bg-green-900 border border-green-500 rounded-lg">
+              <p className="text-green-200 font-bold">✅ {result.message || `Exited ${size}%`}</p>
+              {result.pnl !== undefined && (
+                <p className={`mt-1 font-bold ${result.pnl >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+                  Realized P&L: {formatMoney(result.pnl)}{result.pnl_pct !== undefined && ` (${formatSigned(result.pnl_pct, 2)}%)`}
+                </p>
+              )}
+            </div>
+            <button onClick={onClose} className="w-full bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg font-bold">
+              Done
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="space-y-3 mb-6">
+              <div>
+                <p className="text-gray-400 text-sm mb-1">Portion of Open Position</p>
+                <div className="grid grid-cols-5 gap-2">
+                  {EXIT_PORTIONS.map(p => (
+                    <button
+                      key={p}
+                      onClick={() => { setCustom(false); setPortion(p); }}
+                      aria-pressed={!custom && portion === p}
+                      className={`py-2 rounded text-sm font-bold ${!custom && portion === p ? 'bg-red-600 text-white' : 'bg-gray-800 text-gray-300 hover:text-white'}`}
+                    >
+                      {p}%
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => setCustom(true)}
+                    aria-pressed={custom}
+                    className={`py-2 rounded text-sm font-bold ${custom ? 'bg-red-600 text-white' : 'bg-gray-800 text-gray-300 hover:text-white'}`}
+                  >
+                    Custom
+                  </button>
+                </div>
+                {custom && (
+                  <input
+                    type="number"
+                    aria-label="Custom portion (%)"
+                    value={isNaN(portion) ? '' : portion}
+                    onChange={(e) => setPortion(parseFloat(e.target.value))}
+                    className="w-full bg-gray-800 text-white p-2 rounded mt-2"
+                    min="1"
+                    max="100"
+                    step="1"
+                  />
+                )}
+                <p className="text-gray-500 text-xs mt-1">
+                  = {size}% of the full position, {Math.round((trade.position_size - size) * 100) / 100}% stays open
+                </p>
+              </div>
+              {paper ? (
+                <p className="text-yellow-300 text-sm">
+                  📝 Paper exit - fills at the live {direction === 'LONG' ? 'bid' : 'ask'} with simulated slippage
+                  {paperFill !== undefined && ` (about ${formatPrice(pair, paperFill)} now)`}
+                </p>
+              ) : (
+                <div>
+                  <label htmlFor="exit-fill-price" className="text-gray-400 text-sm">Fill Price</label>
+                  <input
+                    id="exit-fill-price"
+                    type="number"
+                    value={isNaN(fillPrice) ? '' : fillPrice}
+                    onChange={(e) => setFillPrice(parseFloat(e.target.value))}
+                    className="w-full bg-gray-800 text-white p-2 rounded"
+                    step={priceStep(pair)}
+                  />
+                  {trade.current_price !== undefined && (
+                    <p className="text-gray-500 text-xs mt-1">Current price {formatPrice(pair, trade.current_price)}</p>
+                  )}
+                </div>
+              )}
+              <div>
+                <label htmlFor="exit-reason" className="text-gray-400 text-sm">Reason</label>
+                <select
+                  id="exit-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="w-full bg-gray-800 text-white p-2 rounded"
+                >
+                  {EXIT_REASONS.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+              </div>
+            </div>
+
+            {/* Realized P&L / R Preview */}
+            {invalid ? (
+              <div className="mb-6 p-3 bg-red-900 border border-red-500 rounded-lg">
+                <p className="text-red-200 text-sm">❌ {invalid}</p>
+              </div>
+            ) : preview && (
+              <div className="mb-6 p-3 bg-gray-800 rounded-lg grid grid-cols-3 gap-3 text-center">
+                <div>
+                  <p className="text-gray-400 text-xs">Move</p>
+                  <p className={`font-bold ${preview.pips >= 0 ? 'text-green-300' : 'text-red-300'}`}>{formatSigned(preview.pips, 1)} pips</p>
+                </div>
+                <div>
+                  <p className="text-gray-400 text-xs">R</p>
+                  <p className="text-white font-bold">{preview.r === null ? '—' : `${formatSigned(preview.r, 2)}R`}</p>
+                </div>
+                <div>
+                  <p className="text-gray-400 text-xs">Realized P&L</p>
+                  <p className={`font-bold ${(preview.pnl ?? 0) >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+                    {preview.pnl === null ? '—' : `${formatSigned(preview.pnl, 2)} ${currency}`}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {error && (
+              <div role="alert" className="mb-4 p-3 bg-red-900 border border-red-500 rounded-lg">
+                <p className="text-red-200 text-sm">❌ {error}</p>
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="flex-1 bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={submit}
+                disabled={!!invalid || submitting}
+                className="flex-1 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-bold"
+              >
+                {submitting ? 'Exiting...' : `Exit ${size}%`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
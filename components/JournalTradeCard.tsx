@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  JournalEntry,
+  JournalScreenshot,
+  averageEntry,
+  newId,
+  positionEntered,
+  positionExited,
+  realizedPnl,
+  rMultiple
+} from '@/lib/journal';
+import { PairConfig, formatPrice } from '@/lib/pairs';
+
+interface JournalTradeCardProps {
+  entry: JournalEntry;
+  pair: PairConfig;
+  onSave: (entry: JournalEntry) => void;
+  onDelete: (entry: JournalEntry) => void;
+}
+
+function ScreenshotThumb({ screenshot, onRemove }: { screenshot: JournalScreenshot; onRemove: () => void }) {
+  const [url, setUrl] = useState<string>('');
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(screenshot.image);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [screenshot.image]);
+
+  return (
+    <div className="relative group">
+      <a href={url} target="_blank" rel="noreferrer">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={url} alt={screenshot.name} className="w-32 h-20 object-cover rounded border border-gray-700" />
+      </a>
+      <button
+        onClick={onRemove}
+        className="absolute top-1 right-1 bg-black bg-opacity-70 text-red-400 text-xs px-1 rounded opacity-0 group-hover:opacity-100"
+        title="Remove screenshot"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
+
+export default function JournalTradeCard({ entry, pair, onSave, onDelete }: JournalTradeCardProps) {
+  const [notes, setNotes] = useState(entry.notes);
+
+  useEffect(() => setNotes(entry.notes), [entry.notes]);
+
+  const pnl = realizedPnl(entry);
+  const r = rMultiple(entry);
+  const isLong = entry.direction === 'LONG';
+
+  const addScreenshots = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const added: JournalScreenshot[] = Array.from(files).map(file => ({
+      id: newId(),
+      name: file.name,
+      image: file,
+      added_at: new Date().toISOString()
+    }));
+    onSave({ ...entry, screenshots: [...entry.screenshots, ...added] });
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-xl p-5 mb-4">
+      {/* Trade Header */}
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4 pb-3 border-b border-gray-800">
+        <div className="flex items-center gap-3">
+          <h3 className="text-lg font-bold text-white">{pair.displayName}</h3>
+          <span className={`px-2 py-0.5 rounded text-xs font-bold text-white ${isLong ? 'bg-green-600' : 'bg-red-600'}`}>
+            {isLong ? '📈 LONG' : '📉 SHORT'}
+          </span>
+          <span className={`px-2 py-0.5 rounded text-xs font-bold ${
+            entry.status === 'open' ? 'bg-yellow-500 text-black' : 'bg-gray-700 text-gray-300'
+          }`}>
+            {entry.status === 'open' ? 'OPEN' : 'CLOSED'}
+          </span>
+        </div>
+        <div className="text-right text-xs text-gray-400">
+          <p>Opened: {new Date(entry.opened_at).toLocaleString()}</p>
+          {entry.closed_at && <p>Closed: {new Date(entry.closed_at).toLocaleString()}</p>}
+        </div>
+      </div>
+
+      {/* Setup at Entry */}
+      <div className="flex flex-wrap gap-4 text-sm text-gray-300 mb-4">
+        <span>Pattern: <strong className="text-purple-400">{entry.pattern_type?.replace(/_/g, ' ') || '—'}</strong></span>
+        <span>Score at entry: <strong className="text-white">{entry.confluence_score ?? '—'}</strong></span>
+        {entry.confidence && <span>Confidence: <strong className="text-white">{entry.confidence}</strong></span>}
+        {entry.session && <span>Session: <strong className="text-white">{entry.session}</strong></span>}
+        {entry.risk_amount !== undefined && (
+          <span>Planned Risk: <strong className="text-white">{entry.risk_amount.toFixed(2)} {entry.account_currency}</strong></span>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+        <div className="bg-gray-800 p-3 rounded-lg">
+          <p className="text-gray-400 text-xs">Avg Entry</p>
+          <p className="text-white font-bold">{formatPrice(pair, averageEntry(entry))}</p>
+        </div>
+        <div className="bg-gray-800 p-3 rounded-lg">
+          <p className="text-gray-400 text-xs">Stop Loss</p>
+          <p className="text-red-300 font-bold">{formatPrice(pair, entry.stop_loss)}</p>
+        </div>
+        <div className="bg-gray-800 p-3 rounded-lg">
+          <p className="text-gray-400 text-xs">TP1 / TP2</p>
+          <p className="text-green-300 font-bold">
+            {formatPrice(pair, entry.take_profit_1)}{entry.take_profit_2 !== undefined && ` / ${formatPrice(pair, entry.take_profit_2)}`}
+          </p>
+        </div>
+        <div className="bg-gray-800 p-3 rounded-lg">
+          <p className="text-gray-400 text-xs">P&L</p>
+          <p className={`font-bold ${pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>${pnl.toFixed(2)}</p>
+        </div>
+        <div className="bg-gray-800 p-3 rounded-lg">
+          <p className="text-gray-400 text-xs">R Multiple</p>
+          <p className={`font-bold ${r === null ? 'text-gray-500' : r >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {r === null ? '—' : `${r >= 0 ? '+' : ''}${r.toFixed(2)}R`}
+          </p>
+        </div>
+      </div>
+
+      {/* Fills */}
+      <table className="w-full text-sm mb-4">
+        <thead>
+          <tr className="text-gray-500 text-xs uppercase text-left">
+            <th className="py-1">Time</th>
+            <th className="py-1">Fill</th>
+            <th className="py-1">Size</th>
+            <th className="py-1">Price</th>
+            <th className="py-1">Reason</th>
+            <th className="py-1 text-right">P&L</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entry.entries.map((fill, i) => (
+            <tr key={`entry-${i}`} className="border-t border-gray-800 text-gray-300">
+              <td className="py-1">{new Date(fill.time).toLocaleString()}</td>
+              <td className="py-1 text-blue-300">Entry</td>
+              <td className="py-1">{fill.position_size}%{fill.lots !== undefined && ` (${fill.lots} lots)`}</td>
+              <td className="py-1">{formatPrice(pair, fill.price)}</td>
+              <td className="py-1 text-gray-500">{i === 0 ? 'Initial entry' : 'Added to position'}</td>
+              <td className="py-1 text-right">—</td>
+            </tr>
+          ))}
+          {entry.exits.map((fill, i) => (
+            <tr key={`exit-${i}`} className="border-t border-gray-800 text-gray-300">
+              <td className="py-1">{new Date(fill.time).toLocaleString()}</td>
+              <td className="py-1 text-yellow-300">Exit</td>
+              <td className="py-1">{fill.position_size}%</td>
+              <td className="py-1">{formatPrice(pair, fill.price)}</td>
+              <td className="py-1">{fill.reason}</td>
+              <td className={`py-1 text-right ${(fill.pnl ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {fill.pnl !== undefined ? `$${fill.pnl.toFixed(2)}` : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {entry.status === 'open' && (
+        <p className="text-gray-500 text-xs mb-4">
+          {positionExited(entry)}% of {positionEntered(entry)}% exited
+        </p>
+      )}
+
+      {/* Notes */}
+      <div className="mb-4">
+        <label className="text-gray-400 text-sm block mb-1">Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={() => notes !== entry.notes && onSave({ ...entry, notes })}
+          rows={3}
+          placeholder="What did you see? What would you do differently?"
+          className="w-full bg-gray-800 text-white p-2 rounded-lg border border-gray-700 focus:border-purple-500 outline-none text-sm"
+        />
+      </div>
+
+      {/* Screenshots */}
+      <div className="mb-4">
+        <p className="text-gray-400 text-sm mb-2">Setup Screenshots</p>
+        <div className="flex flex-wrap gap-3 items-center">
+          {entry.screenshots.map(screenshot => (
+            <ScreenshotThumb
+              key={screenshot.id}
+              screenshot={screenshot}
+              onRemove={() => onSave({ ...entry, screenshots: entry.screenshots.filter(s => s.id !== screenshot.id) })}
+            />
+          ))}
+          <label className="w-32 h-20 flex items-center justify-center border border-dashed border-gray-600 rounded text-gray-400 text-xs cursor-pointer hover:border-purple-500 hover:text-white">
+            + Add image
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                addScreenshots(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="text-right">
+        <button onClick={() => onDelete(entry)} className="text-red-400 hover:text-red-300 text-sm">
+          🗑️ Delete trade
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import * as api from '@/lib/api';
+import {
+  CHANNEL_KINDS,
+  TEMPLATE_FIELDS,
+  TemplateValues,
+  channelKind,
+  missingFields,
+  newChannel,
+  renderTemplate,
+  templateValues
+} from '@/lib/channels';
+import { PAIRS } from '@/lib/pairs';
+import type { NotificationChannel, NotificationChannelKind } from '@/lib/types';
+
+// Preview values until a live setup has loaded (or when the backend is unreachable)
+const SAMPLE_VALUES: TemplateValues = {
+  pair: 'XAU/USD',
+  direction: 'BUY',
+  setup_status: 'READY',
+  pattern_type: 'LIQUIDITY GRAB',
+  total_score: '8',
+  confidence: 'HIGH',
+  entry: '$2650.00',
+  stop_loss: '$2640.00',
+  take_profit_1: '$2670.00',
+  take_profit_2: '$2690.00',
+  current_price: '$2651.30'
+};
+
+type Message = {type: 'success' | 'error', text: string};
+
+// Settings section: Discord / Slack / email / webhook channels with templates and a test button each
+export default function NotificationChannels() {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string>('');
+  const [message, setMessage] = useState<Message | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, Message>>({});
+  const [previewValues, setPreviewValues] = useState<TemplateValues>(SAMPLE_VALUES);
+
+  useEffect(() => {
+    api.fetchNotificationChannels()
+      .then(setChannels)
+      .catch(err => {
+        // 404 = nothing saved yet
+        if (!(err instanceof api.ApiError && err.status === 404)) {
+          setLoadError(err instanceof Error ? err.message : 'Network error');
+        }
+      })
+      .finally(() => setLoading(false));
+
+    // Preview templates with the first pair's live bullish setup
+    const pair = PAIRS[0];
+    api.fetchProTraderAnalysis(pair)
+      .then(analysis => setPreviewValues(templateValues(pair, 'bullish', analysis.bullish)))
+      .catch(() => {});
+  }, []);
+
+  const updateChannel = (id: string, changes: Partial<NotificationChannel>) =>
+    setChannels(prev => prev.map(c => (c.id === id ? { ...c, ...changes } : c)));
+
+  const updateConfig = (channel: NotificationChannel, key: string, value: string) =>
+    updateChannel(channel.id, { config: { ...channel.config, [key]: value } });
+
+  const addChannel = (kind: NotificationChannelKind) => setChannels(prev => [...prev, newChannel(kind)]);
+
+  const removeChannel = (id: string) => setChannels(prev => prev.filter(c => c.id !== id));
+
+  const saveChannels = async () => {
+    const incomplete = channels.find(c => c.enabled && missingFields(c).length > 0);
+    if (incomplete) {
+      setMessage({type: 'error', text: `${incomplete.name}: ${missingFields(incomplete).join(', ')} required`});
+      return;
+    }
+
+    try {
+      const result = await api.saveNotificationChannels(channels);
+      if (result.success) {
+        setMessage({type: 'success', text: 'Channels saved!'});
+        setChannels(await api.fetchNotificationChannels());
+      } else {
+        setMessage({type: 'error', text: result.error || 'Failed to save channels'});
+      }
+    } catch (err) {
+      setMessage({type: 'error', text: 'Error saving channels: ' + (err instanceof Error ? err.message : err)});
+    }
+  };
+
+  const testChannel = async (channel: NotificationChannel) => {
+    const missing = missingFields(channel);
+    if (missing.length > 0) {
+      setTestResults(prev => ({ ...prev, [channel.id]: {type: 'error', text: `${missing.join(', ')} required`} }));
+      return;
+    }
+
+    try {
+      const result = await api.testNotificationChannel(channel);
+      setTestResults(prev => ({
+        ...prev,
+        [channel.id]: result.success
+          ? {type: 'success', text: result.message || 'Test message sent'}
+          : {type: 'error', text: result.error || 'Failed to send test'}
+      }));
+    } catch (err) {
+      setTestResults(prev => ({ ...prev, [channel.id]: {type: 'error', text: err instanceof Error ? err.message : String(err)} }));
+    }
+  };
+
+  return (
+    <section className="bg-gray-900 border border-blue-500 rounded-xl p-6 mb-6">
+      <h2 className="text-2xl font-bold text-white mb-2">📡 OTHER CHANNELS</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        Channels receive the same alerts as the Telegram rules above. Templates can use{' '}
+        {TEMPLATE_FIELDS.map(f => `{{${f}}}`).join(' ')}.
+      </p>
+
+      {loading && <p className="text-gray-400 text-sm">Loading channels...</p>}
+
+      {loadError && (
+        <div className="mb-4 p-3 rounded-lg bg-red-900 border border-red-500 text-red-200">
+          ⚠️ Could not load saved channels: {loadError}
+        </div>
+      )}
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg ${
+          message.type === 'success' ? 'bg-green-900 border border-green-500 text-green-200' :
+          'bg-red-900 border border-red-500 text-red-200'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="space-y-4 mb-4">
+        {channels.map(channel => {
+          const kind = channelKind(channel.kind);
+          const test = testResults[channel.id];
+          return (
+            <div key={channel.id} className="bg-gray-800 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-xl">{kind.icon}</span>
+                  <input
+                    type="text"
+                    value={channel.name}
+                    onChange={(e) => updateChannel(channel.id, { name: e.target.value })}
+                    className="bg-gray-700 text-white p-1 rounded font-bold"
+                  />
+                </div>
+                <div className="flex items-center gap-3 text-sm">
+                  <label className="flex items-center gap-1 text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={channel.enabled}
+                      onChange={(e) => updateChannel(channel.id, { enabled: e.target.checked })}
+                    />
+                    Enabled
+                  </label>
+                  <button onClick={() => removeChannel(channel.id)} className="text-red-400 hover:text-red-300">✕</button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+                {kind.fields.map(field => (
+                  <div key={field.key}>
+                    <label className="text-gray-400 text-xs block mb-1">
+                      {field.label} {field.required && <span className="text-red-400">*</span>}
+                    </label>
+                    <input
+                      type={field.secret ? 'password' : field.type}
+                      value={channel.config[field.key] || ''}
+                      onChange={(e) => updateConfig(channel, field.key, e.target.value)}
+                      placeholder={field.secret && channel.secrets_set?.includes(field.key) ? 'Saved - leave blank to keep' : field.placeholder}
+                      className="w-full bg-gray-700 text-white p-2 rounded text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <label className="text-gray-400 text-xs block mb-1">Message Template</label>
+              <textarea
+                value={channel.template}
+                onChange={(e) => updateChannel(channel.id, { template: e.target.value })}
+                rows={4}
+                className="w-full bg-gray-700 text-white p-2 rounded text-sm font-mono mb-2"
+              />
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-gray-500 text-xs">Preview ({previewValues.pair} {previewValues.direction})</p>
+                <button
+                  onClick={() => updateChannel(channel.id, { template: kind.defaultTemplate })}
+                  className="text-xs text-gray-400 hover:text-white"
+                >
+                  Reset template
+                </button>
+              </div>
+              <pre className="bg-gray-900 text-gray-300 p-2 rounded text-xs whitespace-pre-wrap mb-3">
+                {renderTemplate(channel.template, previewValues)}
+              </pre>
+
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => testChannel(channel)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-1 rounded-lg text-sm font-bold"
+                >
+                  📤 Test
+                </button>
+                {test && (
+                  <span className={`text-sm ${test.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{test.text}</span>
+                )}
+                {!test && channel.last_delivery && (
+                  <span className={`text-xs ${channel.last_delivery.success ? 'text-gray-400' : 'text-red-400'}`}>
+                    Last delivery {channel.last_delivery.success ? 'succeeded' : 'failed'} {new Date(channel.last_delivery.sent_at).toLocaleString()}
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-3">
+        <select
+          value=""
+          onChange={(e) => e.target.value && addChannel(e.target.value as NotificationChannelKind)}
+          className="flex-1 bg-gray-800 text-white p-2 rounded-lg"
+        >
+          <option value="">+ Add channel...</option>
+          {CHANNEL_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.icon} {k.name}</option>)}
+        </select>
+        <button
+          onClick={saveChannels}
+          className="flex-1 bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg font-bold"
+        >
+          💾 Save Channels
+        </button>
+      </div>
+    </section>
+  );
+}
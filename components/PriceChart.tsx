@@ -0,0 +1,165 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  CandlestickSeries,
+  ColorType,
+  IChartApi,
+  IPriceLine,
+  ISeriesApi,
+  LineStyle,
+  UTCTimestamp,
+  createChart
+} from 'lightweight-charts';
+import * as api from '@/lib/api';
+import { LEVEL_COLORS, setupLevels } from '@/lib/chart';
+import { CANDLE_FIXTURES } from '@/lib/config';
+import { fixtureCandles } from '@/lib/fixtures/candles';
+import { PairConfig } from '@/lib/pairs';
+import type { ActiveTradeStatus, Candle, CandleTimeframe, TraderSetup } from '@/lib/types';
+
+const TIMEFRAMES: CandleTimeframe[] = ['H1', 'H4', 'D1'];
+
+interface PriceChartProps {
+  pair: PairConfig;
+  setup: TraderSetup;
+  trade?: ActiveTradeStatus | null;
+  end?: number;            // replay: only candles that opened before this time (unix seconds)
+}
+
+export default function PriceChart({ pair, setup, trade, end }: PriceChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const seriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
+  const priceLinesRef = useRef<IPriceLine[]>([]);
+  const lastCandleRef = useRef<Candle | null>(null);
+  const [timeframe, setTimeframe] = useState<CandleTimeframe>('H1');
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [error, setError] = useState<string>('');
+
+  const { current_price } = setup;
+  // Fixture candles end at the price the chart opened with - later ticks must not reload them
+  const fixturePriceRef = useRef(current_price);
+  fixturePriceRef.current = current_price;
+
+  // Create the chart once per pair
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const chart = createChart(containerRef.current, {
+      autoSize: true,
+      layout: { background: { type: ColorType.Solid, color: '#111827' }, textColor: '#9ca3af' },
+      grid: { vertLines: { color: '#1f2937' }, horzLines: { color: '#1f2937' } },
+      timeScale: { timeVisible: true, borderColor: '#374151' },
+      rightPriceScale: { borderColor: '#374151' }
+    });
+    seriesRef.current = chart.addSeries(CandlestickSeries, {
+      upColor: '#22c55e',
+      downColor: '#ef4444',
+      borderVisible: false,
+      wickUpColor: '#22c55e',
+      wickDownColor: '#ef4444',
+      priceFormat: { type: 'price', precision: pair.decimals, minMove: 1 / Math.pow(10, pair.decimals) }
+    });
+    chartRef.current = chart;
+
+    return () => {
+      chart.remove();
+      chartRef.current = null;
+      seriesRef.current = null;
+      priceLinesRef.current = [];
+    };
+  }, [pair]);
+
+  // Load candles for the selected timeframe
+  useEffect(() => {
+    if (CANDLE_FIXTURES) {
+      setCandles(fixtureCandles(pair, timeframe, fixturePriceRef.current).filter(c => end === undefined || c.time < end));
+      setError('');
+      return;
+    }
+
+    let cancelled = false;
+    api.fetchCandles(pair, timeframe, 200, end)
+      .then(data => {
+        if (cancelled) return;
+        setCandles(data.candles);
+        setError('');
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Network error');
+      });
+    return () => { cancelled = true; };
+  }, [pair, timeframe, end]);
+
+  useEffect(() => {
+    seriesRef.current?.setData(candles.map(c => ({ ...c, time: c.time as UTCTimestamp })));
+    chartRef.current?.timeScale().fitContent();
+    lastCandleRef.current = candles[candles.length - 1] ?? null;
+  }, [candles]);
+
+  // A live price tick moves the forming candle in place - no refetch, so zoom and scroll stay as the user left them
+  useEffect(() => {
+    const last = lastCandleRef.current;
+    if (!last || end !== undefined || !seriesRef.current) return;
+    const candle = { ...last, close: current_price, high: Math.max(last.high, current_price), low: Math.min(last.low, current_price) };
+    lastCandleRef.current = candle;
+    seriesRef.current.update({ ...candle, time: candle.time as UTCTimestamp });
+  }, [current_price, end]);
+
+  // Redraw overlay levels whenever the setup or trade changes
+  useEffect(() => {
+    const series = seriesRef.current;
+    if (!series) return;
+
+    priceLinesRef.current.forEach(line => series.removePriceLine(line));
+    priceLinesRef.current = setupLevels(setup, trade).map(level => series.createPriceLine({
+      price: level.price,
+      title: level.title,
+      color: LEVEL_COLORS[level.kind],
+      lineWidth: level.kind === 'live' || level.kind === 'zone' ? 1 : 2,
+      lineStyle: level.kind === 'live' ? LineStyle.Dotted : level.kind === 'zone' || level.kind === 'invalidation' ? LineStyle.Dashed : LineStyle.Solid,
+      axisLabelVisible: level.kind !== 'live'
+    }));
+  }, [setup, trade, candles]);
+
+  return (
+    <section className="bg-gray-900 border border-purple-500 rounded-xl p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-white">📉 PRICE CHART</h2>
+        <div className="flex gap-2">
+          {TIMEFRAMES.map(tf => (
+            <button
+              key={tf}
+              onClick={() => setTimeframe(tf)}
+              className={`px-3 py-1 rounded-lg text-sm font-bold ${
+                timeframe === tf ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+              }`}
+            >
+              {tf}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {CANDLE_FIXTURES && (
+        <p className="text-yellow-400 text-xs mb-2">⚠️ Fixture candles (NEXT_PUBLIC_CANDLE_FIXTURES) - not live market data</p>
+      )}
+      {error && (
+        <p className="text-red-400 text-sm mb-2">Failed to load candles: {error}</p>
+      )}
+
+      <div ref={containerRef} className="w-full h-[420px]" />
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 mt-3 text-xs text-gray-400">
+        <span><span style={{ color: LEVEL_COLORS.entry }}>━</span> Entry</span>
+        <span><span style={{ color: LEVEL_COLORS.stop }}>━</span> Stop Loss</span>
+        <span><span style={{ color: LEVEL_COLORS.target }}>━</span> TP1 / TP2</span>
+        <span><span style={{ color: LEVEL_COLORS.zone }}>┅</span> Confluence zones</span>
+        <span><span style={{ color: LEVEL_COLORS.live }}>┈</span> Live candle H/L/O</span>
+        <span><span style={{ color: LEVEL_COLORS.invalidation }}>┅</span> Invalidation</span>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,1354 @@
+/*
+ * PRO TRADER - Trading Dashboard (shared by every pair in lib/pairs.ts)
+ * =====================================================================
+ *
+ * DEPLOYMENT INFO:
+ * - Production Site: https://fx-trading-web-zcca.vercel.app/pro-trader/{slug}
+ * - Local Dev: http://localhost:3000/pro-trader/{slug}
+ * - Legacy URLs (/pro-trader-gold, /pro-trader-eurusd, /pro-trader-gbpusd) redirect here
+ * - Backend (Railway): https://web-production-8c5ca.up.railway.app (PRODUCTION_BACKEND_URL)
+ * - Backend Repo: https://github.com/Ohlluu/fx-trading-backend
+ *
+ * BACKEND API ENDPOINTS:
+ * - GET /api/pro-trader-{slug}/analysis - Returns bullish & bearish trader setups
+ * - GET /api/pro-trader-{slug}/trade-status - Returns current trade status
+ * - POST /api/pro-trader-{slug}/enter-trade - Enter a new trade position
+ * - POST /api/pro-trader-{slug}/exit-trade - Exit current trade position
+ * - POST /api/pro-trader-{slug}/modify-trade - Move the stop / targets, set or clear a trailing stop
+ * - GET /api/stream?pairs={slug} - Server-Sent Events: price, setup_status, trade_status
+ * - GET /api/pro-trader-{slug}/candles?timeframe=H1&limit=200 - OHLC candles for the chart
+ * - GET /api/pro-trader-{slug}/history?hours=48 - hourly analysis snapshots (replay page)
+ * - Telegram notification settings for all pairs live on /settings (app/settings/page.tsx)
+ *
+ * ENVIRONMENT VARIABLES:
+ * - NEXT_PUBLIC_APP_ENV - local | staging | production | mock; backend URLs per environment
+ *   are server-side (lib/config.ts) - the browser only talks to /api/..., proxied by
+ *   app/api/[...path]/route.ts
+ * - Local: localhost:8002; mock: recorded fixtures, no backend (lib/mock/backend.ts)
+ * - NEXT_PUBLIC_CANDLE_FIXTURES=true - Chart uses local fixture candles (lib/fixtures/candles.ts)
+ *
+ * DATA STRUCTURE FROM API:
+ * - Typed in lib/types.ts (ProTraderAnalysis, TraderSetup, TradeStatus)
+ * - Validated at runtime by lib/schema.ts - a renamed or missing field (setup_steps,
+ *   trade_plan, ...) shows "Backend contract changed" instead of a blank section
+ *
+ * FEATURES:
+ * - Dual trader system (bullish + bearish scanning simultaneously)
+ * - Confluence-based pattern detection (liquidity grabs, FVGs, order blocks, etc)
+ * - 50/50 split entry strategy (early entry + confirmation entry)
+ * - Real-time trade monitoring with P&L tracking (live stream, polling every 60s as fallback)
+ * - Step-by-step setup progression with "watching for" indicators
+ * - Multi-timeframe analysis (Daily, H4, H1)
+ * - Candlestick chart (H1/H4/D1) with entry/SL/TP, confluence zones and live candle overlays
+ * - Trade management alerts and position scaling
+ * - Exit dialog: partial % or custom, actual fill price, reason, P&L / R preview, result inline
+ * - Trade management: stop to break-even, trailing stop in pips or ATR multiples, TP1/TP2 edits
+ * - Paper mode (lib/paper.ts): entries, exits and edits are simulated against the live price instead
+ *   of sent to the backend; stops and targets fill on their own, fills are logged on /paper
+ * - Replay (/pro-trader/{slug}/replay, components/ReplayPlayer.tsx): the page renders a `replay`
+ *   snapshot instead of live data - no fetching, stream, alerts or trade actions
+ * - Position sizing from account balance / risk % in the Enter Trade modal (lib/sizing.ts)
+ * - Every entry/exit is recorded in the trade journal (/journal, lib/journal.ts)
+ * - Every fetched analysis that changed is archived (lib/snapshots.ts) and can be diffed on /snapshots
+ * - Trade calls are scoped to the signed-in user (lib/auth.ts); shows who holds the open position
+ * - Opt-in browser notifications / sound when a setup turns READY or crosses a score (lib/alerts.ts)
+ * - Scores, stars and the entry threshold follow the user's strategy settings (/strategy, lib/strategy.ts)
+ * - Degraded states: failed refreshes keep the last data under a stale banner, trade actions report
+ *   through toasts (lib/toast.ts), each section has its own error boundary
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import AlertsDrawer from '@/components/AlertsDrawer';
+import ExitTradeDialog from '@/components/ExitTradeDialog';
+import PriceChart from '@/components/PriceChart';
+import SectionBoundary from '@/components/SectionBoundary';
+import StaleDataBanner from '@/components/StaleDataBanner';
+import StreamStatusBadge from '@/components/StreamStatusBadge';
+import TradeManagement from '@/components/TradeManagement';
+import { observeSetup } from '@/lib/alerts';
+import * as api from '@/lib/api';
+import { displayName, useSession } from '@/lib/auth';
+import { JournalEntry, findOpenTrade, recordJournalEntry, recordJournalExit } from '@/lib/journal';
+import { PairConfig, formatPrice, priceStep, proTraderPath } from '@/lib/pairs';
+import {
+  enterPaperTrade,
+  exitPaperTrade,
+  marketFill,
+  modifyPaperTrade,
+  spreadPips,
+  updatePaperPrice,
+  usePaperSettings
+} from '@/lib/paper';
+import {
+  ACCOUNT_CURRENCIES,
+  AccountCurrency,
+  AccountSettings,
+  DEFAULT_ACCOUNT,
+  knownConversionRate,
+  loadAccountSettings,
+  positionSize,
+  saveAccountSettings,
+  scaledLots
+} from '@/lib/sizing';
+import { archiveAnalysis } from '@/lib/snapshots';
+import { ScoreTier, TIER_STARS, confluenceWeight, scoreTier, setupScore, useStrategySettings } from '@/lib/strategy';
+import { useLiveStream } from '@/lib/stream';
+import { errorMessage, toast } from '@/lib/toast';
+import {
+  describeTrail,
+  directionFor,
+  fallbackTargets,
+  parsePrice,
+  riskReward,
+  stopIsProtected,
+  validateTradeLevels
+} from '@/lib/trade';
+import type {
+  ActiveTradeStatus,
+  EnterTradeRequest,
+  ExitTradeRequest,
+  ModifyTradeRequest,
+  PriceTick,
+  TradeActionResult,
+  AnalysisSnapshot,
+  TradeStatus,
+  TraderSetup,
+  TraderSide
+} from '@/lib/types';
+
+// An archive that failed once (storage full, blocked) fails on every fetch - log it once per page load
+let archiveFailureLogged = false;
+const logArchiveFailure = (err: unknown) => {
+  if (archiveFailureLogged) return;
+  archiveFailureLogged = true;
+  console.error('Failed to archive the analysis:', err);
+};
+
+// Colors of the confluence score by strategy tier (lib/strategy.ts)
+const TIER_TEXT: Record<ScoreTier, string> = {
+  strong: 'text-yellow-400',
+  good: 'text-blue-400',
+  setup: 'text-green-400',
+  weak: 'text-gray-400'
+};
+
+const TIER_BAR: Record<ScoreTier, string> = {
+  strong: 'bg-gradient-to-r from-yellow-500 to-yellow-400',
+  good: 'bg-gradient-to-r from-blue-500 to-blue-400',
+  setup: 'bg-gradient-to-r from-green-500 to-green-400',
+  weak: 'bg-gray-600'
+};
+
+interface Props {
+  pair: PairConfig;
+  replay?: AnalysisSnapshot;   // render this snapshot read-only instead of the live analysis
+}
+
+export default function ProTraderDashboard({ pair, replay }: Props) {
+  const [setupData, setSetupData] = useState<TraderSetup | null>(null);
+  const [bullishData, setBullishData] = useState<TraderSetup | null>(null);
+  const [bearishData, setBearishData] = useState<TraderSetup | null>(null);
+  const [selectedTrader, setSelectedTrader] = useState<TraderSide>('bullish'); // Track which trader is selected
+  const [backendTradeStatus, setTradeStatus] = useState<TradeStatus | null>(null);
+  const [paperStatus, setPaperStatus] = useState<TradeStatus | null>(null);
+  const [paperSettings, updatePaperSettings] = usePaperSettings();
+  const strategy = useStrategySettings();
+  const [loading, setLoading] = useState(true);
+  const session = useSession();
+  const [error, setError] = useState<string>('');
+  const [lastLoaded, setLastLoaded] = useState<string | undefined>(undefined); // time of the analysis on screen
+  const [tradeStatusError, setTradeStatusError] = useState<string>('');
+  const [tradeStatusLoaded, setTradeStatusLoaded] = useState<string | undefined>(undefined);
+  const [showEnterTradeModal, setShowEnterTradeModal] = useState(false);
+  const [entryFormData, setEntryFormData] = useState<EnterTradeRequest | null>(null);
+  const [account, setAccount] = useState<AccountSettings>(DEFAULT_ACCOUNT);
+  const [manualRate, setManualRate] = useState<number>(NaN); // quote->account rate when it can't be derived
+  const [exitDialog, setExitDialog] = useState<{ trade: ActiveTradeStatus; portion: number; reason: string } | null>(null);
+  const [exitJournal, setExitJournal] = useState<JournalEntry | undefined>(undefined);
+
+  // In paper mode the page shows the simulated position, checked against every price it sees
+  const paper = paperSettings.enabled;
+  const livePrice = bullishData?.current_price ?? bearishData?.current_price;
+  const tradeStatus = paper ? paperStatus : backendTradeStatus;
+  const exitDirection = exitDialog?.trade.trade_direction ?? directionFor(selectedTrader);
+
+  const fetchSetup = async () => {
+    try {
+      const data = await api.fetchProTraderAnalysis(pair);
+      // New API returns bullish and bearish
+      setBullishData(data.bullish);
+      setBearishData(data.bearish);
+      // Don't set setupData here - let the click handlers and useEffect handle it
+      archiveAnalysis(pair, data).catch(logArchiveFailure);
+      setLastLoaded(new Date().toISOString());
+      setError('');
+    } catch (err) {
+      // The last good analysis stays on screen under a stale-data banner
+      setError(errorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTradeStatus = async () => {
+    try {
+      setTradeStatus(await api.fetchTradeStatus(pair));
+      setTradeStatusLoaded(new Date().toISOString());
+      setTradeStatusError('');
+    } catch (err) {
+      setTradeStatusError(errorMessage(err));
+    }
+  };
+
+  const refreshPaper = async () => {
+    if (livePrice === undefined) return;
+    try {
+      const { status, fills } = await updatePaperPrice(pair, livePrice, paperSettings);
+      setPaperStatus(status);
+      fills.forEach(fill => toast.info(
+        `Paper ${fill.reason}: closed ${fill.position_size}%`,
+        `Filled at ${formatPrice(pair, fill.price)} (${fill.pips !== undefined && fill.pips >= 0 ? '+' : ''}${fill.pips} pips)`
+      ));
+    } catch (err) {
+      toast.error('Paper trading unavailable', err);
+    }
+  };
+
+  const refresh = () => {
+    fetchSetup();
+    fetchTradeStatus();
+  };
+
+  const enterTrade = async (entryData: EnterTradeRequest) => {
+    try {
+      // Paper trades stay out of the journal - they are logged on /paper
+      if (paper && livePrice === undefined) throw new Error('No live price to fill the paper trade at');
+      const result = paper
+        ? await enterPaperTrade(pair, entryData, livePrice!, paperSettings)
+        : await api.enterTrade(pair, entryData);
+      if (result.success) {
+        setShowEnterTradeModal(false);
+        toast.success(`${paper ? 'Paper ' : ''}${entryData.trade_direction} ${entryData.position_size}% entered`, result.message);
+        if (paper) {
+          await refreshPaper();
+          return;
+        }
+        // The journal keeps the score the entry was taken on, as the strategy weighed it
+        await recordJournalEntry(pair.slug, entryData, setupData && { ...setupData, total_score: setupScore(setupData, strategy) })
+          .catch(err => toast.error('Trade entered but not saved to the journal', err));
+        await fetchTradeStatus();
+      } else {
+        toast.error('Failed to enter trade', result.error || result.message || 'The backend refused the entry');
+      }
+    } catch (err) {
+      toast.error('Failed to enter trade', err);
+    }
+  };
+
+  const updateAccount = (changes: Partial<AccountSettings>) => {
+    const updated = { ...account, ...changes };
+    setAccount(updated);
+    saveAccountSettings(updated);
+  };
+
+  // Called by the Exit dialog, which shows the result (or the error thrown) in place
+  const exitTrade = async (exit: ExitTradeRequest): Promise<TradeActionResult> => {
+    if (paper) {
+      if (livePrice === undefined) throw new Error('No live price to fill the paper exit at');
+      const result = await exitPaperTrade(pair, exit, livePrice, paperSettings);
+      if (result.success) await refreshPaper();
+      return result;
+    }
+    const result = await api.exitTrade(pair, exit);
+    if (result.success) {
+      await recordJournalExit(pair.slug, exit, result)
+        .catch(err => toast.error('Exit done but not saved to the journal', err));
+      await fetchTradeStatus();
+      await fetchSetup(); // Refresh setup data
+    }
+    return result;
+  };
+
+  // Called by the trade management controls - the new levels show once the status is refetched
+  const modifyTrade = async (changes: ModifyTradeRequest) => {
+    try {
+      if (paper && livePrice === undefined) throw new Error('No live price to check the paper levels against');
+      const result = paper ? await modifyPaperTrade(pair, changes, livePrice!) : await api.modifyTrade(pair, changes);
+      if (result.success) {
+        toast.success(changes.reason || 'Trade updated', result.message);
+        await (paper ? refreshPaper() : fetchTradeStatus());
+      } else {
+        toast.error('Trade not updated', result.error || result.message || 'The backend refused the change');
+      }
+    } catch (err) {
+      toast.error('Trade not updated', err);
+    }
+  };
+
+  const openExitDialog = (trade: ActiveTradeStatus, portion: number, reason: string) => {
+    setExitDialog({ trade, portion, reason });
+    setExitJournal(undefined);
+    // Stop at entry and planned risk for the P&L / R preview, when the trade was journaled - paper
+    // positions stay out of the journal, so an open journal trade is never theirs
+    if (!paper) findOpenTrade(pair.slug).then(setExitJournal).catch(() => {});
+  };
+
+  const openEnterTradeModal = (entryData: EnterTradeRequest) => {
+    setEntryFormData(entryData);
+    setShowEnterTradeModal(true);
+  };
+
+  // Ticks move the live price/candle in place; the full analysis is only refetched on status changes
+  const applyPriceTick = (tick: PriceTick) => {
+    const update = (setup: TraderSetup | null): TraderSetup | null => setup && {
+      ...setup,
+      current_price: tick.price,
+      live_candle: setup.live_candle && {
+        ...setup.live_candle,
+        current: tick.price,
+        high: Math.max(setup.live_candle.high, tick.price),
+        low: Math.min(setup.live_candle.low, tick.price)
+      }
+    };
+    setBullishData(update);
+    setBearishData(update);
+  };
+
+  const streamStatus = useLiveStream(replay ? [] : [pair.slug], {
+    onPrice: tick => tick.pair === pair.slug && applyPriceTick(tick),
+    onSetupStatus: event => event.pair === pair.slug && fetchSetup(),
+    onTradeStatus: event => event.pair === pair.slug && setTradeStatus(event.status)
+  });
+
+  // Account settings live in localStorage - read after mount to match the server render
+  useEffect(() => {
+    setAccount(loadAccountSettings());
+  }, []);
+
+  useEffect(() => {
+    if (replay) return;
+    // Resync on mount and whenever the stream (re)connects - events may have been missed
+    refresh();
+    if (streamStatus === 'live') return;
+
+    // Stream unavailable - fall back to polling
+    const interval = setInterval(refresh, 60000); // Update every minute
+    return () => clearInterval(interval);
+  }, [streamStatus]);
+
+  // Every new price is a chance for a paper stop or target to fill
+  useEffect(() => {
+    if (paper && !replay) refreshPaper();
+  }, [paper, livePrice, paperSettings]);
+
+  useEffect(() => {
+    if (!replay) return;
+    setBullishData(replay.bullish);
+    setBearishData(replay.bearish);
+    setLastLoaded(replay.time);
+    setLoading(false);
+  }, [replay]);
+
+  // Feed status/score changes to the browser alerts (lib/alerts.ts) - history is not news
+  useEffect(() => {
+    if (replay) return;
+    if (bullishData) observeSetup({ pair: pair.slug, side: 'bullish', setup_status: bullishData.setup_status, total_score: setupScore(bullishData, strategy) });
+    if (bearishData) observeSetup({ pair: pair.slug, side: 'bearish', setup_status: bearishData.setup_status, total_score: setupScore(bearishData, strategy) });
+  }, [bullishData?.setup_status, bullishData?.total_score, bearishData?.setup_status, bearishData?.total_score, strategy]);
+
+  // Update setupData when selectedTrader or data changes
+  useEffect(() => {
+    if (bullishData && bearishData) {
+      setSetupData(selectedTrader === 'bullish' ? bullishData : bearishData);
+    }
+  }, [selectedTrader, bullishData, bearishData]);
+
+  if (loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-purple-400 text-5xl mb-4">📊</div>
+          <p className="text-gray-400 text-xl">Loading Pro Trader Setup...</p>
+        </div>
+      </main>
+    );
+  }
+
+  // Nothing loaded yet - with an earlier payload the page stays up under a stale-data banner
+  if (!setupData) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-500 text-xl">Failed to load</p>
+          <p className="text-gray-400 mt-2">{error}</p>
+          <button onClick={refresh} className="mt-4 bg-purple-600 text-white px-6 py-2 rounded-lg">
+            Retry
+          </button>
+        </div>
+      </main>
+    );
+  }
+
+  const { setup_steps, live_candle, trade_plan, invalidation, why_this_setup, current_price, setup_status, pattern_type, confluences } = setupData;
+  const inTrade = tradeStatus?.in_trade || false;
+  const score = setupScore(setupData, strategy);
+  const tier = scoreTier(score, strategy);
+  const entryErrors = entryFormData ? validateTradeLevels(entryFormData.trade_direction, entryFormData) : [];
+  const entryRisk = entryFormData && entryErrors.length === 0 ? riskReward(pair, entryFormData) : null;
+  const derivedRate = knownConversionRate(pair, account.currency, entryFormData?.entry_price ?? current_price);
+  const sizing = entryFormData && entryErrors.length === 0
+    ? positionSize(pair, account, entryFormData.entry_price - entryFormData.stop_loss, derivedRate ?? manualRate)
+    : null;
+  const entryLots = sizing && entryFormData ? scaledLots(sizing, entryFormData.position_size) : undefined;
+  const sizedEntry = (entry: EnterTradeRequest): EnterTradeRequest => sizing && entryLots !== undefined ? {
+    ...entry,
+    lots: entryLots,
+    units: Math.round(entryLots * pair.contractSize),
+    risk_amount: parseFloat(sizing.riskAmount.toFixed(2)),
+    account_currency: account.currency
+  } : entry;
+
+  return (
+    <main className="min-h-screen p-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <header className="text-center mb-6 pb-6 border-b border-gray-700">
+        <div className="flex justify-between items-start mb-4">
+          <Link href="/" className="text-purple-400 hover:text-purple-300">
+            ← Back to Dashboard
+          </Link>
+          <div className="flex items-center gap-4">
+            <Link href={`/journal?pair=${pair.slug}`} className="text-gray-400 hover:text-white transition-colors">
+              📓 Journal
+            </Link>
+            <Link href="/paper" className="text-gray-400 hover:text-white transition-colors">
+              📝 Paper Log
+            </Link>
+            <Link href={`/snapshots?pair=${pair.slug}`} className="text-gray-400 hover:text-white transition-colors">
+              🗂️ Snapshots
+            </Link>
+            <Link href={`${proTraderPath(pair)}/replay`} className="text-gray-400 hover:text-white transition-colors">
+              ⏪ Replay
+            </Link>
+            <AlertsDrawer />
+            <Link href="/settings" className="text-gray-400 hover:text-white transition-colors" title="Notification Settings">
+              ⚙️ Settings
+            </Link>
+          </div>
+        </div>
+        <div className="flex items-center justify-center mb-3">
+          <span className="text-4xl mr-3">📊</span>
+          <h1 className="text-4xl font-bold text-purple-400">Pro Traders - {pair.name} Setups</h1>
+        </div>
+        <p className="text-gray-400">📈 Bullish (BUY) • 📉 Bearish (SELL) • Dual Scanning</p>
+        <div className="mt-4">
+          <span className="text-2xl text-yellow-400 font-bold">{formatPrice(pair, current_price) || 'Loading...'}</span>
+          <span className="ml-4 text-purple-400">{inTrade ? '🔴 IN TRADE' : 'SCANNING'}</span>
+          {replay ? (
+            <span className="ml-4 px-3 py-1 rounded-full text-sm font-bold bg-blue-600 text-white">
+              ⏪ REPLAY {new Date(replay.time).toLocaleString()}
+            </span>
+          ) : (
+            <>
+              <span className="ml-4"><StreamStatusBadge status={streamStatus} /></span>
+              <button
+                onClick={() => updatePaperSettings({ enabled: !paper })}
+                aria-pressed={paper}
+                title="Simulate trades against the live price instead of sending them to the backend"
+                className={`ml-4 px-3 py-1 rounded-full text-sm font-bold ${paper ? 'bg-yellow-500 text-black' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+              >
+                📝 PAPER {paper ? 'ON' : 'OFF'}
+              </button>
+            </>
+          )}
+        </div>
+      </header>
+
+      {/* Last refresh failed - what is below is the last good data */}
+      <StaleDataBanner error={error} since={lastLoaded} onRetry={refresh} />
+      <StaleDataBanner error={!paper && tradeStatusError ? `Trade status: ${tradeStatusError}` : ''} since={tradeStatusLoaded} onRetry={refresh} />
+
+      {/* DUAL TRADER STATUS - CLICKABLE CARDS */}
+      {!inTrade && bullishData && bearishData && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          {/* Bullish Trader Card - Clickable */}
+          <button
+            onClick={() => {
+              setSelectedTrader('bullish');
+              setSetupData(bullishData);
+            }}
+            className={`text-left bg-gradient-to-br from-green-900 to-gray-900 border-2 rounded-xl p-4 transition-all duration-200 hover:scale-105 hover:shadow-lg ${
+              selectedTrader === 'bullish' ? 'border-green-400 shadow-green-500/50 shadow-xl' : 'border-green-600'
+            }`}
+          >
+            <h3 className="text-2xl font-bold text-green-400 mb-2">📈 BULLISH TRADER (BUY)</h3>
+            <p className="text-green-300 text-lg">Status: {bullishData.setup_status}</p>
+            <p className="text-gray-400 text-sm">Pattern: {bullishData.h1_setup?.pattern_type?.replace('_', ' ') || 'Scanning'}</p>
+            {bullishData.h1_setup?.direction && (
+              <p className="text-green-200 text-sm mt-2">Direction: {bullishData.h1_setup.direction}</p>
+            )}
+            {selectedTrader === 'bullish' && (
+              <p className="text-green-300 text-sm mt-2 font-semibold">✓ Selected - Viewing details below</p>
+            )}
+          </button>
+
+          {/* Bearish Trader Card - Clickable */}
+          <button
+            onClick={() => {
+              setSelectedTrader('bearish');
+              setSetupData(bearishData);
+            }}
+            className={`text-left bg-gradient-to-br from-red-900 to-gray-900 border-2 rounded-xl p-4 transition-all duration-200 hover:scale-105 hover:shadow-lg ${
+              selectedTrader === 'bearish' ? 'border-red-400 shadow-red-500/50 shadow-xl' : 'border-red-600'
+            }`}
+          >
+            <h3 className="text-2xl font-bold text-red-400 mb-2">📉 BEARISH TRADER (SELL)</h3>
+            <p className="text-red-300 text-lg">Status: {bearishData.setup_status}</p>
+            <p className="text-gray-400 text-sm">Pattern: {bearishData.h1_setup?.pattern_type?.replace('_', ' ') || 'Scanning'}</p>
+            {bearishData.h1_setup?.direction && (
+              <p className="text-red-200 text-sm mt-2">Direction: {bearishData.h1_setup.direction}</p>
+            )}
+            {selectedTrader === 'bearish' && (
+              <p className="text-red-300 text-sm mt-2 font-semibold">✓ Selected - Viewing details below</p>
+            )}
+          </button>
+        </div>
+      )}
+
+      {/* TRADE MONITORING DASHBOARD - Shows when in active trade */}
+      <SectionBoundary name="Trade Monitoring">
+        {tradeStatus?.in_trade && (
+          <section className="bg-gradient-to-r from-green-900 to-blue-900 border-2 border-green-500 rounded-xl p-6 mb-6">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+              <h2 className="text-3xl font-bold text-white">📈 ACTIVE TRADE MONITORING</h2>
+              {paper && (
+                <span className="bg-yellow-500 text-black px-3 py-1 rounded-full text-sm font-bold">📝 PAPER POSITION</span>
+              )}
+              {tradeStatus.held_by && (
+                <span className="bg-gray-900 px-3 py-1 rounded-full text-sm text-gray-300">
+                  👤 Held by {tradeStatus.held_by.id === session?.user.id ? 'you' : displayName(tradeStatus.held_by)}
+                </span>
+              )}
+            </div>
+
+            {/* P&L Display */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div className="bg-gray-900 p-4 rounded-lg">
+                <p className="text-gray-400 text-sm">Entry Price</p>
+                <p className="text-white text-2xl font-bold">{formatPrice(pair, tradeStatus.entry_price)}</p>
+              </div>
+              <div className="bg-gray-900 p-4 rounded-lg">
+                <p className="text-gray-400 text-sm">Current Price</p>
+                <p className="text-yellow-400 text-2xl font-bold">{formatPrice(pair, tradeStatus.current_price)}</p>
+              </div>
+              <div className="bg-gray-900 p-4 rounded-lg">
+                <p className="text-gray-400 text-sm">P&L</p>
+                <p className={`text-2xl font-bold ${(tradeStatus.pnl ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {tradeStatus.pnl === undefined ? '—' : `$${tradeStatus.pnl.toFixed(2)}`}
+                  {tradeStatus.pnl_pct !== undefined && ` (${tradeStatus.pnl_pct.toFixed(2)}%)`}
+                </p>
+              </div>
+              <div className="bg-gray-900 p-4 rounded-lg">
+                <p className="text-gray-400 text-sm">Time in Trade</p>
+                <p className="text-blue-400 text-2xl font-bold">{tradeStatus.time_in_trade}</p>
+              </div>
+            </div>
+
+            {/* Progress Bar */}
+            <div className="mb-6">
+              <div className="flex justify-between text-sm text-gray-300 mb-2">
+                <span>
+                  SL: {formatPrice(pair, tradeStatus.stop_loss)}
+                  {stopIsProtected(tradeStatus.trade_direction ?? directionFor(selectedTrader), tradeStatus) && (
+                    <span className="ml-2 bg-blue-600 text-white text-xs font-bold px-2 py-0.5 rounded">BE</span>
+                  )}
+                  {tradeStatus.trailing_stop && (
+                    <span title={`Trailing ${describeTrail(tradeStatus.trailing_stop)}`} className="ml-2 bg-purple-600 text-white text-xs font-bold px-2 py-0.5 rounded">
+                      TRAIL
+                    </span>
+                  )}
+                </span>
+                <span>Progress to TP1: {tradeStatus.progress_to_tp1_pct === undefined ? '—' : `${tradeStatus.progress_to_tp1_pct.toFixed(0)}%`}</span>
+                <span>
+                  TP1: {formatPrice(pair, tradeStatus.take_profit_1)}
+                  {tradeStatus.take_profit_2 !== undefined && ` · TP2: ${formatPrice(pair, tradeStatus.take_profit_2)}`}
+                </span>
+              </div>
+              <div className="w-full bg-gray-700 rounded-full h-6">
+                <div
+                  className={`h-6 rounded-full transition-all ${(tradeStatus.pnl ?? 0) >= 0 ? 'bg-green-500' : 'bg-red-500'}`}
+                  style={{ width: `${Math.min(100, Math.max(0, tradeStatus.progress_to_tp1_pct ?? 0))}%` }}
+                >
+                  <span className="flex items-center justify-center h-full text-white text-xs font-bold">
+                    {tradeStatus.progress_to_tp1_pct !== undefined && `${tradeStatus.progress_to_tp1_pct.toFixed(0)}%`}
+                  </span>
+                </div>
+              </div>
+            </div>
+
+            {/* Trade Alerts */}
+            {tradeStatus.alerts && tradeStatus.alerts.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-xl font-bold text-yellow-400 mb-3">⚠️ TRADE MANAGEMENT ALERTS</h3>
+                {tradeStatus.alerts.map((alert, idx) => (
+                  <div key={idx} className={`mb-3 p-4 rounded-lg border-2 ${
+                    alert.priority === 'HIGH' ? 'bg-red-900 border-red-500' :
+                    alert.priority === 'MEDIUM' ? 'bg-yellow-900 border-yellow-500' :
+                    'bg-blue-900 border-blue-500'
+                  }`}>
+                    <h4 className="text-lg font-bold text-white mb-2">{alert.title}</h4>
+                    <p className="text-gray-200 mb-2">{alert.message}</p>
+                    {alert.action && (
+                      <p className="text-sm text-gray-300 italic">→ {alert.action}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Keyed by the position so a new trade starts with a fresh form */}
+            <TradeManagement
+              key={`${paper ? 'paper' : 'live'}:${tradeStatus.trade_direction}:${tradeStatus.entry_price}`}
+              pair={pair}
+              trade={tradeStatus}
+              direction={tradeStatus.trade_direction ?? directionFor(selectedTrader)}
+              price={tradeStatus.current_price ?? current_price}
+              onModify={modifyTrade}
+            />
+
+            {/* Action Buttons */}
+            <div className="flex gap-4">
+              {tradeStatus.position_size === 50 && (
+                <button
+                  onClick={() => openEnterTradeModal({
+                    entry_price: current_price,
+                    position_size: 50,
+                    stop_loss: tradeStatus.stop_loss,
+                    take_profit_1: tradeStatus.take_profit_1,
+                    take_profit_2: tradeStatus.take_profit_2,
+                    trade_direction: tradeStatus.trade_direction ?? directionFor(selectedTrader)
+                  })}
+                  className="flex-1 bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-bold"
+                >
+                  ➕ ADD 50% MORE (Confirmation Entry)
+                </button>
+              )}
+              {tradeStatus.position_size === 100 && (
+                <button
+                  onClick={() => openExitDialog({ ...tradeStatus, current_price }, 50, 'TP1 hit')}
+                  className="flex-1 bg-yellow-600 hover:bg-yellow-700 text-white px-6 py-3 rounded-lg font-bold"
+                >
+                  🟡 EXIT 50% (Take Partial Profit)
+                </button>
+              )}
+              <button
+                onClick={() => openExitDialog({ ...tradeStatus, current_price }, 100, 'Manual')}
+                className="flex-1 bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-lg font-bold"
+                >
+                🔴 EXIT {tradeStatus.position_size === 100 ? 'ALL' : '50%'} (Close Trade)
+              </button>
+            </div>
+          </section>
+        )}
+      </SectionBoundary>
+
+      {/* Current Setup Plan - Only show if NOT in trade */}
+      <SectionBoundary name="Setup Plan">
+        {!inTrade && (
+          <section className="bg-gray-900 border border-purple-500 rounded-xl p-6 mb-6">
+            <h2 className="text-2xl font-bold text-white mb-4">📋 CURRENT SETUP PLAN</h2>
+            <p className="text-lg text-purple-400 mb-2">
+              Pattern: {pattern_type?.replace('_', ' ') || 'Scanning'}
+            </p>
+
+            {/* Confluence Score Display */}
+            {setupData.total_score !== undefined && (
+              <div className="mb-6 p-4 bg-gradient-to-r from-gray-800 to-gray-900 border-2 rounded-xl">
+                {/* Score Header */}
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h3 className="text-xl font-bold text-white mb-1">🎯 Confluence Analysis</h3>
+                    <p className="text-gray-400 text-sm">
+                      Professional multi-pattern detection system
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-4xl font-bold">
+                      <span className={TIER_TEXT[tier]}>{TIER_STARS[tier]}</span>
+                    </div>
+                    <div className={`text-2xl font-bold ${TIER_TEXT[tier]}`}>
+                      {score} points
+                    </div>
+                  </div>
+                </div>
+
+                {/* Confidence Badge */}
+                {setupData.confidence && (
+                  <div className="mb-4">
+                    <span className={`px-4 py-2 rounded-full text-sm font-bold ${
+                      setupData.confidence.includes('EXTREME') ? 'bg-yellow-500 text-black' :
+                      setupData.confidence.includes('HIGH') ? 'bg-blue-500 text-white' :
+                      'bg-green-500 text-white'
+                    }`}>
+                      {setupData.confidence}
+                    </span>
+                  </div>
+                )}
+
+                {/* Entry Threshold Indicator */}
+                <div className="mb-4">
+                  <div className="flex items-center justify-between text-xs text-gray-400 mb-1">
+                    <span>Entry Threshold</span>
+                    <span>{strategy.minScore} points minimum</span>
+                  </div>
+                  <div className="w-full bg-gray-700 rounded-full h-3 overflow-hidden">
+                    <div
+                      className={`h-full transition-all duration-500 ${TIER_BAR[tier]}`}
+                      style={{ width: `${Math.min((score / strategy.maxScore) * 100, 100)}%` }}
+                    />
+                  </div>
+                </div>
+
+                {/* Confluences List */}
+                {setupData.confluences && setupData.confluences.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-bold text-gray-300 mb-2 uppercase tracking-wide">
+                      Patterns Detected:
+                    </h4>
+                    <div className="space-y-2">
+                      {setupData.confluences.map((confluence, idx) => (
+                        <div key={idx} className="flex items-start gap-3 p-3 bg-gray-800 rounded-lg border border-gray-700">
+                          {/* Icon based on pattern type */}
+                          <span className="text-2xl flex-shrink-0">
+                            {confluence.type === 'LIQUIDITY_GRAB' && '🔥'}
+                            {confluence.type === 'FVG' && '📊'}
+                            {confluence.type === 'ORDER_BLOCK' && '📦'}
+                            {confluence.type === 'BREAKOUT_RETEST' && '🔄'}
+                            {confluence.type === 'BREAKDOWN_RETEST' && '🔽'}
+                            {confluence.type === 'DEMAND_ZONE' && '💚'}
+                            {confluence.type === 'SUPPLY_ZONE' && '🔴'}
+                            {confluence.type === 'BULLISH_BOS' && '📈'}
+                            {confluence.type === 'BEARISH_BOS' && '📉'}
+                          </span>
+
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2 mb-1">
+                              <span className="text-white font-semibold">
+                                {confluence.type.replace(/_/g, ' ')}
+                              </span>
+                              <span className={`px-2 py-0.5 rounded text-xs font-bold ${
+                                confluence.score === 4 ? 'bg-red-500 text-white' :
+                                confluence.score === 3 ? 'bg-orange-500 text-white' :
+                                'bg-blue-500 text-white'
+                              }`}>
+                                +{confluence.score}
+                              </span>
+                              {!strategy.backendScoring && confluenceWeight(strategy, confluence.type) !== 1 && (
+                                <span className="text-xs text-gray-400" title="Weight from your strategy settings">
+                                  ×{confluenceWeight(strategy, confluence.type)}
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-gray-300 text-sm">
+                              {confluence.description}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* No Confluence Warning */}
+                {setupData.confluences && setupData.confluences.length === 0 && tier === 'weak' && (
+                  <div className="p-3 bg-yellow-900/20 border border-yellow-600 rounded-lg">
+                    <p className="text-yellow-400 text-sm">
+                      ⚠️ <strong>Low Confluence</strong> - Need minimum {strategy.minScore} points to enter. Keep scanning...
+                    </p>
+                  </div>
+                )}
+
+                {/* Structure Info */}
+                {setupData.structure && setupData.structure.structure_type !== 'NEUTRAL' && (
+                  <div className="mt-4 p-3 bg-gray-800/50 border border-gray-700 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <span className="text-lg">
+                        {setupData.structure.structure_type.includes('BOS') && '✅'}
+                        {setupData.structure.structure_type.includes('CHOCH') && '⚠️'}
+                      </span>
+                      <span className="text-gray-300 text-sm">
+                        <strong>Market Structure:</strong> {setupData.structure.description || setupData.structure.structure_type.replace(/_/g, ' ')}
+                      </span>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Setup Steps */}
+            {setup_steps && setup_steps.map((step, idx) => (
+              <div key={idx} className="mb-6 pl-4 border-l-4 border-purple-700">
+                {/* Step Header */}
+                <div className="flex items-center gap-3 mb-2">
+                  <span className="text-2xl">
+                    {step.status === 'complete' && '✅'}
+                    {step.status === 'in_progress' && '⏳'}
+                    {step.status === 'waiting' && '⏳'}
+                    {step.status === 'ready' && '🎯'}
+                  </span>
+                  <h3 className="text-xl font-bold text-white">Step {step.step}: {step.title}</h3>
+                </div>
+
+                {/* Step Details */}
+                <p className="text-gray-300 mb-2">{step.details}</p>
+                <p className="text-gray-500 text-sm italic mb-3">{step.explanation}</p>
+
+                {/* Watching For Section (for in_progress) */}
+                {step.status === 'in_progress' && step.watching_for && (
+                  <div className="mt-4 bg-gray-800 rounded-lg p-4">
+                    <h4 className="text-lg font-bold text-yellow-400 mb-3">
+                      👁️ What I'm Watching Right Now:
+                    </h4>
+                    {Object.entries(step.watching_for).map(([key, req]) => (
+                      <div key={key} className="mb-3 pb-3 border-b border-gray-700 last:border-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="text-lg">
+                            {req.status?.includes('✅') ? '✅' : req.status?.includes('⏳') ? '⏳' : '👀'}
+                          </span>
+                          <span className="text-white font-semibold">{req.text}</span>
+                        </div>
+                        <p className="text-gray-400 text-sm ml-7">{req.current}</p>
+                        {req.time_left && (
+                          <p className="text-yellow-400 text-sm ml-7">⏰ {req.time_left}</p>
+                        )}
+                        <p className="text-gray-500 text-xs ml-7 italic">{req.explanation}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Entry Timing Options (50/50 Split Strategy) */}
+                {step.status === 'in_progress' && step.entry_timing && (
+                  <div className="mt-4 bg-gradient-to-r from-blue-900 to-purple-900 border border-blue-500 rounded-lg p-5">
+                    <h4 className="text-xl font-bold text-white mb-3">
+                      ⚡ ENTRY TIMING OPTIONS (50/50 Split Strategy)
+                    </h4>
+                    <p className="text-blue-200 text-sm mb-4 italic">
+                      💡 {step.entry_timing.recommended}
+                    </p>
+
+                    {/* Early Entry Option */}
+                    <div className={`mb-4 p-4 rounded-lg ${step.entry_timing.early_entry.available ? 'bg-yellow-900 border-2 border-yellow-500' : 'bg-gray-800 border border-gray-600'}`}>
+                      <div className="flex items-center justify-between mb-2">
+                        <h5 className="text-lg font-bold text-white">{step.entry_timing.early_entry.type}</h5>
+                        <span className={`px-3 py-1 rounded-full text-sm font-bold ${step.entry_timing.early_entry.available ? 'bg-yellow-500 text-black' : 'bg-gray-700 text-gray-400'}`}>
+                          {step.entry_timing.early_entry.status}
+                        </span>
+                      </div>
+                      <div className="space-y-2 text-sm">
+                        <p className="text-gray-300"><strong>Trigger:</strong> {step.entry_timing.early_entry.trigger}</p>
+                        <p className="text-green-300"><strong>Entry Price:</strong> {step.entry_timing.early_entry.entry_price}</p>
+                        <p className="text-red-300"><strong>Stop Loss:</strong> {step.entry_timing.early_entry.stop_loss}</p>
+                        <p className="text-blue-300"><strong>Position Size:</strong> {step.entry_timing.early_entry.position_size}</p>
+                        <div className="mt-3 p-3 bg-gray-900 rounded">
+                          <p className="text-green-400 whitespace-pre-line mb-2">{step.entry_timing.early_entry.pros}</p>
+                          <p className="text-orange-400 whitespace-pre-line">{step.entry_timing.early_entry.cons}</p>
+                        </div>
+                        {!replay && step.entry_timing.early_entry.available && (
+                          <button
+                            onClick={() => {
+                              const direction = directionFor(selectedTrader);
+                              const [fallbackTp1, fallbackTp2] = fallbackTargets(pair, direction, current_price);
+                              openEnterTradeModal({
+                                entry_price: current_price,
+                                position_size: 50,
+                                stop_loss: parsePrice(step.entry_timing!.early_entry.stop_loss),
+                                take_profit_1: trade_plan?.take_profit_1?.price ? parsePrice(trade_plan.take_profit_1.price) : fallbackTp1,
+                                take_profit_2: trade_plan?.take_profit_2?.price ? parsePrice(trade_plan.take_profit_2.price) : fallbackTp2,
+                                trade_direction: direction
+                              });
+                            }}
+                            className="w-full mt-3 p-3 rounded font-bold text-center bg-yellow-600 hover:bg-yellow-700 text-black"
+                          >
+                            ✅ I TOOK THE TRADE (50% Position)
+                          </button>
+                        )}
+                      </div>
+                    </div>
+
+                    {/* Confirmation Entry Option */}
+                    <div className="p-4 rounded-lg bg-green-900 border-2 border-green-500">
+                      <h5 className="text-lg font-bold text-white mb-2">{step.entry_timing.confirmation_entry.type}</h5>
+                      <div className="space-y-2 text-sm">
+                        <p className="text-gray-300"><strong>Trigger:</strong> {step.entry_timing.confirmation_entry.trigger}</p>
+                        <p className="text-yellow-300"><strong>Expected Time:</strong> {step.entry_timing.confirmation_entry.expected_time} ({step.entry_timing.confirmation_entry.time_remaining})</p>
+                        <p className="text-green-300"><strong>Entry Price:</strong> {step.entry_timing.confirmation_entry.entry_price}</p>
+                        <p className="text-blue-300"><strong>Position Size:</strong> {step.entry_timing.confirmation_entry.position_size}</p>
+                        <div className="mt-3 p-3 bg-gray-900 rounded">
+                          <p className="text-green-400 whitespace-pre-line mb-2">{step.entry_timing.confirmation_entry.pros}</p>
+                          <p className="text-orange-400 whitespace-pre-line">{step.entry_timing.confirmation_entry.cons}</p>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {/* Entry Options (for ready status) */}
+                {step.status === 'ready' && step.entry_options && (
+                  <div className="mt-4 bg-green-900 rounded-lg p-4">
+                    <h4 className="text-lg font-bold text-green-400 mb-3">🎯 ENTRY OPTIONS:</h4>
+                    {step.entry_options.map((option, i) => (
+                      <div key={i} className="mb-4 p-3 bg-gray-800 rounded">
+                        <h5 className="text-white font-bold mb-2">{option.type}</h5>
+
+                        {/* Entry Details */}
+                        <div className="mb-3 space-y-1">
+                          <p className="text-gray-300">📍 <strong>Entry:</strong> {option.entry}</p>
+                          {option.stop_loss && (
+                            <p className="text-red-400">🛑 <strong>Stop Loss:</strong> {option.stop_loss}</p>
+                          )}
+                          {option.take_profit && (
+                            <p className="text-green-400">🎯 <strong>Take Profit:</strong> {option.take_profit}</p>
+                          )}
+                        </div>
+
+                        {/* Risk/Reward Metrics */}
+                        {option.risk_pips && (
+                          <div className="mb-3 p-2 bg-gray-900 rounded">
+                            <p className="text-sm text-gray-300">
+                              Risk: <span className="text-red-300">{option.risk_pips}</span> |
+                              Reward: <span className="text-green-300"> {option.reward_pips}</span>
+                            </p>
+                            <p className="text-sm text-blue-300">R:R = {option.risk_reward}</p>
+                          </div>
+                        )}
+
+                        {/* SL/TP Explanations */}
+                        {option.why_sl && (
+                          <div className="mb-2 p-2 bg-red-900 bg-opacity-20 rounded border border-red-800">
+                            <p className="text-xs text-red-300">{option.why_sl}</p>
+                          </div>
+                        )}
+                        {option.why_tp && (
+                          <div className="mb-3 p-2 bg-green-900 bg-opacity-20 rounded border border-green-800">
+                            <p className="text-xs text-green-300">{option.why_tp}</p>
+                          </div>
+                        )}
+
+                        {/* Trigger */}
+                        <p className="text-gray-300 mb-1 text-sm">⚡ <strong>Trigger:</strong> {option.trigger}</p>
+                        {option.current && <p className="text-gray-400 text-sm">{option.current}</p>}
+                        {option.current_count && <p className="text-gray-400 text-sm">{option.current_count}</p>}
+
+                        {/* Pros/Cons */}
+                        <div className="mt-2 text-sm">
+                          <span className="text-green-400">✓ {option.pros}</span>
+                          <br />
+                          <span className="text-orange-400">⚠ {option.cons}</span>
+                        </div>
+                      </div>
+                    ))}
+
+                    {/* Recommendation */}
+                    {step.recommendation && (
+                      <div className="mt-3 p-3 bg-blue-900 bg-opacity-30 rounded border border-blue-700">
+                        <p className="text-sm text-blue-300">💡 <strong>Recommendation:</strong> {step.recommendation}</p>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
+        )}
+      </SectionBoundary>
+
+      {/* Live Candle Watch */}
+      <SectionBoundary name="Live Candle Watch">
+        {live_candle && (
+          <section className="bg-gray-900 border border-yellow-500 rounded-xl p-6 mb-6">
+            <h2 className="text-2xl font-bold text-white mb-4">📊 LIVE CANDLE WATCH</h2>
+            <p className="text-gray-400 mb-4">
+              Current Candle: {live_candle.candle_start} - {live_candle.candle_close_expected}
+            </p>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              <div>
+                <p className="text-gray-400 text-sm">High</p>
+                <p className="text-white text-xl font-bold">{formatPrice(pair, live_candle.high)}</p>
+              </div>
+              <div>
+                <p className="text-gray-400 text-sm">Current</p>
+                <p className="text-yellow-400 text-xl font-bold">{formatPrice(pair, live_candle.current)}</p>
+              </div>
+              <div>
+                <p className="text-gray-400 text-sm">Low</p>
+                <p className="text-white text-xl font-bold">{formatPrice(pair, live_candle.low)}</p>
+              </div>
+              <div>
+                <p className="text-gray-400 text-sm">Open</p>
+                <p className="text-white text-xl font-bold">{formatPrice(pair, live_candle.open)}</p>
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <p className="text-gray-400 mb-2">Candle Progress:</p>
+              <div className="w-full bg-gray-700 rounded-full h-4">
+                <div
+                  className="bg-yellow-500 h-4 rounded-full transition-all"
+                  style={{ width: `${((60 - live_candle.time_remaining) / 60) * 100}%` }}
+                />
+              </div>
+              <p className="text-gray-400 text-sm mt-1">{live_candle.time_remaining} minutes remaining</p>
+            </div>
+          </section>
+        )}
+      </SectionBoundary>
+
+      {/* Price Chart - plan/trade levels, confluence zones and live candle overlaid */}
+      <SectionBoundary name="Price Chart">
+        <PriceChart
+          pair={pair}
+          setup={setupData}
+          trade={tradeStatus?.in_trade ? tradeStatus : null}
+          end={replay && Math.floor(Date.parse(replay.time) / 1000)}
+        />
+      </SectionBoundary>
+
+      {/* Why This Setup */}
+      <SectionBoundary name="Why This Setup">
+        {why_this_setup && (
+          <section className="bg-gray-900 border border-blue-500 rounded-xl p-6 mb-6">
+            <h2 className="text-2xl font-bold text-white mb-4">🎓 WHY THIS SETUP?</h2>
+
+            {why_this_setup.daily && (
+              <div className="mb-4 p-4 bg-gray-800 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-lg font-bold text-blue-400">Daily Timeframe (D1)</h3>
+                  <div className="text-right">
+                    <p className="text-xs text-gray-500">Last updated: {why_this_setup.daily.last_updated}</p>
+                    <p className="text-xs text-gray-400">{why_this_setup.daily.next_update}</p>
+                  </div>
+                </div>
+                <ul className="list-disc list-inside text-gray-300 space-y-1">
+                  {why_this_setup.daily.points?.map((point, i) => (
+                    <li key={i}>{point}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {why_this_setup.h4 && (
+              <div className="mb-4 p-4 bg-gray-800 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-lg font-bold text-blue-400">4-Hour Timeframe (H4)</h3>
+                  <div className="text-right">
+                    <p className="text-xs text-gray-500">Last updated: {why_this_setup.h4.last_updated}</p>
+                    <p className="text-xs text-gray-400">{why_this_setup.h4.next_update}</p>
+                  </div>
+                </div>
+                <ul className="list-disc list-inside text-gray-300 space-y-1">
+                  {why_this_setup.h4.points?.map((point, i) => (
+                    <li key={i}>{point}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {why_this_setup.h1 && (
+              <div className="mb-4">
+                <h3 className="text-lg font-bold text-blue-400 mb-2">1-Hour Timeframe:</h3>
+                <ul className="list-disc list-inside text-gray-300 space-y-1">
+                  {why_this_setup.h1.points?.map((point, i) => (
+                    <li key={i}>{point}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {why_this_setup.session && (
+              <div>
+                <h3 className="text-lg font-bold text-blue-400 mb-2">Session Context:</h3>
+                <p className="text-gray-300 mb-1">
+                  {why_this_setup.session.current_session} - {why_this_setup.session.strength}
+                </p>
+                <p className="text-gray-400 text-sm">{why_this_setup.session.explanation}</p>
+              </div>
+            )}
+          </section>
+        )}
+      </SectionBoundary>
+
+      {/* Trade Plan */}
+      <SectionBoundary name="Trade Plan">
+        {trade_plan && trade_plan.status !== 'Not ready yet' && (
+          <section className="bg-gray-900 border border-green-500 rounded-xl p-6 mb-6">
+            <h2 className="text-2xl font-bold text-white mb-4">🎯 TRADE PLAN</h2>
+
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-lg font-bold text-green-400">Entry:</h3>
+                <p className="text-white text-xl">
+                  {trade_plan.entry_price}
+                </p>
+                <p className="text-gray-400 text-sm">{trade_plan.entry_method}</p>
+              </div>
+
+              {trade_plan.stop_loss && (
+                <div>
+                  <h3 className="text-lg font-bold text-red-400">Stop Loss:</h3>
+                  <p className="text-white text-xl">
+                    {trade_plan.stop_loss.price}
+                  </p>
+                  <p className="text-gray-400 text-sm">{trade_plan.stop_loss.reason}</p>
+                  <p className="text-gray-500 text-sm italic">{trade_plan.stop_loss.why}</p>
+                </div>
+              )}
+
+              {trade_plan.take_profit_1 && (
+                <div>
+                  <h3 className="text-lg font-bold text-green-400">Take Profit 1 ({trade_plan.take_profit_1.rr_ratio}):</h3>
+                  <p className="text-white text-xl">
+                    {trade_plan.take_profit_1.price}
+                  </p>
+                  <p className="text-gray-400 text-sm">{trade_plan.take_profit_1.action}</p>
+                  <p className="text-gray-500 text-sm italic">{trade_plan.take_profit_1.why}</p>
+                </div>
+              )}
+
+              {trade_plan.take_profit_2 && (
+                <div>
+                  <h3 className="text-lg font-bold text-green-400">Take Profit 2 ({trade_plan.take_profit_2.rr_ratio}):</h3>
+                  <p className="text-white text-xl">
+                    {trade_plan.take_profit_2.price}
+                  </p>
+                  <p className="text-gray-400 text-sm">{trade_plan.take_profit_2.action}</p>
+                  <p className="text-gray-500 text-sm italic">{trade_plan.take_profit_2.why}</p>
+                </div>
+              )}
+            </div>
+          </section>
+        )}
+      </SectionBoundary>
+
+      {/* Invalidation Conditions */}
+      <SectionBoundary name="Invalidation Conditions">
+        {invalidation && invalidation.length > 0 && (
+          <section className="bg-gray-900 border border-red-500 rounded-xl p-6">
+            <h2 className="text-2xl font-bold text-white mb-4">⚠️ INVALIDATION CONDITIONS</h2>
+            <p className="text-gray-400 mb-4">Setup is CANCELLED if:</p>
+
+            {invalidation.map((condition, i) => (
+              <div key={i} className="mb-3 p-3 bg-gray-800 rounded">
+                <div className="flex items-start gap-2">
+                  <span className="text-red-500 text-xl">❌</span>
+                  <div>
+                    <p className="text-white font-bold">{condition.condition}</p>
+                    <p className="text-gray-400 text-sm">Reason: {condition.reason}</p>
+                    <p className="text-gray-500 text-sm">Action: {condition.action}</p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </section>
+        )}
+      </SectionBoundary>
+
+      {/* Exit Trade Dialog - keeps its trade snapshot so the result stays up after a full close */}
+      {exitDialog && (
+        <ExitTradeDialog
+          pair={pair}
+          trade={exitDialog.trade}
+          direction={exitDirection}
+          defaultPortion={exitDialog.portion}
+          defaultReason={exitDialog.reason}
+          journal={exitJournal}
+          paper={paper}
+          paperFill={paper && livePrice !== undefined ? marketFill(pair, paperSettings, exitDirection, livePrice, false) : undefined}
+          onExit={exitTrade}
+          onClose={() => setExitDialog(null)}
+        />
+      )}
+
+      {/* Enter Trade Modal */}
+      {showEnterTradeModal && entryFormData && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-gray-900 border-2 border-purple-500 rounded-xl p-6 max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-bold text-white">✅ Confirm Trade Entry</h2>
+              <span className={`px-3 py-1 rounded-full text-sm font-bold ${
+                entryFormData.trade_direction === 'LONG' ? 'bg-green-600 text-white' : 'bg-red-600 text-white'
+              }`}>
+                {entryFormData.trade_direction === 'LONG' ? '📈 LONG (BUY)' : '📉 SHORT (SELL)'}
+              </span>
+            </div>
+
+            <div className="space-y-3 mb-6">
+              <div>
+                <label className="text-gray-400 text-sm">Entry Price</label>
+                <input
+                  type="number"
+                  value={entryFormData.entry_price}
+                  onChange={(e) => setEntryFormData({...entryFormData, entry_price: parseFloat(e.target.value)})}
+                  className="w-full bg-gray-800 text-white p-2 rounded"
+                  step={priceStep(pair)}
+                />
+                {paper && (
+                  <p className="text-yellow-300 text-xs mt-1">
+                    📝 Paper trade - fills at the live price {formatPrice(pair, livePrice)} plus {spreadPips(paperSettings, pair) / 2} pips
+                    half-spread and {paperSettings.slippagePips} pips slippage
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="text-gray-400 text-sm">Position Size</label>
+                <select
+                  value={entryFormData.position_size}
+                  onChange={(e) => setEntryFormData({...entryFormData, position_size: parseInt(e.target.value)})}
+                  className="w-full bg-gray-800 text-white p-2 rounded"
+                >
+                  <option value="50">50% (Early Entry)</option>
+                  <option value="100">100% (Full Position)</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-gray-400 text-sm">Stop Loss</label>
+                <input
+                  type="number"
+                  value={entryFormData.stop_loss}
+                  onChange={(e) => setEntryFormData({...entryFormData, stop_loss: parseFloat(e.target.value)})}
+                  className="w-full bg-gray-800 text-white p-2 rounded"
+                  step={priceStep(pair)}
+                />
+              </div>
+              <div>
+                <label className="text-gray-400 text-sm">Take Profit 1</label>
+                <input
+                  type="number"
+                  value={entryFormData.take_profit_1}
+                  onChange={(e) => setEntryFormData({...entryFormData, take_profit_1: parseFloat(e.target.value)})}
+                  className="w-full bg-gray-800 text-white p-2 rounded"
+                  step={priceStep(pair)}
+                />
+              </div>
+            </div>
+
+            {/* Level Validation / Risk Preview */}
+            {entryErrors.length > 0 ? (
+              <div className="mb-6 p-3 bg-red-900 border border-red-500 rounded-lg">
+                {entryErrors.map((message, i) => (
+                  <p key={i} className="text-red-200 text-sm">❌ {message}</p>
+                ))}
+              </div>
+            ) : entryRisk && (
+              <div className="mb-6 p-3 bg-gray-800 rounded-lg grid grid-cols-3 gap-3 text-center">
+                <div>
+                  <p className="text-gray-400 text-xs">Risk</p>
+                  <p className="text-red-300 font-bold">{entryRisk.riskPips.toFixed(1)} pips</p>
+                </div>
+                <div>
+                  <p className="text-gray-400 text-xs">Reward (TP1)</p>
+                  <p className="text-green-300 font-bold">{entryRisk.rewardPips.toFixed(1)} pips</p>
+                </div>
+                <div>
+                  <p className="text-gray-400 text-xs">R:R</p>
+                  <p className="text-blue-300 font-bold">1:{entryRisk.riskReward.toFixed(2)}</p>
+                </div>
+              </div>
+            )}
+
+            {/* Position Sizing */}
+            <div className="mb-6 p-3 bg-gray-800 rounded-lg">
+              <p className="text-white font-bold text-sm mb-2">📐 Position Sizing</p>
+              <div className="grid grid-cols-3 gap-2 mb-3">
+                <div>
+                  <label className="text-gray-400 text-xs">Balance</label>
+                  <input
+                    type="number"
+                    value={account.balance}
+                    onChange={(e) => updateAccount({ balance: parseFloat(e.target.value) })}
+                    className="w-full bg-gray-700 text-white p-2 rounded text-sm"
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="text-gray-400 text-xs">Risk %</label>
+                  <input
+                    type="number"
+                    value={account.riskPercent}
+                    onChange={(e) => updateAccount({ riskPercent: parseFloat(e.target.value) })}
+                    className="w-full bg-gray-700 text-white p-2 rounded text-sm"
+                    min="0"
+                    step="0.25"
+                  />
+                </div>
+                <div>
+                  <label className="text-gray-400 text-xs">Currency</label>
+                  <select
+                    value={account.currency}
+                    onChange={(e) => updateAccount({ currency: e.target.value as AccountCurrency })}
+                    className="w-full bg-gray-700 text-white p-2 rounded text-sm"
+                  >
+                    {ACCOUNT_CURRENCIES.map(currency => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {derivedRate === undefined && (
+                <div className="mb-3">
+                  <label className="text-gray-400 text-xs">{pair.quoteCurrency}/{account.currency} rate</label>
+                  <input
+                    type="number"
+                    value={isNaN(manualRate) ? '' : manualRate}
+                    onChange={(e) => setManualRate(parseFloat(e.target.value))}
+                    placeholder={`1 ${pair.quoteCurrency} = ? ${account.currency}`}
+                    className="w-full bg-gray-700 text-white p-2 rounded text-sm"
+                    step="0.0001"
+                  />
+                </div>
+              )}
+              {sizing && entryLots !== undefined ? (
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <p className="text-gray-400">Risk Amount: <span className="text-red-300 font-bold">{sizing.riskAmount.toFixed(2)} {account.currency}</span></p>
+                  <p className="text-gray-400">Stop: <span className="text-white font-bold">{sizing.stopPips.toFixed(1)} pips</span></p>
+                  <p className="text-gray-400">Pip Value: <span className="text-white font-bold">{sizing.pipValuePerLot.toFixed(2)} {account.currency}/lot</span></p>
+                  <p className="text-gray-400">Full Position: <span className="text-white font-bold">{sizing.lots.toFixed(2)} lots</span></p>
+                  <p className="text-gray-400 col-span-2">
+                    This Entry ({entryFormData.position_size}%):{' '}
+                    <span className="text-green-300 font-bold">
+                      {entryLots.toFixed(2)} lots ({Math.round(entryLots * pair.contractSize).toLocaleString()} units)
+                    </span>
+                  </p>
+                  {sizing.lots === 0 && (
+                    <p className="text-yellow-300 text-xs col-span-2">⚠️ Risk is below the 0.01 lot minimum for this stop distance</p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-gray-500 text-xs">Enter a balance, risk % and valid stop to size the position.</p>
+              )}
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowEnterTradeModal(false)}
+                className="flex-1 bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => enterTrade(sizedEntry(entryFormData))}
+                disabled={entryErrors.length > 0}
+                className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-bold"
+              >
+                ✅ Confirm Entry
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
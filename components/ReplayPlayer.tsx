@@ -0,0 +1,179 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import ProTraderDashboard from '@/components/ProTraderDashboard';
+import * as api from '@/lib/api';
+import { PairConfig, proTraderPath } from '@/lib/pairs';
+import type { AnalysisSnapshot } from '@/lib/types';
+
+const HOURS = [24, 48, 72, 168];
+const SPEEDS = [1, 2, 4, 8];           // snapshots (hours) per second
+
+const STATUS_CLASSES: Record<string, string> = {
+  SCANNING: 'bg-gray-700',
+  RETEST_WAITING: 'bg-yellow-500',
+  READY: 'bg-green-500'
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Steps the Pro Trader page through the hourly analysis snapshots from /history
+export default function ReplayPlayer({ pair }: { pair: PairConfig }) {
+  const [hours, setHours] = useState(48);
+  const [snapshots, setSnapshots] = useState<AnalysisSnapshot[]>([]);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  const loadHistory = async () => {
+    setLoading(true);
+    setPlaying(false);
+    try {
+      const history = await api.fetchAnalysisHistory(pair, hours);
+      setSnapshots(history);
+      setIndex(0);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load analysis history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, [pair, hours]);
+
+  // Advance one snapshot per tick, stopping on the last one
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= snapshots.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setIndex(i => i + 1), 1000 / speed);
+    return () => clearTimeout(timeout);
+  }, [playing, index, speed, snapshots.length]);
+
+  const seek = (next: number) => {
+    setPlaying(false);
+    setIndex(Math.max(0, Math.min(snapshots.length - 1, next)));
+  };
+
+  const togglePlay = () => {
+    // Playing from the end starts over
+    if (!playing && index >= snapshots.length - 1) setIndex(0);
+    setPlaying(!playing);
+  };
+
+  const snapshot = snapshots[index];
+
+  return (
+    <>
+      {/* Replay Controls */}
+      <section className="sticky top-0 z-20 bg-gray-950/95 border-b border-blue-700 px-6 py-4">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <span className="text-blue-300 font-bold">⏪ REPLAY - {pair.displayName}</span>
+            <select
+              aria-label="History"
+              value={hours}
+              onChange={(e) => setHours(parseInt(e.target.value))}
+              className="bg-gray-800 text-white px-2 py-1 rounded text-sm"
+            >
+              {HOURS.map(h => <option key={h} value={h}>Last {h < 168 ? `${h}h` : '7 days'}</option>)}
+            </select>
+            <div className="flex gap-1">
+              <button onClick={() => seek(0)} disabled={!snapshot} aria-label="Jump to start" className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white px-3 py-1 rounded">⏮</button>
+              <button onClick={() => seek(index - 1)} disabled={!snapshot || index === 0} aria-label="Previous hour" className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white px-3 py-1 rounded">◀</button>
+              <button
+                onClick={togglePlay}
+                disabled={!snapshot}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white px-4 py-1 rounded font-bold w-24"
+              >
+                {playing ? '⏸ Pause' : '▶ Play'}
+              </button>
+              <button onClick={() => seek(index + 1)} disabled={!snapshot || index >= snapshots.length - 1} aria-label="Next hour" className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white px-3 py-1 rounded">▶</button>
+            </div>
+            <div className="flex gap-1">
+              {SPEEDS.map(s => (
+                <button
+                  key={s}
+                  onClick={() => setSpeed(s)}
+                  aria-pressed={speed === s}
+                  className={`px-2 py-1 rounded text-sm font-bold ${speed === s ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                >
+                  {s}x
+                </button>
+              ))}
+            </div>
+            <span className="text-white font-mono ml-auto">
+              {snapshot ? `${formatTime(snapshot.time)} (${index + 1}/${snapshots.length})` : ''}
+            </span>
+            <Link href={proTraderPath(pair)} className="text-gray-400 hover:text-white text-sm">Back to live →</Link>
+          </div>
+
+          <input
+            type="range"
+            aria-label="Replay time"
+            min={0}
+            max={Math.max(0, snapshots.length - 1)}
+            value={index}
+            onChange={(e) => seek(parseInt(e.target.value))}
+            disabled={!snapshot}
+            className="w-full"
+          />
+
+          {/* Timeline - one cell per hour and side, coloured by setup status */}
+          {snapshots.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {(['bullish', 'bearish'] as const).map(side => (
+                <div key={side} className="flex items-center gap-2">
+                  <span className={`w-8 text-xs ${side === 'bullish' ? 'text-green-400' : 'text-red-400'}`}>{side === 'bullish' ? 'BUY' : 'SELL'}</span>
+                  <div className="flex flex-1 gap-px">
+                    {snapshots.map((s, i) => (
+                      <button
+                        key={s.time}
+                        onClick={() => seek(i)}
+                        title={`${formatTime(s.time)} - ${s[side].setup_status}`}
+                        aria-label={`${side} ${s[side].setup_status} at ${formatTime(s.time)}`}
+                        className={`flex-1 h-3 ${STATUS_CLASSES[s[side].setup_status] ?? 'bg-gray-800'} ${i === index ? 'ring-2 ring-white' : 'opacity-70 hover:opacity-100'}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <p className="text-gray-500 text-xs">
+                <span className="text-gray-400">■</span> Scanning <span className="text-yellow-400 ml-2">■</span> Retest waiting{' '}
+                <span className="text-green-400 ml-2">■</span> Ready
+              </p>
+            </div>
+          )}
+        </div>
+      </section>
+
+      {loading && <p className="text-center text-gray-400 p-6">Loading analysis history...</p>}
+
+      {!loading && error && (
+        <div className="max-w-7xl mx-auto p-6">
+          <div className="bg-red-900 border border-red-500 rounded-xl p-6">
+            <p className="text-red-300">⚠️ {error}</p>
+            <button onClick={loadHistory} className="mt-4 bg-purple-600 text-white px-6 py-2 rounded-lg">
+              Retry
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!loading && !error && !snapshot && (
+        <p className="text-center text-gray-400 p-6">No analysis snapshots stored for this period.</p>
+      )}
+
+      {!loading && snapshot && <ProTraderDashboard pair={pair} replay={snapshot} />}
+    </>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { Component, ErrorInfo, ReactNode } from 'react';
+
+interface Props {
+  name: string;            // shown in the fallback, e.g. "Trade Plan"
+  children: ReactNode;
+}
+
+// Keeps a section that throws while rendering (unexpected payload, chart failure) from
+// blanking the whole page - the rest of the page stays usable
+export default class SectionBoundary extends Component<Props, { error: Error | null }> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    console.error(`${this.props.name} failed to render:`, error, info.componentStack);
+  }
+
+  render() {
+    if (!this.state.error) return this.props.children;
+
+    return (
+      <section role="alert" className="bg-gray-900 border border-red-700 rounded-xl p-4 mb-6 text-sm">
+        <p className="text-red-400 font-bold">⚠️ {this.props.name} could not be displayed</p>
+        <p className="text-gray-400 mt-1">{this.state.error.message}</p>
+        <button
+          onClick={() => this.setState({ error: null })}
+          className="mt-3 bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded"
+        >
+          Try again
+        </button>
+      </section>
+    );
+  }
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { PairConfig } from '@/lib/pairs';
+import { ArchivedSetup, diffIsEmpty, diffSetups } from '@/lib/snapshots';
+import { toPips } from '@/lib/trade';
+
+interface Props {
+  pair: PairConfig;
+  before: ArchivedSetup;
+  after: ArchivedSetup;
+}
+
+const signed = (value: number, digits = 0) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+// What changed in one side's setup between two archived snapshots
+export default function SnapshotDiff({ pair, before, after }: Props) {
+  const diff = diffSetups(before.setup, after.setup);
+
+  return (
+    <section className="bg-gray-900 border border-purple-600 rounded-xl p-6 mb-6">
+      <h2 className="text-2xl font-bold text-white mb-1">🔍 WHAT CHANGED</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        {new Date(before.time).toLocaleString()} → {new Date(after.time).toLocaleString()}
+      </p>
+
+      {/* Status, pattern and score */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="bg-gray-800 rounded-lg p-3">
+          <p className="text-gray-400 text-sm">Status</p>
+          <p className="text-white font-bold">
+            {diff.status ? <>{diff.status.from} → <span className="text-yellow-300">{diff.status.to}</span></> : after.setup.setup_status}
+          </p>
+        </div>
+        <div className="bg-gray-800 rounded-lg p-3">
+          <p className="text-gray-400 text-sm">Score</p>
+          <p className="text-white font-bold">
+            {diff.score.from} → {diff.score.to}{' '}
+            <span className={diff.score.delta > 0 ? 'text-green-400' : diff.score.delta < 0 ? 'text-red-400' : 'text-gray-400'}>
+              ({signed(diff.score.delta)})
+            </span>
+          </p>
+        </div>
+        <div className="bg-gray-800 rounded-lg p-3">
+          <p className="text-gray-400 text-sm">Pattern</p>
+          <p className="text-white font-bold">
+            {diff.pattern
+              ? <>{diff.pattern.from ?? 'none'} → <span className="text-yellow-300">{diff.pattern.to ?? 'none'}</span></>
+              : after.setup.pattern_type ?? 'none'}
+          </p>
+        </div>
+      </div>
+
+      {diffIsEmpty(diff) && <p className="text-gray-400">No changes between these snapshots.</p>}
+
+      {/* Confluences */}
+      {(diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0) && (
+        <div className="mb-4">
+          <h3 className="text-lg font-bold text-white mb-2">Confluences</h3>
+          <ul className="space-y-1 text-sm">
+            {diff.added.map((c, i) => (
+              <li key={`added-${i}`} className="text-green-300">
+                <span aria-label="added">➕</span> {c.type} ({signed(c.score)}) - {c.description}
+              </li>
+            ))}
+            {diff.removed.map((c, i) => (
+              <li key={`removed-${i}`} className="text-red-300">
+                <span aria-label="removed">➖</span> <span className="line-through">{c.type} ({signed(c.score)}) - {c.description}</span>
+              </li>
+            ))}
+            {diff.changed.map((c, i) => (
+              <li key={`changed-${i}`} className="text-yellow-300">
+                <span aria-label="changed">✏️</span> {c.type}: {c.before.score === c.after.score ? signed(c.after.score) : `${signed(c.before.score)} → ${signed(c.after.score)}`}
+                {c.before.description !== c.after.description && <> - {c.after.description}</>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Setup steps */}
+      {diff.steps.length > 0 && (
+        <div className="mb-4">
+          <h3 className="text-lg font-bold text-white mb-2">Setup Steps</h3>
+          <ul className="space-y-1 text-sm text-gray-200">
+            {diff.steps.map(t => (
+              <li key={t.step}>
+                Step {t.step} {t.title}: <span className="text-gray-400">{t.from ?? 'not listed'}</span> →{' '}
+                <span className="text-yellow-300 font-bold">{t.to ?? 'not listed'}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Trade plan */}
+      {diff.plan.length > 0 && (
+        <div>
+          <h3 className="text-lg font-bold text-white mb-2">Trade Plan</h3>
+          <ul className="space-y-1 text-sm text-gray-200">
+            {diff.plan.map(r => (
+              <li key={r.level}>
+                {r.level}: <span className="text-gray-400">{r.from ?? 'none'}</span> → <span className="font-bold">{r.to ?? 'none'}</span>
+                {r.move !== undefined && (
+                  <span className={r.move > 0 ? 'text-green-400' : 'text-red-400'}> ({signed(toPips(pair, r.move), 1)} pips)</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatElapsed } from '@/lib/watchlist';
+
+interface Props {
+  error: string;                 // why the last refresh failed; nothing is shown when empty
+  since?: string;                // ISO time of the last good payload still on screen
+  onRetry?: () => void;
+}
+
+// Shown above data that could not be refreshed - the last good payload stays visible below it
+export default function StaleDataBanner({ error, since, onRetry }: Props) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the age current between refreshes
+  useEffect(() => {
+    if (!error) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [error]);
+
+  if (!error) return null;
+
+  return (
+    <div role="status" className="bg-yellow-900/60 border border-yellow-600 rounded-lg p-3 mb-4 text-sm flex flex-wrap items-center gap-3">
+      <span className="text-yellow-200 font-bold">
+        ⚠️ {since ? `Data is ${formatElapsed(since, now)} stale` : 'Data could not be refreshed'}
+      </span>
+      <span className="text-yellow-100/80 flex-1">{error}</span>
+      {onRetry && (
+        <button onClick={onRetry} className="bg-yellow-700 hover:bg-yellow-600 text-white px-3 py-1 rounded">
+          Retry now
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import type { StreamStatus } from '@/lib/stream';
+
+const LABELS: Record<StreamStatus, { text: string; className: string; title: string }> = {
+  live: { text: '● LIVE', className: 'text-green-400', title: 'Receiving live updates from the backend stream' },
+  connecting: { text: '○ CONNECTING', className: 'text-gray-400', title: 'Connecting to the live stream' },
+  reconnecting: { text: '○ RECONNECTING', className: 'text-yellow-400', title: 'Stream dropped - retrying, polling meanwhile' },
+  polling: { text: '↻ POLLING', className: 'text-orange-400', title: 'Live stream unavailable - refreshing on a timer' }
+};
+
+export default function StreamStatusBadge({ status }: { status: StreamStatus }) {
+  const label = LABELS[status];
+  return (
+    <span className={`text-xs font-bold ${label.className}`} title={label.title}>
+      {label.text}
+    </span>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { ToastKind, useToasts } from '@/lib/toast';
+
+const STYLES: Record<ToastKind, { icon: string; className: string }> = {
+  success: { icon: '✅', className: 'bg-green-900 border-green-500 text-green-100' },
+  info: { icon: 'ℹ️', className: 'bg-gray-800 border-gray-500 text-gray-100' },
+  error: { icon: '⚠️', className: 'bg-red-900 border-red-500 text-red-100' }
+};
+
+// Corner stack for lib/toast.ts - mounted once in the root layout
+export default function Toaster() {
+  const [toasts, dismiss] = useToasts();
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+      {toasts.map(t => (
+        <div
+          key={t.id}
+          role={t.kind === 'error' ? 'alert' : 'status'}
+          className={`border rounded-lg p-3 shadow-lg text-sm flex items-start gap-2 ${STYLES[t.kind].className}`}
+        >
+          <span>{STYLES[t.kind].icon}</span>
+          <div className="flex-1 min-w-0">
+            <p className="font-bold">{t.title}</p>
+            {t.message && <p className="opacity-90 whitespace-pre-line break-words">{t.message}</p>}
+          </div>
+          <button onClick={() => dismiss(t.id)} className="opacity-60 hover:opacity-100" aria-label="Dismiss">
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
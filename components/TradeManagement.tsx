@@ -0,0 +1,172 @@
+'use client';
+
+import { useState } from 'react';
+import { PairConfig, formatPrice, priceStep } from '@/lib/pairs';
+import {
+  canMoveToBreakEven,
+  describeTrail,
+  stopIsProtected,
+  toPips,
+  trailedStop,
+  validateOpenTradeLevels
+} from '@/lib/trade';
+import type { ActiveTradeStatus, ModifyTradeRequest, TradeDirection, TrailingMode } from '@/lib/types';
+
+interface Props {
+  pair: PairConfig;
+  trade: ActiveTradeStatus;
+  direction: TradeDirection;
+  price: number;                   // latest price - stop and targets are checked against it
+  onModify: (changes: ModifyTradeRequest) => Promise<void>;
+}
+
+// A new trail in ATR mode starts here; in pips it starts at the trade's initial risk
+const DEFAULT_ATR_MULTIPLE = 1.5;
+
+// Break-even, trailing stop and target edits for the open trade; results are reported by the caller
+export default function TradeManagement({ pair, trade, direction, price, onModify }: Props) {
+  const riskPips = Math.round(toPips(pair, Math.abs(trade.entry_price - trade.stop_loss))) || 20;
+  const [mode, setMode] = useState<TrailingMode>(trade.trailing_stop?.mode ?? (trade.atr === undefined ? 'pips' : 'atr'));
+  const [distance, setDistance] = useState<number>(trade.trailing_stop?.distance ?? (mode === 'atr' ? DEFAULT_ATR_MULTIPLE : riskPips));
+  const [tp1, setTp1] = useState<number>(trade.take_profit_1);
+  const [tp2, setTp2] = useState<number>(trade.take_profit_2 ?? NaN);
+  const [submitting, setSubmitting] = useState(false);
+
+  const protectedStop = stopIsProtected(direction, trade);
+  const breakEvenReady = canMoveToBreakEven(direction, price, trade);
+
+  const trail = { mode, distance };
+  const trailInvalid = isNaN(distance) || distance <= 0 ? 'Enter a trailing distance above 0'
+    : mode === 'atr' && trade.atr === undefined ? 'The backend sent no ATR for this trade - trail in pips instead' : '';
+  const trailTo = trailInvalid ? null : trailedStop(pair, direction, price, trade.stop_loss, trail, trade.atr);
+
+  const targets = { take_profit_1: tp1, ...(isNaN(tp2) ? {} : { take_profit_2: tp2 }) };
+  const targetErrors = isNaN(tp1) ? ['Enter a price for TP1'] : validateOpenTradeLevels(direction, price, { stop_loss: trade.stop_loss, ...targets }, trade.tp1_hit)
+    .filter(message => !message.startsWith('Stop loss'));
+  const targetsChanged = tp1 !== trade.take_profit_1 || (isNaN(tp2) ? trade.take_profit_2 !== undefined : tp2 !== trade.take_profit_2);
+
+  const submit = async (changes: ModifyTradeRequest) => {
+    setSubmitting(true);
+    try {
+      await onModify(changes);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const switchMode = (next: TrailingMode) => {
+    setMode(next);
+    setDistance(next === 'atr' ? DEFAULT_ATR_MULTIPLE : riskPips);
+  };
+
+  return (
+    <div className="mb-6 bg-gray-900 rounded-lg p-4">
+      <h3 className="text-xl font-bold text-white mb-3">🛡️ MANAGE TRADE</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Break-even */}
+        <div>
+          <p className="text-gray-400 text-sm mb-2">Stop Loss {formatPrice(pair, trade.stop_loss)}</p>
+          <button
+            onClick={() => submit({ stop_loss: trade.entry_price, reason: 'Break-even' })}
+            disabled={!breakEvenReady || submitting}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-bold"
+          >
+            Move SL to Break-Even ({formatPrice(pair, trade.entry_price)})
+          </button>
+          <p className="text-gray-500 text-xs mt-1">
+            {protectedStop ? 'Stop is already at break-even or better' : !breakEvenReady ? 'Price has to move past entry first' : 'The trade can no longer lose'}
+          </p>
+        </div>
+
+        {/* Trailing stop */}
+        <div>
+          <p className="text-gray-400 text-sm mb-2">
+            Trailing Stop{trade.trailing_stop && <span className="text-purple-300 font-bold"> - trailing {describeTrail(trade.trailing_stop)}</span>}
+          </p>
+          <div className="flex gap-2 mb-2">
+            {(['pips', 'atr'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => switchMode(m)}
+                aria-pressed={mode === m}
+                className={`flex-1 py-1 rounded text-sm font-bold ${mode === m ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-300 hover:text-white'}`}
+              >
+                {m === 'pips' ? 'Pips' : 'ATR ×'}
+              </button>
+            ))}
+            <input
+              type="number"
+              aria-label="Trailing distance"
+              value={isNaN(distance) ? '' : distance}
+              onChange={(e) => setDistance(parseFloat(e.target.value))}
+              className="w-20 bg-gray-800 text-white p-1 rounded"
+              min="0"
+              step={mode === 'atr' ? '0.1' : '1'}
+            />
+          </div>
+          <p className="text-gray-500 text-xs mb-2">
+            {trailInvalid || (trailTo === trade.stop_loss
+              ? `Stop stays at ${formatPrice(pair, trade.stop_loss)} until price moves further`
+              : `Stop moves to ${formatPrice(pair, trailTo ?? undefined)} now`)}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => submit({ trailing_stop: trail, reason: 'Trailing stop' })}
+              disabled={!!trailInvalid || submitting}
+              className="flex-1 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg font-bold text-sm"
+            >
+              {trade.trailing_stop ? 'Update Trail' : 'Set Trailing Stop'}
+            </button>
+            {trade.trailing_stop && (
+              <button
+                onClick={() => submit({ trailing_stop: null, reason: 'Trailing stop off' })}
+                disabled={submitting}
+                className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-lg text-sm"
+              >
+                Stop Trailing
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Targets */}
+        <div>
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <div>
+              <label htmlFor="manage-tp1" className="text-gray-400 text-sm">TP1</label>
+              <input
+                id="manage-tp1"
+                type="number"
+                value={isNaN(tp1) ? '' : tp1}
+                onChange={(e) => setTp1(parseFloat(e.target.value))}
+                className="w-full bg-gray-800 text-white p-1 rounded"
+                step={priceStep(pair)}
+              />
+            </div>
+            <div>
+              <label htmlFor="manage-tp2" className="text-gray-400 text-sm">TP2</label>
+              <input
+                id="manage-tp2"
+                type="number"
+                value={isNaN(tp2) ? '' : tp2}
+                onChange={(e) => setTp2(parseFloat(e.target.value))}
+                className="w-full bg-gray-800 text-white p-1 rounded"
+                step={priceStep(pair)}
+              />
+            </div>
+          </div>
+          {targetErrors.map(message => (
+            <p key={message} role="alert" className="text-red-300 text-xs mb-1">❌ {message}</p>
+          ))}
+          <button
+            onClick={() => submit({ ...targets, reason: 'Targets edited' })}
+            disabled={!targetsChanged || targetErrors.length > 0 || submitting}
+            className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-bold"
+          >
+            Update Targets
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
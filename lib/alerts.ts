@@ -0,0 +1,197 @@
+/*
+ * SETUP ALERTS
+ * ============
+ *
+ * Opt-in browser notifications and sound when a setup flips to READY or its
+ * score crosses a threshold (the thresholds of lib/strategy.ts). Every open
+ * dashboard tab feeds the setups it sees to observeSetup, scored with the
+ * user's strategy weights.
+ *
+ * Rules are per pair and per direction (bullish / bearish). The last seen
+ * status/score per setup, the settings and the alert history live in
+ * localStorage so they are shared by all tabs: a transition another tab has
+ * already seen does not fire again, and the cooldown rate-limits each setup.
+ */
+
+import { PAIRS, getPair, proTraderPath } from './pairs';
+import { loadStrategySettings } from './strategy';
+import type { TraderSide } from './types';
+
+export interface AlertRule {
+  enabled: boolean;
+  onReady: boolean;            // setup_status -> READY
+  minScore: number | null;     // total_score crosses this threshold; null = off
+}
+
+export interface AlertSettings {
+  notifications: boolean;      // Web Notifications (needs browser permission)
+  sound: boolean;
+  cooldownMinutes: number;     // minimum gap between alerts for one pair + direction
+  rules: Record<string, Record<TraderSide, AlertRule>>;  // by pair slug
+}
+
+export interface SetupSnapshot {
+  pair: string;
+  side: TraderSide;
+  setup_status: string;
+  total_score?: number;
+}
+
+export interface FiredAlert {
+  id: string;
+  pair: string;
+  side: TraderSide;
+  kind: 'ready' | 'score';
+  title: string;
+  body: string;
+  setup_status: string;
+  total_score?: number;
+  time: string;                // ISO timestamp
+}
+
+const SETTINGS_KEY = 'fx-alert-settings';
+const SNAPSHOTS_KEY = 'fx-alert-snapshots';
+const HISTORY_KEY = 'fx-alert-history';
+const HISTORY_LIMIT = 50;
+
+// Fired on window whenever the history changes in this tab ('storage' covers other tabs)
+export const ALERTS_CHANGED_EVENT = 'fx-alerts-changed';
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => localStorage.setItem(key, JSON.stringify(value));
+
+// ---- Settings ----
+
+export function loadAlertSettings(): AlertSettings {
+  const saved = readJson<Partial<AlertSettings>>(SETTINGS_KEY, {});
+  // Pairs without a saved rule alert at the strategy's alert score
+  const defaultRule: AlertRule = { enabled: true, onReady: true, minScore: loadStrategySettings().alertScore };
+  const rules: AlertSettings['rules'] = {};
+  PAIRS.forEach(p => {
+    rules[p.slug] = {
+      bullish: { ...defaultRule, ...saved.rules?.[p.slug]?.bullish },
+      bearish: { ...defaultRule, ...saved.rules?.[p.slug]?.bearish }
+    };
+  });
+  return { notifications: false, sound: false, cooldownMinutes: 15, ...saved, rules };
+}
+
+export const saveAlertSettings = (settings: AlertSettings) => writeJson(SETTINGS_KEY, settings);
+
+export const notificationPermission = (): NotificationPermission | 'unsupported' =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+export const requestNotificationPermission = async () =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.requestPermission();
+
+// ---- History ----
+
+export const listAlertHistory = () => readJson<FiredAlert[]>(HISTORY_KEY, []);
+
+export function clearAlertHistory() {
+  writeJson(HISTORY_KEY, []);
+  window.dispatchEvent(new Event(ALERTS_CHANGED_EVENT));
+}
+
+function recordAlert(alert: FiredAlert) {
+  writeJson(HISTORY_KEY, [alert, ...listAlertHistory()].slice(0, HISTORY_LIMIT));
+  window.dispatchEvent(new Event(ALERTS_CHANGED_EVENT));
+}
+
+// ---- Detection ----
+
+const sideLabel = (side: TraderSide) => (side === 'bullish' ? 'BUY' : 'SELL');
+
+// Alerts a rule asks for on the transition prev -> next (none on the first sighting)
+export function detectAlerts(rule: AlertRule, prev: SetupSnapshot | undefined, next: SetupSnapshot): FiredAlert['kind'][] {
+  if (!rule.enabled || !prev) return [];
+
+  const kinds: FiredAlert['kind'][] = [];
+  if (rule.onReady && prev.setup_status !== 'READY' && next.setup_status === 'READY') {
+    kinds.push('ready');
+  }
+  if (rule.minScore !== null && (prev.total_score ?? 0) < rule.minScore && (next.total_score ?? 0) >= rule.minScore) {
+    kinds.push('score');
+  }
+  return kinds;
+}
+
+const withinCooldown = (settings: AlertSettings, pair: string, side: TraderSide, now: number) =>
+  listAlertHistory().some(a =>
+    a.pair === pair && a.side === side && now - new Date(a.time).getTime() < settings.cooldownMinutes * 60000
+  );
+
+// Short beep via Web Audio - two tones for READY, one for a score threshold
+function playSound(kind: FiredAlert['kind']) {
+  try {
+    const context = new AudioContext();
+    const tones = kind === 'ready' ? [880, 1320] : [660];
+    tones.forEach((frequency, i) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = frequency;
+      gain.gain.value = 0.1;
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(context.currentTime + i * 0.2);
+      oscillator.stop(context.currentTime + i * 0.2 + 0.15);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch (err) {
+    console.error('Failed to play alert sound:', err);
+  }
+}
+
+function showNotification(alert: FiredAlert) {
+  if (notificationPermission() !== 'granted') return;
+  const notification = new Notification(alert.title, { body: alert.body, tag: `${alert.pair}-${alert.side}` });
+  notification.onclick = () => {
+    window.focus();
+    const pair = getPair(alert.pair);
+    if (pair) window.location.href = proTraderPath(pair);
+  };
+}
+
+// Feed every setup status/score the page sees; fires the alerts the rules ask for
+export function observeSetup(snapshot: SetupSnapshot) {
+  const key = `${snapshot.pair}:${snapshot.side}`;
+  const snapshots = readJson<Record<string, SetupSnapshot>>(SNAPSHOTS_KEY, {});
+  const prev = snapshots[key];
+  writeJson(SNAPSHOTS_KEY, { ...snapshots, [key]: snapshot });
+
+  const settings = loadAlertSettings();
+  const rule = settings.rules[snapshot.pair]?.[snapshot.side];
+  if (!rule) return;
+
+  const kinds = detectAlerts(rule, prev, snapshot);
+  const now = Date.now();
+  if (kinds.length === 0 || withinCooldown(settings, snapshot.pair, snapshot.side, now)) return;
+
+  // READY takes precedence when both fire on the same update
+  const kind = kinds.includes('ready') ? 'ready' : 'score';
+  const name = getPair(snapshot.pair)?.displayName || snapshot.pair;
+  const alert: FiredAlert = {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    pair: snapshot.pair,
+    side: snapshot.side,
+    kind,
+    title: kind === 'ready'
+      ? `🚨 ${name} ${sideLabel(snapshot.side)} setup READY`
+      : `📈 ${name} ${sideLabel(snapshot.side)} score ${snapshot.total_score}`,
+    body: `Status ${snapshot.setup_status}, confluence score ${snapshot.total_score ?? '—'}`,
+    setup_status: snapshot.setup_status,
+    total_score: snapshot.total_score,
+    time: new Date(now).toISOString()
+  };
+
+  recordAlert(alert);
+  if (settings.notifications) showNotification(alert);
+  if (settings.sound) playSound(kind);
+}
@@ -0,0 +1,110 @@
+/*
+ * PERFORMANCE ANALYTICS
+ * =====================
+ *
+ * Statistics computed from closed journal trades (lib/journal.ts). Nothing
+ * here is hardcoded - win rate, expectancy, profit factor etc. only reflect
+ * trades that were actually recorded.
+ */
+
+import { JournalEntry, realizedPnl, rMultiple } from './journal';
+import { DEFAULT_STRATEGY_SETTINGS, StrategySettings, scoreTier } from './strategy';
+
+export interface TradeStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;           // 0-100
+  totalPnl: number;
+  expectancy: number;        // average $ per trade
+  avgR: number | null;       // average R multiple (trades with a stop only)
+  profitFactor: number;      // gross profit / gross loss (Infinity with no losses)
+  maxDrawdown: number;       // largest peak-to-trough drop of the equity curve, in $
+  avgHoursInTrade: number;
+}
+
+export interface EquityPoint {
+  time: string;              // closed_at of the trade
+  equity: number;            // cumulative realized P&L
+}
+
+export interface StatsGroup {
+  key: string;
+  stats: TradeStats;
+}
+
+const hoursBetween = (start: string, end: string) => (Date.parse(end) - Date.parse(start)) / 3600000;
+
+const byCloseTime = (a: JournalEntry, b: JournalEntry) => (a.closed_at || '').localeCompare(b.closed_at || '');
+
+export const closedTrades = (entries: JournalEntry[]) =>
+  entries.filter(e => e.status === 'closed').sort(byCloseTime);
+
+export function equityCurve(entries: JournalEntry[]): EquityPoint[] {
+  let equity = 0;
+  return closedTrades(entries).map(e => {
+    equity += realizedPnl(e);
+    return { time: e.closed_at!, equity };
+  });
+}
+
+// Largest drop from a running peak; the curve starts at 0 equity
+export function maxDrawdown(curve: { equity: number }[]): number {
+  let peak = 0;
+  let drawdown = 0;
+  curve.forEach(point => {
+    peak = Math.max(peak, point.equity);
+    drawdown = Math.max(drawdown, peak - point.equity);
+  });
+  return drawdown;
+}
+
+export function computeStats(entries: JournalEntry[]): TradeStats {
+  const closed = closedTrades(entries);
+  const pnls = closed.map(realizedPnl);
+  const rs = closed.map(rMultiple).filter((r): r is number => r !== null);
+
+  const wins = pnls.filter(p => p > 0);
+  const losses = pnls.filter(p => p < 0);
+  const grossProfit = wins.reduce((a, b) => a + b, 0);
+  const grossLoss = Math.abs(losses.reduce((a, b) => a + b, 0));
+  const totalPnl = pnls.reduce((a, b) => a + b, 0);
+  const hours = closed.map(e => hoursBetween(e.opened_at, e.closed_at!));
+
+  return {
+    trades: closed.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: closed.length ? (wins.length / closed.length) * 100 : 0,
+    totalPnl,
+    expectancy: closed.length ? totalPnl / closed.length : 0,
+    avgR: rs.length ? rs.reduce((a, b) => a + b, 0) / rs.length : null,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    maxDrawdown: maxDrawdown(equityCurve(closed)),
+    avgHoursInTrade: hours.length ? hours.reduce((a, b) => a + b, 0) / hours.length : 0
+  };
+}
+
+// Groups closed trades by key and computes stats per group, largest groups first
+export function breakdown(entries: JournalEntry[], keyOf: (entry: JournalEntry) => string): StatsGroup[] {
+  const groups = new Map<string, JournalEntry[]>();
+  closedTrades(entries).forEach(e => {
+    const key = keyOf(e);
+    groups.set(key, [...(groups.get(key) || []), e]);
+  });
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, stats: computeStats(group) }))
+    .sort((a, b) => b.stats.trades - a.stats.trades);
+}
+
+// Same buckets as the confluence stars of the strategy (lib/strategy.ts) - by default <5, 5-6 ⭐, 7-9 ⭐⭐, 10+ ⭐⭐⭐
+export function scoreBucket(score: number | undefined, strategy: StrategySettings = DEFAULT_STRATEGY_SETTINGS): string {
+  if (score === undefined) return 'Unknown';
+  const { minScore, goodScore, strongScore } = strategy;
+  switch (scoreTier(score, strategy)) {
+    case 'strong': return `${strongScore}+ (⭐⭐⭐)`;
+    case 'good': return `${goodScore}-${strongScore - 1} (⭐⭐)`;
+    case 'setup': return `${minScore}-${goodScore - 1} (⭐)`;
+    default: return `<${minScore}`;
+  }
+}
@@ -0,0 +1,243 @@
+/*
+ * BACKEND API CLIENT
+ * ==================
+ *
+ * Typed wrappers for every backend endpoint the pages call. Calls go to /api/...
+ * on this app, which app/api/[...path]/route.ts proxies to the backend (see
+ * lib/proxy.ts), so the backend URL and secrets stay server-side. Responses are
+ * validated with lib/schema.ts; a payload that no longer matches the expected
+ * shape raises a ContractError naming the endpoint and the broken field.
+ * Every call carries the signed-in user's session token (lib/auth.ts); a 401
+ * clears the session so the app sends the user back to /login.
+ *
+ * Failures are always an ApiError with a message fit for the user: proxy errors
+ * keep their code, a dropped connection is BACKEND_UNREACHABLE and a body that
+ * is not JSON is INVALID_RESPONSE. GETs retry 5xx / timeouts / unreachable
+ * with backoff before giving up.
+ *
+ * ENDPOINTS:
+ * - POST /api/auth/magic-link                 -> requestMagicLink
+ * - POST /api/auth/verify                     -> verifyLogin
+ * - POST /api/auth/logout                     -> logout
+ * - GET  /api/pro-trader-{slug}/analysis      -> fetchProTraderAnalysis
+ * - GET  /api/pro-trader-{slug}/{side}        -> fetchProTraderSide (home scanner)
+ * - GET  /api/pro-trader-{slug}/history       -> fetchAnalysisHistory (hourly snapshots for replay)
+ * - GET  /api/pro-trader-{slug}/candles       -> fetchCandles (up to `end` when replaying)
+ * - GET  /api/pro-trader-{slug}/trade-status  -> fetchTradeStatus
+ * - POST /api/pro-trader-{slug}/enter-trade   -> enterTrade
+ * - POST /api/pro-trader-{slug}/exit-trade    -> exitTrade
+ * - POST /api/pro-trader-{slug}/modify-trade  -> modifyTrade (stop, targets, trailing stop)
+ * - GET  /api/{xauusd|gbpusd}/analysis        -> fetchXAUUSDAnalysis / fetchGBPUSDAnalysis
+ * - POST /api/{xauusd|gbpusd}/scan            -> same, with forceScan = true
+ * - GET  /api/settings/telegram               -> fetchTelegramSettings
+ * - POST /api/settings/telegram               -> saveTelegramSettings
+ * - POST /api/settings/telegram/test          -> sendTelegramTest
+ * - GET  /api/settings/channels               -> fetchNotificationChannels
+ * - POST /api/settings/channels               -> saveNotificationChannels
+ * - POST /api/settings/channels/test          -> testNotificationChannel
+ * - POST /api/settings/strategy               -> saveStrategyScoring
+ */
+
+import { getSession, setSession } from './auth';
+import { PairConfig, proTraderEndpoint } from './pairs';
+import {
+  SchemaError,
+  parseAnalysisHistory,
+  parseAuthSession,
+  parseCandleResponse,
+  parseGBPUSDAnalysis,
+  parseNotificationChannels,
+  parseProTraderAnalysis,
+  parseProTraderSide,
+  parseTelegramSettings,
+  parseTradeActionResult,
+  parseTradeStatus,
+  parseXAUUSDAnalysis
+} from './schema';
+import type {
+  AnalysisSnapshot,
+  AuthSession,
+  CandleResponse,
+  CandleTimeframe,
+  EnterTradeRequest,
+  ExitTradeRequest,
+  GBPUSDAnalysis,
+  ModifyTradeRequest,
+  NotificationChannel,
+  ProTraderAnalysis,
+  ProxyErrorBody,
+  ProxyErrorCode,
+  SavedTelegramSettings,
+  StrategyScoring,
+  TelegramSettings,
+  TradeActionResult,
+  TradeStatus,
+  TraderSetup,
+  TraderSide,
+  XAUUSDAnalysis
+} from './types';
+
+// Same origin - the route-handler proxy forwards to the backend
+export const API_BASE = '';
+
+export class ApiError extends Error {
+  constructor(message: string, public status?: number, public code?: ProxyErrorCode) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class ContractError extends Error {
+  constructor(public endpoint: string, public detail: string) {
+    super(`Backend contract changed (${endpoint}): ${detail}`);
+    this.name = 'ContractError';
+  }
+}
+
+// GETs are retried after these delays when the failure may clear up by itself (backend
+// restarting, gateway timeout, dropped connection); POSTs such as enter/exit trade never are
+const RETRY_DELAYS_MS = [500, 1500, 4000];
+
+const RETRYABLE_CODES: ProxyErrorCode[] = ['BACKEND_ERROR', 'BACKEND_UNREACHABLE', 'TIMEOUT', 'INVALID_RESPONSE', 'RATE_LIMITED'];
+
+export const isRetryable = (err: unknown) =>
+  err instanceof ApiError && (err.code === undefined ? err.status === undefined || err.status >= 500 : RETRYABLE_CODES.includes(err.code));
+
+const readJson = (response: Response): Promise<unknown> =>
+  response.json().catch(() => {
+    throw new ApiError(`Server returned HTTP ${response.status} that is not JSON`, response.status, 'INVALID_RESPONSE');
+  });
+
+async function attempt<T>(path: string, parse: (data: unknown) => T, init?: RequestInit): Promise<T> {
+  const headers = new Headers(init?.headers);
+  const session = getSession();
+  if (session) headers.set('Authorization', `Bearer ${session.token}`);
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}`, { ...init, headers });
+  } catch {
+    throw new ApiError('Cannot reach the server - check your connection', undefined, 'BACKEND_UNREACHABLE');
+  }
+
+  if (response.status === 401 && session) {
+    setSession(null);
+    throw new ApiError('Your session has expired - please sign in again', 401);
+  }
+
+  if (!response.ok) {
+    // The proxy normalizes every failure to { error: { status, code, message } }; anything
+    // else (a platform error page in front of this app) is reported as an invalid response
+    const body = (await readJson(response).catch(() => null)) as ProxyErrorBody | null;
+    if (!body?.error) {
+      throw new ApiError(`Server returned HTTP ${response.status}`, response.status, response.status >= 500 ? 'INVALID_RESPONSE' : undefined);
+    }
+    throw new ApiError(body.error.message || `HTTP ${response.status}`, response.status, body.error.code);
+  }
+
+  const data = await readJson(response);
+  try {
+    return parse(data);
+  } catch (err) {
+    if (err instanceof SchemaError) throw new ContractError(path, err.message);
+    throw err;
+  }
+}
+
+async function request<T>(path: string, parse: (data: unknown) => T, init?: RequestInit): Promise<T> {
+  const delays = !init?.method || init.method === 'GET' ? RETRY_DELAYS_MS : [];
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt(path, parse, init);
+    } catch (err) {
+      if (i >= delays.length || !isRetryable(err)) throw err;
+      await new Promise(resolve => setTimeout(resolve, delays[i]));
+    }
+  }
+}
+
+const post = (body?: unknown): RequestInit => ({
+  method: 'POST',
+  headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+  body: body === undefined ? undefined : JSON.stringify(body)
+});
+
+// ---- Auth ----
+
+// Emails a sign-in link that opens redirectUrl?token=...
+export const requestMagicLink = (email: string, redirectUrl: string): Promise<TradeActionResult> =>
+  request('/api/auth/magic-link', parseTradeActionResult, post({ email, redirect_url: redirectUrl }));
+
+// Exchanges the one-time token from a magic link or OAuth redirect for a session
+export const verifyLogin = (token: string): Promise<AuthSession> =>
+  request('/api/auth/verify', parseAuthSession, post({ token }));
+
+export const logout = (): Promise<TradeActionResult> =>
+  request('/api/auth/logout', parseTradeActionResult, post());
+
+export const oauthUrl = (provider: string, redirectUrl: string) =>
+  `${API_BASE}/api/auth/oauth/${provider}?redirect_url=${encodeURIComponent(redirectUrl)}`;
+
+// ---- Pro Trader ----
+
+export const fetchProTraderAnalysis = (pair: PairConfig): Promise<ProTraderAnalysis> =>
+  request(`/api/${proTraderEndpoint(pair)}/analysis`, parseProTraderAnalysis);
+
+// One side's setup for the home scanner, which shows whatever fields are present
+export const fetchProTraderSide = (pair: PairConfig, side: TraderSide): Promise<Partial<TraderSetup> | null> =>
+  request(`/api/${proTraderEndpoint(pair)}/${side}`, parseProTraderSide);
+
+// `end` (unix seconds) returns the candles that opened before it instead of the latest ones
+export const fetchCandles = (pair: PairConfig, timeframe: CandleTimeframe, limit = 200, end?: number): Promise<CandleResponse> =>
+  request(`/api/${proTraderEndpoint(pair)}/candles?timeframe=${timeframe}&limit=${limit}${end === undefined ? '' : `&end=${end}`}`, parseCandleResponse);
+
+// Hourly analysis snapshots, oldest first, for the replay page
+export const fetchAnalysisHistory = (pair: PairConfig, hours: number): Promise<AnalysisSnapshot[]> =>
+  request(`/api/${proTraderEndpoint(pair)}/history?hours=${hours}`, parseAnalysisHistory);
+
+export const fetchTradeStatus = (pair: PairConfig): Promise<TradeStatus> =>
+  request(`/api/${proTraderEndpoint(pair)}/trade-status`, parseTradeStatus);
+
+export const enterTrade = (pair: PairConfig, entry: EnterTradeRequest): Promise<TradeActionResult> =>
+  request(`/api/${proTraderEndpoint(pair)}/enter-trade`, parseTradeActionResult, post(entry));
+
+export const exitTrade = (pair: PairConfig, exit: ExitTradeRequest): Promise<TradeActionResult> =>
+  request(`/api/${proTraderEndpoint(pair)}/exit-trade`, parseTradeActionResult, post(exit));
+
+export const modifyTrade = (pair: PairConfig, changes: ModifyTradeRequest): Promise<TradeActionResult> =>
+  request(`/api/${proTraderEndpoint(pair)}/modify-trade`, parseTradeActionResult, post(changes));
+
+// ---- Legacy signal pages ----
+
+const signalPath = (symbol: string, forceScan: boolean) =>
+  forceScan ? `/api/${symbol}/scan` : `/api/${symbol}/analysis`;
+
+export const fetchXAUUSDAnalysis = (forceScan = false): Promise<XAUUSDAnalysis> =>
+  request(signalPath('xauusd', forceScan), parseXAUUSDAnalysis, forceScan ? post({}) : undefined);
+
+export const fetchGBPUSDAnalysis = (forceScan = false): Promise<GBPUSDAnalysis> =>
+  request(signalPath('gbpusd', forceScan), parseGBPUSDAnalysis, forceScan ? post({}) : undefined);
+
+// ---- Settings ----
+
+export const fetchTelegramSettings = (): Promise<SavedTelegramSettings> =>
+  request('/api/settings/telegram', parseTelegramSettings);
+
+export const saveTelegramSettings = (settings: TelegramSettings): Promise<TradeActionResult> =>
+  request('/api/settings/telegram', parseTradeActionResult, post(settings));
+
+export const sendTelegramTest = (): Promise<TradeActionResult> =>
+  request('/api/settings/telegram/test', parseTradeActionResult, post());
+
+export const fetchNotificationChannels = (): Promise<NotificationChannel[]> =>
+  request('/api/settings/channels', parseNotificationChannels);
+
+export const saveNotificationChannels = (channels: NotificationChannel[]): Promise<TradeActionResult> =>
+  request('/api/settings/channels', parseTradeActionResult, post({ channels }));
+
+// Sends a test message through the channel as currently edited (saved or not)
+export const testNotificationChannel = (channel: NotificationChannel): Promise<TradeActionResult> =>
+  request('/api/settings/channels/test', parseTradeActionResult, post({ channel }));
+
+export const saveStrategyScoring = (scoring: StrategyScoring): Promise<TradeActionResult> =>
+  request('/api/settings/strategy', parseTradeActionResult, post(scoring));
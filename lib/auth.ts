@@ -0,0 +1,113 @@
+/*
+ * AUTHENTICATION
+ * ==============
+ *
+ * The backend owns users and sessions; the web app keeps the session token in
+ * localStorage and lib/api.ts sends it as "Authorization: Bearer <token>" on
+ * every call (and as ?token= on the event stream), so trade status, trades and
+ * notification settings are scoped to the signed-in user.
+ *
+ * SIGN-IN PROVIDERS (NEXT_PUBLIC_AUTH_PROVIDERS, comma separated):
+ * - email   - magic link: POST /api/auth/magic-link, the emailed link opens
+ *             /login/verify?token=... which exchanges it at POST /api/auth/verify
+ * - google, github - OAuth handled by the backend (GET /api/auth/oauth/{provider}),
+ *             which redirects back to /login/verify?token=...
+ * - local   - stand-in for tests/local dev: signs in as any email without a
+ *             backend round-trip; the token is "local:<email>" and only a
+ *             backend running with local auth enabled accepts it
+ */
+
+import { useEffect, useState } from 'react';
+import { AUTH_PROVIDER_LIST } from './config';
+import * as db from './db';
+import type { AuthSession } from './types';
+
+export type AuthProvider = 'email' | 'google' | 'github' | 'local';
+
+export const AUTH_PROVIDERS = AUTH_PROVIDER_LIST
+  .split(',')
+  .map(p => p.trim())
+  .filter((p): p is AuthProvider => ['email', 'google', 'github', 'local'].includes(p));
+
+export const OAUTH_PROVIDERS: { provider: AuthProvider; label: string; icon: string }[] = [
+  { provider: 'google', label: 'Google', icon: '🔵' },
+  { provider: 'github', label: 'GitHub', icon: '🐙' }
+];
+
+const SESSION_KEY = 'fx-session';
+
+// Fired on window when this tab signs in or out ('storage' covers other tabs)
+const SESSION_CHANGED_EVENT = 'fx-session-changed';
+
+export function getSession(): AuthSession | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const session: AuthSession | null = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    if (session?.expires_at && new Date(session.expires_at).getTime() < Date.now()) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+// Set once the rows saved before sign-in existed (no user_id) have been given to a user
+const LEGACY_CLAIMED_KEY = 'fx-legacy-rows-claimed';
+
+// Id of the signed-in user, whose rows are the only ones the journal, paper trades, snapshots and
+// backtests list. The first user to ask for them on this browser claims the untagged rows, once.
+export function storageOwner(): string | undefined {
+  const userId = getSession()?.user.id;
+  if (userId && db.available() && !localStorage.getItem(LEGACY_CLAIMED_KEY)) {
+    localStorage.setItem(LEGACY_CLAIMED_KEY, userId);
+    db.claimUntagged(userId).catch(err => {
+      localStorage.removeItem(LEGACY_CLAIMED_KEY);
+      console.error('Failed to claim the rows saved before sign-in:', err);
+    });
+  }
+  return userId;
+}
+
+export function setSession(session: AuthSession | null) {
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEY);
+  window.dispatchEvent(new Event(SESSION_CHANGED_EVENT));
+}
+
+export const localSession = (email: string): AuthSession => ({
+  token: `local:${email}`,
+  user: { id: email, email }
+});
+
+// Page to return to after sign-in - only same-site paths, never another origin. Parsed the way the
+// browser will, which reads /\evil.com and /<tab>/evil.com as //evil.com
+const REDIRECT_BASE = 'http://same.site';
+
+export function safeRedirect(next: string | null): string {
+  if (!next?.startsWith('/')) return '/';
+  try {
+    const url = new URL(next, REDIRECT_BASE);
+    return url.origin === REDIRECT_BASE ? `${url.pathname}${url.search}${url.hash}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+export const displayName = (user: { email: string; name?: string }) => user.name || user.email;
+
+// undefined until read after mount (so server and first client render match), then the session or null
+export function useSession(): AuthSession | null | undefined {
+  const [session, setSessionState] = useState<AuthSession | null | undefined>(undefined);
+
+  useEffect(() => {
+    const refresh = () => setSessionState(getSession());
+    refresh();
+    window.addEventListener(SESSION_CHANGED_EVENT, refresh);
+    window.addEventListener('storage', refresh);
+    return () => {
+      window.removeEventListener(SESSION_CHANGED_EVENT, refresh);
+      window.removeEventListener('storage', refresh);
+    };
+  }, []);
+
+  return session;
+}
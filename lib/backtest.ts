@@ -0,0 +1,334 @@
+/*
+ * BACKTEST RESULTS
+ * ================
+ *
+ * Backtest runs of the confluence strategy, imported from result files on
+ * /backtests and kept in IndexedDB (lib/db.ts), tagged with the signed-in
+ * user like the journal. A file holds one run - the trades plus the
+ * parameters it was run with:
+ *
+ * - JSON: { name?, pair, strategy?, parameters?: {...}, trades: [...] }
+ * - CSV:  `# key: value` lines first (pair, name, strategy; any other key is a
+ *         parameter), then a header row and one trade per row. Confluence
+ *         types are separated by `|`.
+ *
+ * Trade fields: opened_at, closed_at, direction (LONG/SHORT), entry_price,
+ * exit_price, stop_loss, plus optional r_multiple, pnl, score, pattern_type,
+ * confluences and exit_reason. Everything is measured in R so runs with
+ * different sizing compare; r_multiple is worked out from the prices when the
+ * file has none. Files are checked with the lib/schema.ts primitives and a
+ * bad field fails the import with its path (e.g. `trades[3].exit_price`).
+ */
+
+import { maxDrawdown } from './analytics';
+import { getSession, storageOwner } from './auth';
+import * as db from './db';
+import { newId } from './journal';
+import { PAIRS, getPair } from './pairs';
+import { SchemaError, array, number, object, optional, string } from './schema';
+import { directionSign } from './trade';
+import type { TradeDirection } from './types';
+
+export type ParameterValue = string | number | boolean;
+
+export interface BacktestTrade {
+  opened_at: string;
+  closed_at: string;
+  direction: TradeDirection;
+  entry_price: number;
+  exit_price: number;
+  stop_loss: number;
+  r_multiple: number;
+  pnl?: number;
+  score?: number;
+  pattern_type?: string;
+  confluences: string[];   // confluence types present at entry
+  exit_reason?: string;
+}
+
+export interface BacktestRun {
+  id: string;
+  user_id?: string;
+  name: string;
+  pair: string;            // pair slug, see lib/pairs.ts
+  strategy: string;
+  parameters: Record<string, ParameterValue>;
+  file_name: string;
+  imported_at: string;
+  trades: BacktestTrade[];
+}
+
+export type ParsedBacktest = Omit<BacktestRun, 'id' | 'user_id' | 'imported_at'>;
+
+export const DEFAULT_STRATEGY = 'confluence';
+
+// ---- Parsing ----
+
+const optionalNumber = optional(number);
+const optionalString = optional(string);
+
+function parseTrade(value: unknown, path: string): BacktestTrade {
+  const trade = object(value, path);
+  const direction = string(trade.direction, `${path}.direction`).toUpperCase();
+  if (direction !== 'LONG' && direction !== 'SHORT') throw new SchemaError(`${path}.direction`, 'LONG or SHORT', direction);
+
+  const entry = number(trade.entry_price, `${path}.entry_price`);
+  const exit = number(trade.exit_price, `${path}.exit_price`);
+  const stop = number(trade.stop_loss, `${path}.stop_loss`);
+  let r = optionalNumber(trade.r_multiple, `${path}.r_multiple`);
+  if (r === undefined) {
+    if (entry === stop) throw new SchemaError(`${path}.stop_loss`, 'a stop away from entry (or an r_multiple)', stop);
+    r = ((exit - entry) * directionSign(direction)) / Math.abs(entry - stop);
+  }
+
+  const confluences = typeof trade.confluences === 'string'
+    ? trade.confluences.split('|').map(c => c.trim()).filter(Boolean)
+    : (optional(array)(trade.confluences, `${path}.confluences`) ?? []).map((c, i) => string(c, `${path}.confluences[${i}]`));
+
+  return {
+    opened_at: string(trade.opened_at, `${path}.opened_at`),
+    closed_at: string(trade.closed_at, `${path}.closed_at`),
+    direction,
+    entry_price: entry,
+    exit_price: exit,
+    stop_loss: stop,
+    r_multiple: r,
+    pnl: optionalNumber(trade.pnl, `${path}.pnl`),
+    score: optionalNumber(trade.score, `${path}.score`),
+    pattern_type: optionalString(trade.pattern_type, `${path}.pattern_type`),
+    confluences,
+    exit_reason: optionalString(trade.exit_reason, `${path}.exit_reason`)
+  };
+}
+
+function parseRun(fields: Record<string, unknown>, parameters: Record<string, unknown>, trades: unknown[], fileName: string, tradePath: (i: number) => string): ParsedBacktest {
+  const pair = string(fields.pair, 'pair');
+  if (!getPair(pair)) throw new SchemaError('pair', `one of ${PAIRS.map(p => p.slug).join(', ')}`, pair);
+  Object.entries(parameters).forEach(([key, value]) => {
+    if (!['string', 'number', 'boolean'].includes(typeof value)) throw new SchemaError(`parameters.${key}`, 'string, number or boolean', value);
+  });
+
+  return {
+    name: optionalString(fields.name, 'name') || fileName.replace(/\.(json|csv)$/i, ''),
+    pair,
+    strategy: optionalString(fields.strategy, 'strategy') || DEFAULT_STRATEGY,
+    parameters: parameters as Record<string, ParameterValue>,
+    file_name: fileName,
+    trades: trades.map((trade, i) => parseTrade(trade, tradePath(i)))
+  };
+}
+
+// Splits one CSV line; fields may be quoted, with "" for a quote inside
+function csvFields(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') field += line[++i];
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else field += char;
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+const NUMERIC_COLUMNS = ['entry_price', 'exit_price', 'stop_loss', 'r_multiple', 'pnl', 'score'];
+
+// CSV cells are text - numbers and true/false become values, blanks become missing fields
+const csvValue = (text: string): ParameterValue | undefined =>
+  text === '' ? undefined : text === 'true' ? true : text === 'false' ? false : isNaN(Number(text)) ? text : Number(text);
+
+function parseCsv(text: string, fileName: string): ParsedBacktest {
+  const lines = text.split(/\r?\n/).map((line, i) => ({ line, number: i + 1 })).filter(l => l.line.trim() !== '');
+  const meta: Record<string, unknown> = {};
+  const rows = lines.filter(({ line }) => {
+    const match = line.match(/^#\s*([\w.-]+)\s*[:=]\s*(.*)$/);
+    if (match) meta[match[1]] = csvValue(match[2].trim());
+    return !line.startsWith('#');
+  });
+  if (rows.length === 0) throw new SchemaError('header', 'a header row', undefined);
+
+  const header = csvFields(rows[0].line);
+  const trades = rows.slice(1).map(({ line }) => {
+    const cells = csvFields(line);
+    return Object.fromEntries(header.map((column, i) => {
+      const cell = cells[i] ?? '';
+      // Numeric columns keep bad text so the check reports it
+      return [column, NUMERIC_COLUMNS.includes(column) ? (cell === '' ? undefined : isNaN(Number(cell)) ? cell : Number(cell)) : cell || undefined];
+    }));
+  });
+
+  const { pair, name, strategy, ...parameters } = meta;
+  return parseRun({ pair, name, strategy }, parameters, trades, fileName, i => `line ${rows[i + 1].number}`);
+}
+
+function parseJson(text: string, fileName: string): ParsedBacktest {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Not valid JSON: ${err instanceof Error ? err.message : err}`);
+  }
+  const run = object(value, 'file');
+  const parameters = optional(object)(run.parameters, 'parameters') ?? {};
+  return parseRun(run, parameters, array(run.trades, 'trades'), fileName, i => `trades[${i}]`);
+}
+
+export const parseBacktestFile = (fileName: string, text: string): ParsedBacktest =>
+  fileName.toLowerCase().endsWith('.csv') || !text.trimStart().startsWith('{') ? parseCsv(text, fileName) : parseJson(text, fileName);
+
+// ---- Statistics (in R) ----
+
+export interface BacktestStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;           // 0-100
+  avgR: number;
+  totalR: number;
+  profitFactor: number;      // gross R won / gross R lost (Infinity with no losses)
+  maxDrawdownR: number;
+  longestLosingStreak: number;
+  totalPnl?: number;         // only when every trade has a pnl
+}
+
+export interface RPoint {
+  time: string;              // closed_at
+  equity: number;            // cumulative R
+  drawdown: number;          // R below the running peak
+}
+
+export interface RBucket {
+  label: string;
+  count: number;
+  loss: boolean;             // every R in the bucket is below 0
+}
+
+export interface ConfluenceContribution {
+  type: string;
+  trades: number;
+  winRate: number;
+  avgR: number;
+  totalR: number;
+  edge: number | null;       // avg R with the confluence minus without it; null when every trade had it
+}
+
+export interface ParameterChange {
+  key: string;
+  a?: ParameterValue;
+  b?: ParameterValue;
+  changed: boolean;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const average = (values: number[]) => (values.length ? sum(values) / values.length : 0);
+
+const byCloseTime = (a: BacktestTrade, b: BacktestTrade) => a.closed_at.localeCompare(b.closed_at);
+
+export function rEquity(trades: BacktestTrade[]): RPoint[] {
+  let equity = 0;
+  let peak = 0;
+  return [...trades].sort(byCloseTime).map(t => {
+    equity += t.r_multiple;
+    peak = Math.max(peak, equity);
+    return { time: t.closed_at, equity, drawdown: peak - equity };
+  });
+}
+
+export function backtestStats(trades: BacktestTrade[]): BacktestStats {
+  const rs = [...trades].sort(byCloseTime).map(t => t.r_multiple);
+  const grossWon = sum(rs.filter(r => r > 0));
+  const grossLost = Math.abs(sum(rs.filter(r => r < 0)));
+
+  let streak = 0;
+  let longestLosingStreak = 0;
+  rs.forEach(r => {
+    streak = r < 0 ? streak + 1 : 0;
+    longestLosingStreak = Math.max(longestLosingStreak, streak);
+  });
+
+  return {
+    trades: rs.length,
+    wins: rs.filter(r => r > 0).length,
+    losses: rs.filter(r => r < 0).length,
+    winRate: rs.length ? (rs.filter(r => r > 0).length / rs.length) * 100 : 0,
+    avgR: average(rs),
+    totalR: sum(rs),
+    profitFactor: grossLost > 0 ? grossWon / grossLost : grossWon > 0 ? Infinity : 0,
+    maxDrawdownR: maxDrawdown(rEquity(trades)),
+    longestLosingStreak,
+    ...(trades.length > 0 && trades.every(t => t.pnl !== undefined) ? { totalPnl: sum(trades.map(t => t.pnl!)) } : {})
+  };
+}
+
+// Whole-R buckets from below -2R to 5R and above
+export function rDistribution(trades: BacktestTrade[]): RBucket[] {
+  const buckets: RBucket[] = [
+    { label: '< -2R', count: 0, loss: true },
+    ...[-2, -1, 0, 1, 2, 3, 4].map(low => ({ label: `${low}R to ${low + 1}R`, count: 0, loss: low < 0 })),
+    { label: '≥ 5R', count: 0, loss: false }
+  ];
+  trades.forEach(t => {
+    buckets[Math.min(buckets.length - 1, Math.max(0, Math.floor(t.r_multiple) + 3))].count++;
+  });
+  return buckets;
+}
+
+// How each confluence type did - trades that had it, and how much better they were than trades without it
+export function confluenceContribution(trades: BacktestTrade[]): ConfluenceContribution[] {
+  const types = [...new Set(trades.flatMap(t => t.confluences))];
+  return types
+    .map(type => {
+      const rs = trades.filter(t => t.confluences.includes(type)).map(t => t.r_multiple);
+      const without = trades.filter(t => !t.confluences.includes(type)).map(t => t.r_multiple);
+      return {
+        type,
+        trades: rs.length,
+        winRate: (rs.filter(r => r > 0).length / rs.length) * 100,
+        avgR: average(rs),
+        totalR: sum(rs),
+        edge: without.length ? average(rs) - average(without) : null
+      };
+    })
+    .sort((a, b) => b.totalR - a.totalR);
+}
+
+export function parameterDiff(a: BacktestRun, b: BacktestRun): ParameterChange[] {
+  const keys = [...new Set([...Object.keys(a.parameters), ...Object.keys(b.parameters)])].sort();
+  return keys.map(key => ({ key, a: a.parameters[key], b: b.parameters[key], changed: a.parameters[key] !== b.parameters[key] }));
+}
+
+export const formatR = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`;
+
+export const formatFactor = (value: number) => (value === Infinity ? '∞' : value.toFixed(2));
+
+// ---- Storage ----
+
+export const listBacktests = async (): Promise<BacktestRun[]> => {
+  const userId = storageOwner();
+  const runs = await db.getAll<BacktestRun>('backtests');
+  return runs
+    .filter(r => userId !== undefined && r.user_id === userId)
+    .sort((a, b) => b.imported_at.localeCompare(a.imported_at));
+};
+
+export async function importBacktestFile(fileName: string, text: string): Promise<BacktestRun> {
+  const run: BacktestRun = {
+    ...parseBacktestFile(fileName, text),
+    id: newId(),
+    user_id: getSession()?.user.id,
+    imported_at: new Date().toISOString()
+  };
+  await db.put('backtests', run);
+  return run;
+}
+
+export const deleteBacktest = (id: string) => db.remove('backtests', id);
@@ -0,0 +1,140 @@
+/*
+ * NOTIFICATION CHANNELS
+ * =====================
+ *
+ * Outbound alert destinations besides Telegram. The backend does the sending
+ * (webhook URLs and SMTP passwords stay server-side once saved); this module
+ * describes each channel kind for the settings form and renders the message
+ * templates for the preview.
+ *
+ * Adding a channel kind is a new entry in CHANNEL_KINDS - the settings form
+ * is generated from its fields.
+ *
+ * TEMPLATES: {{placeholder}} is replaced with a setup field, see TEMPLATE_FIELDS.
+ */
+
+import { PairConfig, formatPrice } from './pairs';
+import type { NotificationChannel, NotificationChannelKind, TraderSetup, TraderSide } from './types';
+
+export interface ChannelField {
+  key: string;
+  label: string;
+  type: 'text' | 'url' | 'email' | 'number' | 'password';
+  placeholder?: string;
+  required?: boolean;
+  secret?: boolean;          // write-only: the backend reports it as set, never returns it
+}
+
+export interface ChannelKindConfig {
+  kind: NotificationChannelKind;
+  name: string;
+  icon: string;
+  fields: ChannelField[];
+  defaultTemplate: string;
+}
+
+export const TEMPLATE_FIELDS = [
+  'pair', 'direction', 'setup_status', 'pattern_type', 'total_score', 'confidence',
+  'entry', 'stop_loss', 'take_profit_1', 'take_profit_2', 'current_price'
+] as const;
+
+export type TemplateValues = Record<(typeof TEMPLATE_FIELDS)[number], string>;
+
+const CHAT_TEMPLATE = '**{{pair}} {{direction}}** - {{setup_status}}\n' +
+  'Pattern: {{pattern_type}} | Score: {{total_score}} ({{confidence}})\n' +
+  'Entry {{entry}} | SL {{stop_loss}} | TP1 {{take_profit_1}} | TP2 {{take_profit_2}}';
+
+export const CHANNEL_KINDS: ChannelKindConfig[] = [
+  {
+    kind: 'discord',
+    name: 'Discord',
+    icon: '🎮',
+    fields: [
+      { key: 'webhook_url', label: 'Webhook URL', type: 'url', placeholder: 'https://discord.com/api/webhooks/...', required: true, secret: true }
+    ],
+    defaultTemplate: CHAT_TEMPLATE
+  },
+  {
+    kind: 'slack',
+    name: 'Slack',
+    icon: '💬',
+    fields: [
+      { key: 'webhook_url', label: 'Incoming Webhook URL', type: 'url', placeholder: 'https://hooks.slack.com/services/...', required: true, secret: true }
+    ],
+    // Slack mrkdwn uses single asterisks for bold
+    defaultTemplate: CHAT_TEMPLATE.replace(/\*\*/g, '*')
+  },
+  {
+    kind: 'email',
+    name: 'Email (SMTP)',
+    icon: '📧',
+    fields: [
+      { key: 'smtp_host', label: 'SMTP Host', type: 'text', placeholder: 'smtp.gmail.com', required: true },
+      { key: 'smtp_port', label: 'SMTP Port', type: 'number', placeholder: '587', required: true },
+      { key: 'username', label: 'Username', type: 'text' },
+      { key: 'password', label: 'Password', type: 'password', secret: true },
+      { key: 'from', label: 'From', type: 'email', placeholder: 'alerts@example.com', required: true },
+      { key: 'to', label: 'To', type: 'email', placeholder: 'you@example.com', required: true },
+      { key: 'subject', label: 'Subject', type: 'text', placeholder: '{{pair}} {{direction}} setup {{setup_status}}' }
+    ],
+    defaultTemplate: '{{pair}} {{direction}} setup is {{setup_status}}\n\n' +
+      'Pattern: {{pattern_type}}\nConfluence score: {{total_score}} ({{confidence}})\n\n' +
+      'Entry: {{entry}}\nStop loss: {{stop_loss}}\nTake profit 1: {{take_profit_1}}\nTake profit 2: {{take_profit_2}}'
+  },
+  {
+    kind: 'webhook',
+    name: 'Generic Webhook',
+    icon: '🔗',
+    fields: [
+      { key: 'url', label: 'URL', type: 'url', placeholder: 'https://example.com/hooks/fx', required: true, secret: true },
+      { key: 'secret', label: 'Signing Secret', type: 'password', secret: true }
+    ],
+    // Sent as the JSON request body
+    defaultTemplate: '{"pair": "{{pair}}", "direction": "{{direction}}", "status": "{{setup_status}}", ' +
+      '"pattern": "{{pattern_type}}", "score": {{total_score}}, "entry": "{{entry}}", ' +
+      '"stop_loss": "{{stop_loss}}", "take_profit_1": "{{take_profit_1}}", "take_profit_2": "{{take_profit_2}}"}'
+  }
+];
+
+export const channelKind = (kind: NotificationChannelKind) => CHANNEL_KINDS.find(c => c.kind === kind)!;
+
+export const newChannel = (kind: NotificationChannelKind): NotificationChannel => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  kind,
+  name: channelKind(kind).name,
+  enabled: true,
+  config: {},
+  template: channelKind(kind).defaultTemplate
+});
+
+// Required fields still empty; secrets already saved on the backend count as set
+export const missingFields = (channel: NotificationChannel) =>
+  channelKind(channel.kind).fields
+    .filter(f => f.required && !channel.config[f.key] && !channel.secrets_set?.includes(f.key))
+    .map(f => f.label);
+
+const levelText = (pair: PairConfig, value?: string | number) =>
+  value === undefined || value === '' ? '—' : typeof value === 'number' ? formatPrice(pair, value) : value;
+
+export function templateValues(pair: PairConfig, side: TraderSide, setup: TraderSetup): TemplateValues {
+  const plan = setup.trade_plan;
+  return {
+    pair: pair.displayName,
+    direction: side === 'bullish' ? 'BUY' : 'SELL',
+    setup_status: setup.setup_status,
+    pattern_type: setup.pattern_type?.replace(/_/g, ' ') || '—',
+    total_score: String(setup.total_score ?? 0),
+    confidence: setup.confidence || '—',
+    entry: levelText(pair, plan.entry_price),
+    stop_loss: levelText(pair, plan.stop_loss?.price),
+    take_profit_1: levelText(pair, plan.take_profit_1?.price),
+    take_profit_2: levelText(pair, plan.take_profit_2?.price),
+    current_price: formatPrice(pair, setup.current_price)
+  };
+}
+
+// Unknown placeholders are left as-is so typos are visible in the preview
+export const renderTemplate = (template: string, values: TemplateValues) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? values[key as keyof TemplateValues] : match
+  );
@@ -0,0 +1,70 @@
+/*
+ * CHART OVERLAYS
+ * ==============
+ *
+ * Turns a trader setup (and the open trade, if any) into the horizontal levels
+ * drawn on the Pro Trader price chart.
+ */
+
+import { parsePrice } from './trade';
+import type { ActiveTradeStatus, TraderSetup } from './types';
+
+export type ChartLevelKind = 'entry' | 'stop' | 'target' | 'zone' | 'live' | 'invalidation';
+
+export interface ChartLevel {
+  price: number;
+  title: string;
+  kind: ChartLevelKind;
+}
+
+export const LEVEL_COLORS: Record<ChartLevelKind, string> = {
+  entry: '#a78bfa',
+  stop: '#ef4444',
+  target: '#22c55e',
+  zone: '#38bdf8',
+  live: '#9ca3af',
+  invalidation: '#f97316'
+};
+
+const toPrice = (value?: string | number) => {
+  if (value === undefined) return NaN;
+  return typeof value === 'number' ? value : parsePrice(value);
+};
+
+export function setupLevels(setup: TraderSetup, trade?: ActiveTradeStatus | null): ChartLevel[] {
+  const levels: ChartLevel[] = [];
+  const add = (price: number | undefined, title: string, kind: ChartLevelKind) => {
+    if (price !== undefined && !isNaN(price)) levels.push({ price, title, kind });
+  };
+
+  // Open trade levels take precedence over the plan
+  if (trade) {
+    add(trade.entry_price, 'Entry', 'entry');
+    add(trade.stop_loss, 'SL', 'stop');
+    add(trade.take_profit_1, 'TP1', 'target');
+    add(trade.take_profit_2, 'TP2', 'target');
+  } else {
+    const plan = setup.trade_plan;
+    add(toPrice(plan.entry_price), 'Entry', 'entry');
+    add(toPrice(plan.stop_loss?.price), 'SL', 'stop');
+    add(toPrice(plan.take_profit_1?.price), 'TP1', 'target');
+    add(toPrice(plan.take_profit_2?.price), 'TP2', 'target');
+  }
+
+  setup.confluences.forEach(confluence => {
+    const name = confluence.type.replace(/_/g, ' ');
+    add(confluence.zone_high, `${name} high`, 'zone');
+    add(confluence.zone_low, `${name} low`, 'zone');
+    add(confluence.price_level, name, 'zone');
+  });
+
+  if (setup.live_candle) {
+    add(setup.live_candle.high, 'Live H', 'live');
+    add(setup.live_candle.low, 'Live L', 'live');
+    add(setup.live_candle.open, 'Live O', 'live');
+  }
+
+  setup.invalidation?.forEach(condition => add(condition.price_level, 'Invalidation', 'invalidation'));
+
+  return levels;
+}
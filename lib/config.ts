@@ -0,0 +1,100 @@
+/*
+ * APP CONFIGURATION
+ * =================
+ *
+ * The one place environment variables are read. Every backend call goes
+ * through the /api proxy (lib/proxy.ts), so the browser never needs a backend
+ * URL - it only knows which named environment it is talking to.
+ *
+ * ENVIRONMENTS:
+ * - local      - backend on this machine (LOCAL_BACKEND_URL, default http://localhost:8002)
+ * - staging    - STAGING_BACKEND_URL
+ * - production - PRODUCTION_BACKEND_URL
+ * - mock       - no backend; the proxy answers from recorded fixtures (lib/mock/backend.ts)
+ *
+ * NEXT_PUBLIC_APP_ENV picks the environment of a build (default local) and
+ * BACKEND_URL, when set, overrides that environment's URL. In development
+ * (or with NEXT_PUBLIC_ENV_SWITCHER=true) the header badge can switch
+ * environments at runtime: the choice is stored in the fx-env cookie, which
+ * the proxy reads on every request - cookies also ride along on EventSource.
+ *
+ * Backend URLs are read from server-only variables, so they stay undefined in
+ * the browser bundle.
+ */
+
+export type EnvironmentName = 'local' | 'staging' | 'production' | 'mock';
+
+export interface EnvironmentConfig {
+  name: EnvironmentName;
+  label: string;
+  badge: string;           // Badge classes - full names so Tailwind picks them up
+}
+
+export const ENVIRONMENTS: EnvironmentConfig[] = [
+  { name: 'local', label: 'LOCAL', badge: 'bg-blue-900 border-blue-500 text-blue-200' },
+  { name: 'staging', label: 'STAGING', badge: 'bg-yellow-900 border-yellow-500 text-yellow-200' },
+  { name: 'production', label: 'PRODUCTION', badge: 'bg-green-900 border-green-500 text-green-200' },
+  { name: 'mock', label: 'MOCK DATA', badge: 'bg-pink-900 border-pink-500 text-pink-200' }
+];
+
+export const ENVIRONMENT_COOKIE = 'fx-env';
+
+export const isEnvironmentName = (value: unknown): value is EnvironmentName =>
+  ENVIRONMENTS.some(env => env.name === value);
+
+export const environmentConfig = (name: EnvironmentName) =>
+  ENVIRONMENTS.find(env => env.name === name) || ENVIRONMENTS[0];
+
+const configuredEnvironment = process.env.NEXT_PUBLIC_APP_ENV;
+
+export const DEFAULT_ENVIRONMENT: EnvironmentName = isEnvironmentName(configuredEnvironment) ? configuredEnvironment : 'local';
+
+export const ENVIRONMENT_SWITCHING =
+  process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_ENV_SWITCHER === 'true';
+
+// ---- Feature flags ----
+
+export const STREAMING_ENABLED = process.env.NEXT_PUBLIC_STREAMING !== 'false';
+
+// Synthetic candles in the browser when the backend has no /candles endpoint yet
+export const CANDLE_FIXTURES = process.env.NEXT_PUBLIC_CANDLE_FIXTURES === 'true';
+
+export const AUTH_PROVIDER_LIST = process.env.NEXT_PUBLIC_AUTH_PROVIDERS || 'email';
+
+// ---- Runtime environment choice ----
+
+export const readCookie = (cookieHeader: string | null | undefined, name: string) =>
+  cookieHeader
+    ?.split(';')
+    .map(part => part.trim().split('='))
+    .find(([key]) => key === name)?.[1];
+
+// Environment a request (server) or the page (browser, pass document.cookie) is using
+export function activeEnvironment(cookieHeader: string | null | undefined): EnvironmentName {
+  if (!ENVIRONMENT_SWITCHING) return DEFAULT_ENVIRONMENT;
+  const chosen = readCookie(cookieHeader, ENVIRONMENT_COOKIE);
+  return isEnvironmentName(chosen) ? chosen : DEFAULT_ENVIRONMENT;
+}
+
+// Browser only - switching back to the build's environment clears the cookie
+export function switchEnvironment(name: EnvironmentName) {
+  document.cookie = name === DEFAULT_ENVIRONMENT
+    ? `${ENVIRONMENT_COOKIE}=; path=/; max-age=0`
+    : `${ENVIRONMENT_COOKIE}=${name}; path=/; max-age=${60 * 60 * 24 * 365}; samesite=lax`;
+}
+
+// ---- Server only ----
+
+// Backend for an environment; null for mock, undefined when the URL is not configured
+export function backendUrl(name: EnvironmentName): string | null | undefined {
+  if (name === 'mock') return null;
+  const override = name === DEFAULT_ENVIRONMENT ? process.env.BACKEND_URL : undefined;
+  switch (name) {
+    case 'local':
+      return override || process.env.LOCAL_BACKEND_URL || 'http://localhost:8002';
+    case 'staging':
+      return override || process.env.STAGING_BACKEND_URL;
+    case 'production':
+      return override || process.env.PRODUCTION_BACKEND_URL;
+  }
+}
@@ -0,0 +1,129 @@
+/*
+ * BROWSER STORAGE (IndexedDB)
+ * ===========================
+ *
+ * Minimal promise wrapper around IndexedDB for data the web app keeps on the
+ * user's machine (trade journal, screenshots, paper trades, analysis
+ * snapshots, backtest runs). Bump DB_VERSION and add the store to STORES
+ * (and any index to INDEXES) when a new feature needs its own object store.
+ * Where the browser has no IndexedDB (server render, tests), available() is
+ * false and every call rejects.
+ *
+ * Every store holds rows tagged with the signed-in user's id (user_id); rows
+ * saved before sign-in existed have none until claimUntagged() tags them.
+ */
+
+const DB_NAME = 'fx-trading-web';
+const DB_VERSION = 6;
+
+export type StoreName = 'journal' | 'paper' | 'snapshots' | 'backtests';
+
+const STORES: StoreName[] = ['journal', 'paper', 'snapshots', 'backtests'];
+
+// Compound indexes by store - name to key path. An upgrade drops indexes no longer listed here.
+// Rows without user_id are left out of user_ indexes until claimUntagged() tags them.
+export const INDEXES: Partial<Record<StoreName, Record<string, string[]>>> = {
+  snapshots: { user_pair_side_time: ['user_id', 'pair', 'side', 'time'] }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const available = () => typeof indexedDB !== 'undefined';
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORES.forEach(name => {
+          const store = request.result.objectStoreNames.contains(name)
+            ? request.transaction!.objectStore(name)
+            : request.result.createObjectStore(name, { keyPath: 'id' });
+          const indexes = INDEXES[name] ?? {};
+          [...store.indexNames].filter(index => !(index in indexes)).forEach(index => store.deleteIndex(index));
+          Object.entries(indexes).forEach(([index, keyPath]) => {
+            if (!store.indexNames.contains(index)) store.createIndex(index, keyPath);
+          });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const getAll = <T>(store: StoreName) => run<T[]>(store, 'readonly', s => s.getAll());
+
+export const get = <T>(store: StoreName, id: string) => run<T | undefined>(store, 'readonly', s => s.get(id));
+
+export const put = <T>(store: StoreName, value: T) => run<IDBValidKey>(store, 'readwrite', s => s.put(value));
+
+export const remove = (store: StoreName, id: string) => run<undefined>(store, 'readwrite', s => s.delete(id));
+
+// Keys of a compound index that start with prefix - [] sorts after every other key part
+const prefixRange = (prefix: IDBValidKey[]) => IDBKeyRange.bound(prefix, [...prefix, []]);
+
+export const count = (store: StoreName, index: string, prefix: IDBValidKey[]) =>
+  run<number>(store, 'readonly', s => s.index(index).count(prefixRange(prefix)));
+
+// Value with the highest index key under prefix (the newest, for a time-ordered index)
+export async function findLast<T>(store: StoreName, index: string, prefix: IDBValidKey[]): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(store, 'readonly').objectStore(store).index(index).openCursor(prefixRange(prefix), 'prev');
+    request.onsuccess = () => resolve(request.result?.value as T | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Deletes the first n values under prefix in index order (the oldest, for a time-ordered index) in one transaction
+export async function removeFirst(store: StoreName, index: string, prefix: IDBValidKey[], n: number): Promise<void> {
+  if (n <= 0) return;
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, 'readwrite');
+    const request = transaction.objectStore(store).index(index).openCursor(prefixRange(prefix));
+    let removed = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      cursor.delete();
+      if (++removed < n) cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Tags every row without a user_id with userId, in one transaction. Transactions run in the order they
+// are created, so reads started after this call already see the claimed rows.
+export async function claimUntagged(userId: string): Promise<void> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORES, 'readwrite');
+    STORES.forEach(name => {
+      const request = transaction.objectStore(name).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if (!cursor.value.user_id) cursor.update({ ...cursor.value, user_id: userId });
+        cursor.continue();
+      };
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,263 @@
+/*
+ * ANALYSIS FIXTURES
+ * =================
+ *
+ * Pro Trader setups and open trades shaped like recorded backend responses
+ * (/api/pro-trader-{slug}/analysis, /trade-status and /history), used by the
+ * mock backend scenarios (lib/mock/scenarios.ts). Levels are laid out around each
+ * pair's fixture price so the trade plan, chart overlays and position sizing
+ * behave like they do against the real backend.
+ */
+
+import { PairConfig, formatPrice } from '../pairs';
+import type { ActiveTradeStatus, AnalysisSnapshot, Candle, Confluence, SetupStep, TraderSetup, TraderSide } from '../types';
+
+export type FixtureStatus = 'SCANNING' | 'RETEST_WAITING' | 'READY';
+
+// Price each pair's fixtures (and fixture candles) are anchored at
+export const FIXTURE_PRICES: Record<string, number> = {
+  gold: 2650.4,
+  eurusd: 1.0852,
+  gbpusd: 1.2714
+};
+
+export const fixturePrice = (pair: PairConfig) => FIXTURE_PRICES[pair.slug] ?? 100;
+
+const round = (pair: PairConfig, price: number) => Number(price.toFixed(pair.decimals));
+
+// Trade plan levels of a side: entry a quarter of the risk back from price, TP1 at 2R, TP2 at 3.5R
+export function fixtureLevels(pair: PairConfig, side: TraderSide) {
+  const price = fixturePrice(pair);
+  const direction = side === 'bullish' ? 1 : -1;
+  const risk = price * 0.004;
+  const entry = round(pair, price - direction * risk * 0.25);
+  return {
+    price,
+    direction,
+    risk,
+    entry,
+    stop: round(pair, entry - direction * risk),
+    tp1: round(pair, entry + direction * risk * 2),
+    tp2: round(pair, entry + direction * risk * 3.5)
+  };
+}
+
+function liveCandle(pair: PairConfig, price: number, direction: number) {
+  const start = new Date();
+  start.setUTCMinutes(0, 0, 0);
+  const close = new Date(start.getTime() + 60 * 60 * 1000);
+  const wick = price * 0.0008;
+  return {
+    open: round(pair, price - direction * wick),
+    high: round(pair, price + wick * (direction > 0 ? 0.4 : 1.2)),
+    low: round(pair, price - wick * (direction > 0 ? 1.2 : 0.4)),
+    current: price,
+    time_remaining: 60 - new Date().getUTCMinutes(),
+    candle_start: start.toISOString().slice(11, 16) + ' UTC',
+    candle_close_expected: close.toISOString().slice(11, 16) + ' UTC'
+  };
+}
+
+export function fixtureSetup(pair: PairConfig, side: TraderSide, status: FixtureStatus): TraderSetup {
+  const { price, direction, risk, entry, stop, tp1, tp2 } = fixtureLevels(pair, side);
+  const sweptLevel = round(pair, stop + direction * risk * 0.15);
+  const zoneLow = round(pair, Math.min(entry, entry - direction * risk * 0.3));
+  const zoneHigh = round(pair, Math.max(entry, entry - direction * risk * 0.3));
+  const fmt = (value: number) => formatPrice(pair, value);
+  const word = side === 'bullish' ? 'bullish' : 'bearish';
+  const structureType = side === 'bullish' ? 'BULLISH_BOS' : 'BEARISH_BOS';
+
+  const scanning = status === 'SCANNING';
+  const ready = status === 'READY';
+
+  const confluences: Confluence[] = scanning
+    ? [{ type: 'HTF_TREND', score: 2, description: `Daily trend is ${word}` }]
+    : [
+        { type: 'LIQUIDITY_GRAB', score: 3, description: `Swept ${side === 'bullish' ? 'sell-side' : 'buy-side'} liquidity at ${fmt(sweptLevel)}`, price_level: sweptLevel },
+        { type: 'FVG', score: 3, description: `H1 fair value gap ${fmt(zoneLow)} - ${fmt(zoneHigh)}`, zone_low: zoneLow, zone_high: zoneHigh },
+        { type: 'ORDER_BLOCK', score: 2, description: `H4 ${word} order block under the gap`, zone_low: zoneLow, zone_high: zoneHigh },
+        ...(ready ? [{ type: 'BREAKOUT_RETEST', score: 3, description: `Retest of the broken level held at ${fmt(entry)}`, price_level: entry }] : [])
+      ];
+  const totalScore = confluences.reduce((sum, c) => sum + c.score, 0);
+
+  const steps: SetupStep[] = [
+    {
+      step: 1,
+      title: 'Liquidity Grab',
+      status: scanning ? 'in_progress' : 'complete',
+      details: scanning ? `Watching for a sweep beyond ${fmt(sweptLevel)}` : `Liquidity taken at ${fmt(sweptLevel)}`,
+      explanation: 'Smart money runs the stops before the real move',
+      ...(scanning ? {
+        watching_for: {
+          sweep: { text: `Wick through ${fmt(sweptLevel)}`, status: 'waiting', current: fmt(price) },
+          rejection: { text: 'H1 close back inside the range', status: 'waiting' }
+        }
+      } : {})
+    },
+    {
+      step: 2,
+      title: 'Break of Structure',
+      status: scanning ? 'waiting' : 'complete',
+      details: scanning ? 'Needs a liquidity grab first' : `H1 closed ${side === 'bullish' ? 'above' : 'below'} the last swing`,
+      explanation: 'Confirms the sweep was a reversal, not a breakout'
+    },
+    {
+      step: 3,
+      title: 'Retest Entry',
+      status: scanning ? 'waiting' : ready ? 'complete' : 'in_progress',
+      details: `Price returning to the ${fmt(zoneLow)} - ${fmt(zoneHigh)} zone`,
+      explanation: 'Enter on the pullback into the gap, not the breakout candle',
+      ...(status === 'RETEST_WAITING' ? {
+        entry_timing: {
+          recommended: 'Wait for the H1 candle to close inside the zone',
+          early_entry: {
+            type: 'Early Entry',
+            status: 'AVAILABLE',
+            available: true,
+            trigger: `Touch of ${fmt(entry)}`,
+            entry_price: fmt(entry),
+            stop_loss: fmt(stop),
+            position_size: '50%',
+            pros: '✅ Better price\n✅ Catches fast moves',
+            cons: '⚠️ Zone may not hold'
+          },
+          confirmation_entry: {
+            type: 'Confirmation Entry',
+            trigger: `H1 ${word} close inside the zone`,
+            expected_time: 'Next H1 close',
+            time_remaining: `${60 - new Date().getUTCMinutes()} min`,
+            entry_price: fmt(entry),
+            position_size: '100%',
+            pros: '✅ Confirmed rejection',
+            cons: '⚠️ Worse price if the move is fast'
+          }
+        }
+      } : {})
+    },
+    ...(ready ? [{
+      step: 4,
+      title: 'Entry',
+      status: 'ready',
+      details: 'All confluences aligned - setup is tradable',
+      entry_options: [{
+        type: 'Market Entry',
+        entry: fmt(price),
+        stop_loss: fmt(stop),
+        take_profit: fmt(tp1),
+        risk_reward: '1:2',
+        trigger: 'Now',
+        pros: '✅ In before the move',
+        cons: '⚠️ Slightly worse than the zone'
+      }],
+      recommendation: 'Take the market entry with the full position'
+    }] : [])
+  ];
+
+  return {
+    setup_status: status,
+    pattern_type: scanning ? undefined : 'LIQUIDITY_GRAB_FVG',
+    total_score: totalScore,
+    confidence: totalScore >= 10 ? 'HIGH' : totalScore >= 7 ? 'MEDIUM' : 'LOW',
+    confluences,
+    setup_steps: steps,
+    trade_plan: scanning
+      ? { status: 'Not ready yet' }
+      : {
+          entry_price: fmt(entry),
+          entry_method: 'Limit order at the top of the gap',
+          stop_loss: { price: fmt(stop), reason: 'Beyond the swept liquidity', why: 'A move back through the sweep invalidates the setup' },
+          take_profit_1: { price: fmt(tp1), rr_ratio: '1:2', action: 'Close 50%, stop to break-even', why: 'Previous swing' },
+          take_profit_2: { price: fmt(tp2), rr_ratio: '1:3.5', action: 'Close the rest', why: 'Daily liquidity pool' }
+        },
+    current_price: price,
+    live_candle: liveCandle(pair, price, direction),
+    why_this_setup: {
+      daily: { points: [`Daily trend is ${word}`, 'Price above the weekly open'], last_updated: 'Today 00:00 UTC', next_update: 'Tomorrow 00:00 UTC' },
+      h4: { points: [`H4 ${word} order block holding`], last_updated: 'Last H4 close', next_update: 'Next H4 close' },
+      h1: { points: scanning ? ['No sweep yet'] : ['Liquidity swept', 'Structure broken', 'Gap left behind'] },
+      session: { current_session: 'London', strength: 'HIGH', explanation: 'Highest volume session for this pair' }
+    },
+    invalidation: [{
+      condition: `H1 close ${side === 'bullish' ? 'below' : 'above'} ${fmt(stop)}`,
+      reason: 'Sweep failed',
+      action: 'Cancel the setup',
+      price_level: stop
+    }],
+    structure: { structure_type: scanning ? 'NEUTRAL' : structureType, description: scanning ? 'Ranging' : `H1 ${word} break of structure` },
+    h1_setup: { pattern_type: scanning ? undefined : 'LIQUIDITY_GRAB_FVG', direction: side === 'bullish' ? 'LONG' : 'SHORT' },
+    tradable: ready
+  };
+}
+
+// Bullish story told by /history: nothing, the liquidity grab and retest wait, READY, then invalidated
+const HISTORY_STORY: { until: number; bullish: FixtureStatus; bearish: FixtureStatus }[] = [
+  { until: 0.35, bullish: 'SCANNING', bearish: 'SCANNING' },
+  { until: 0.65, bullish: 'RETEST_WAITING', bearish: 'SCANNING' },
+  { until: 0.8, bullish: 'READY', bearish: 'SCANNING' },
+  { until: 1, bullish: 'SCANNING', bearish: 'RETEST_WAITING' }
+];
+
+// One snapshot per closed H1 candle, taken as the candle closed
+export function fixtureHistory(pair: PairConfig, candles: Candle[]): AnalysisSnapshot[] {
+  return candles.map((candle, i) => {
+    const close = new Date((candle.time + 60 * 60) * 1000);
+    const { bullish, bearish } = HISTORY_STORY.find(s => i / candles.length < s.until) ?? HISTORY_STORY[HISTORY_STORY.length - 1];
+    const atClose = (setup: TraderSetup): TraderSetup => ({
+      ...setup,
+      current_price: candle.close,
+      live_candle: {
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        current: candle.close,
+        time_remaining: 0,
+        candle_start: new Date(candle.time * 1000).toISOString().slice(11, 16) + ' UTC',
+        candle_close_expected: close.toISOString().slice(11, 16) + ' UTC'
+      }
+    });
+    return {
+      time: close.toISOString(),
+      bullish: atClose(fixtureSetup(pair, 'bullish', bullish)),
+      bearish: atClose(fixtureSetup(pair, 'bearish', bearish))
+    };
+  });
+}
+
+// Open trade taken from the side's retest entry, with the alerts the backend raises while it runs
+export function fixtureTrade(pair: PairConfig, side: TraderSide): ActiveTradeStatus {
+  const { price, direction, entry, stop, tp1, tp2 } = fixtureLevels(pair, side);
+  const move = (price - entry) * direction;
+  return {
+    in_trade: true,
+    trade_direction: side === 'bullish' ? 'LONG' : 'SHORT',
+    entry_price: entry,
+    current_price: price,
+    stop_loss: stop,
+    take_profit_1: tp1,
+    take_profit_2: tp2,
+    position_size: 100,
+    pnl_pct: Number(((move / entry) * 100).toFixed(2)),
+    progress_to_tp1_pct: Math.round((move / Math.abs(tp1 - entry)) * 100),
+    time_in_trade: '2h 15m',
+    alerts: [
+      {
+        title: 'Trade running',
+        message: `Price is ${Math.round(Math.abs(move) / pair.pipSize)} pips in profit and holding above the retest zone`,
+        action: 'Hold - let it work towards TP1',
+        priority: 'LOW'
+      },
+      {
+        title: 'London close approaching',
+        message: 'Volume usually drops after the London close',
+        action: 'Consider moving the stop to break-even',
+        priority: 'MEDIUM'
+      },
+      {
+        title: 'Opposite liquidity nearby',
+        message: `Resting ${side === 'bullish' ? 'buy-side' : 'sell-side'} liquidity just before TP1 at ${formatPrice(pair, tp1)}`,
+        action: 'Expect a reaction there - TP1 closes 50%',
+        priority: 'HIGH'
+      }
+    ]
+  };
+}
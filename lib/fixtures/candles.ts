@@ -0,0 +1,57 @@
+/*
+ * CANDLE FIXTURES
+ * ===============
+ *
+ * Deterministic synthetic candles for developing the Pro Trader chart without
+ * the /candles backend endpoint. Enabled with NEXT_PUBLIC_CANDLE_FIXTURES=true.
+ * The series is a seeded random walk that ends at the given anchor price, so
+ * the trade plan and confluence overlays land on top of the candles.
+ */
+
+import { PairConfig } from '../pairs';
+import type { Candle, CandleTimeframe } from '../types';
+
+export const TIMEFRAME_SECONDS: Record<CandleTimeframe, number> = {
+  H1: 60 * 60,
+  H4: 4 * 60 * 60,
+  D1: 24 * 60 * 60
+};
+
+// Typical candle range as a fraction of price
+const VOLATILITY: Record<CandleTimeframe, number> = {
+  H1: 0.0015,
+  H4: 0.003,
+  D1: 0.007
+};
+
+// mulberry32 - small seeded PRNG so fixtures are stable between reloads
+function seededRandom(seedText: string) {
+  let seed = 0;
+  for (const char of seedText) seed = (seed * 31 + char.charCodeAt(0)) | 0;
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function fixtureCandles(pair: PairConfig, timeframe: CandleTimeframe, anchorPrice: number, count = 200): Candle[] {
+  const random = seededRandom(`${pair.slug}-${timeframe}`);
+  const step = TIMEFRAME_SECONDS[timeframe];
+  const range = anchorPrice * VOLATILITY[timeframe];
+  const lastOpen = Math.floor(Date.now() / 1000 / step) * step;
+  const round = (price: number) => parseFloat(price.toFixed(pair.decimals));
+
+  // Walk backwards from the anchor so the newest close equals the current price
+  const candles: Candle[] = [];
+  let close = anchorPrice;
+  for (let i = 0; i < count; i++) {
+    const open = close - (random() - 0.5) * range;
+    const high = Math.max(open, close) + random() * range * 0.5;
+    const low = Math.min(open, close) - random() * range * 0.5;
+    candles.unshift({ time: lastOpen - i * step, open: round(open), high: round(high), low: round(low), close: round(close) });
+    close = open;
+  }
+  return candles;
+}
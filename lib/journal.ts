@@ -0,0 +1,177 @@
+/*
+ * TRADE JOURNAL
+ * =============
+ *
+ * Every enter-trade / exit-trade the dashboard sends is also recorded here
+ * (IndexedDB, see lib/db.ts) so past trades survive page reloads. One journal
+ * entry = one trade: the 50/50 split entry and partial exits are fills on the
+ * same entry. The trade closes once the exited size reaches the entered size.
+ * Entries are tagged with the signed-in user and only listed for that user
+ * (entries recorded before sign-in existed go to the first user who signs in
+ * on the browser - see storageOwner() in lib/auth.ts).
+ */
+
+import { getSession, storageOwner } from './auth';
+import * as db from './db';
+import { directionSign } from './trade';
+import type {
+  EnterTradeRequest,
+  ExitTradeRequest,
+  TradeActionResult,
+  TradeDirection,
+  TraderSetup
+} from './types';
+
+export interface JournalFill {
+  time: string;            // ISO timestamp
+  price: number;
+  position_size: number;   // percent of the full position
+  lots?: number;           // broker size, when sized in the Enter Trade modal
+  units?: number;
+}
+
+export interface JournalExit extends JournalFill {
+  reason: string;
+  pnl?: number;            // as reported by the backend
+  pnl_pct?: number;
+}
+
+export interface JournalScreenshot {
+  id: string;
+  name: string;
+  image: Blob;
+  added_at: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  user_id?: string;        // signed-in user who took the trade
+  pair: string;            // pair slug, see lib/pairs.ts
+  direction: TradeDirection;
+  status: 'open' | 'closed';
+  pattern_type?: string;
+  confluence_score?: number;
+  confidence?: string;
+  session?: string;
+  opened_at: string;
+  closed_at?: string;
+  stop_loss: number;       // stop at entry - R multiples are measured against it
+  take_profit_1: number;
+  take_profit_2?: number;
+  risk_amount?: number;    // planned risk of the full position, account currency
+  account_currency?: string;
+  entries: JournalFill[];
+  exits: JournalExit[];
+  notes: string;
+  screenshots: JournalScreenshot[];
+}
+
+export const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// ---- Derived values ----
+
+export const positionEntered = (entry: JournalEntry) => sum(entry.entries.map(f => f.position_size));
+
+export const positionExited = (entry: JournalEntry) => sum(entry.exits.map(f => f.position_size));
+
+export const averageEntry = (entry: JournalEntry) => {
+  const size = positionEntered(entry);
+  return size > 0 ? sum(entry.entries.map(f => f.price * f.position_size)) / size : 0;
+};
+
+export const realizedPnl = (entry: JournalEntry) => sum(entry.exits.map(f => f.pnl ?? 0));
+
+// Size-weighted R of the exits so far, against the stop in place at entry
+export const rMultiple = (entry: JournalEntry): number | null => {
+  const avg = averageEntry(entry);
+  const risk = Math.abs(avg - entry.stop_loss);
+  const size = positionEntered(entry);
+  if (risk === 0 || size === 0 || entry.exits.length === 0) return null;
+
+  const sign = directionSign(entry.direction);
+  return sum(entry.exits.map(f => ((f.price - avg) * sign / risk) * (f.position_size / size)));
+};
+
+// ---- Storage ----
+
+export const listJournal = async (): Promise<JournalEntry[]> => {
+  const userId = storageOwner();
+  const entries = await db.getAll<JournalEntry>('journal');
+  return entries
+    .filter(e => userId !== undefined && e.user_id === userId)
+    .sort((a, b) => b.opened_at.localeCompare(a.opened_at));
+};
+
+export const saveJournalEntry = (entry: JournalEntry) => db.put('journal', entry);
+
+export const deleteJournalEntry = (id: string) => db.remove('journal', id);
+
+// The user's open trade on a pair, if the journal has one
+export const findOpenTrade = async (pair: string) =>
+  (await listJournal()).find(e => e.pair === pair && e.status === 'open');
+
+// Records an enter-trade: a new trade, or the confirmation 50% added to the open one
+export async function recordJournalEntry(pair: string, request: EnterTradeRequest, setup: TraderSetup | null) {
+  const now = new Date().toISOString();
+  const fill: JournalFill = {
+    time: now,
+    price: request.entry_price,
+    position_size: request.position_size,
+    lots: request.lots,
+    units: request.units
+  };
+  const open = await findOpenTrade(pair);
+
+  if (open) {
+    await saveJournalEntry({ ...open, entries: [...open.entries, fill] });
+    return;
+  }
+
+  await saveJournalEntry({
+    id: newId(),
+    user_id: getSession()?.user.id,
+    pair,
+    direction: request.trade_direction,
+    status: 'open',
+    pattern_type: setup?.pattern_type,
+    confluence_score: setup?.total_score,
+    confidence: setup?.confidence,
+    session: setup?.why_this_setup?.session?.current_session,
+    opened_at: now,
+    stop_loss: request.stop_loss,
+    take_profit_1: request.take_profit_1,
+    take_profit_2: request.take_profit_2,
+    risk_amount: request.risk_amount,
+    account_currency: request.account_currency,
+    entries: [fill],
+    exits: [],
+    notes: '',
+    screenshots: []
+  });
+}
+
+// Records an exit-trade against the open trade; closes it when fully exited
+export async function recordJournalExit(pair: string, request: ExitTradeRequest, result: TradeActionResult) {
+  const open = await findOpenTrade(pair);
+  if (!open) return;
+
+  const now = new Date().toISOString();
+  const updated: JournalEntry = {
+    ...open,
+    exits: [...open.exits, {
+      time: now,
+      price: request.exit_price,
+      position_size: request.position_size,
+      reason: request.reason,
+      pnl: result.pnl,
+      pnl_pct: result.pnl_pct
+    }]
+  };
+  if (positionExited(updated) >= positionEntered(updated)) {
+    updated.status = 'closed';
+    updated.closed_at = now;
+  }
+  await saveJournalEntry(updated);
+}
@@ -0,0 +1,340 @@
+/*
+ * MOCK BACKEND (server only)
+ * ==========================
+ *
+ * Answers /api/... for the "mock" environment (lib/config.ts) from recorded
+ * fixtures, so the app runs with no backend at all. The proxy calls
+ * mockBackend() instead of fetching upstream; responses go through the same
+ * error normalization, so pages can't tell the difference. What the
+ * pro-trader and signal endpoints return depends on the scenario picked with
+ * ?scenario= (lib/mock/scenarios.ts).
+ *
+ * - Analysis: each side in the scenario's setup status
+ * - History: hourly snapshots along the fixture candles, telling one bullish
+ *   setup from scanning to READY to invalidated (lib/fixtures/analysis.ts)
+ * - Candles: the seeded series from lib/fixtures/candles.ts, cut at ?end=
+ * - Trades: kept in memory per signed-in user (lost on restart); a scenario
+ *   with an open trade starts each user off holding it, kept per scenario until
+ *   they close it. Adding averages in, exits close part or all of it, and
+ *   stop/target edits and trailing stops apply; the trail follows the fixed
+ *   fixture price, using the ATR(14) of the fixture H1 candles
+ * - Auth: any token verifies; OAuth redirects straight back with a mock token
+ * - Settings: nothing saved; saves and tests succeed without sending anything
+ * - Stream: a price tick and both setup statuses per pair (plus the open
+ *   trade), then heartbeats
+ */
+
+import { TIMEFRAME_SECONDS, fixtureCandles } from '../fixtures/candles';
+import { fixtureHistory, fixtureLevels, fixturePrice, fixtureSetup, fixtureTrade } from '../fixtures/analysis';
+import { PairConfig, getPair } from '../pairs';
+import { trailedStop, validateOpenTradeLevels } from '../trade';
+import type {
+  ActiveTradeStatus,
+  AuthSession,
+  CandleTimeframe,
+  EnterTradeRequest,
+  ExitTradeRequest,
+  ModifyTradeRequest,
+  TradeStatus,
+  TraderSide
+} from '../types';
+import { MockScenario, requestScenario } from './scenarios';
+
+const json = (body: unknown, status = 200) => Response.json(body, { status });
+
+// FastAPI-style error body - the proxy turns it into { error: { ... } }
+const notFound = (path: string) => json({ detail: `Mock backend has no fixture for /api/${path}` }, 404);
+
+interface MockTrade extends ActiveTradeStatus {
+  units?: number;          // from the sizing sent with the entry, 0 when none was sent - unknown for a scenario's trade
+}
+
+type TradeEdits = Pick<ActiveTradeStatus, 'stop_loss' | 'take_profit_1' | 'take_profit_2' | 'trailing_stop'>;
+
+// Open trades keyed by "<token>|<pair slug>", plus "|<scenario>" in a scenario with a trade
+const trades = new Map<string, MockTrade>();
+// Keys of scenario trades the user has closed - not seeded again
+const closedScenarioTrades = new Set<string>();
+
+const userKey = (request: Request) => request.headers.get('authorization')?.replace(/^Bearer /, '') || 'anonymous';
+
+// Wilder's ATR(14) of the fixture H1 series
+function fixtureAtr(pair: PairConfig) {
+  const candles = fixtureCandles(pair, 'H1', fixturePrice(pair), 15);
+  const ranges = candles.slice(1).map((c, i) =>
+    Math.max(c.high - c.low, Math.abs(c.high - candles[i].close), Math.abs(c.low - candles[i].close)));
+  return Number((ranges.reduce((sum, r) => sum + r, 0) / ranges.length).toFixed(pair.decimals + 1));
+}
+
+const tradeKey = (scenario: MockScenario, key: string, pair: PairConfig) =>
+  scenario.trade ? `${key}|${pair.slug}|${scenario.name}` : `${key}|${pair.slug}`;
+
+// The user's open trade, seeding the scenario's trade the first time it is asked for
+function storedTrade(scenario: MockScenario, key: string, pair: PairConfig): MockTrade | undefined {
+  const id = tradeKey(scenario, key, pair);
+  if (!trades.has(id) && scenario.trade && !closedScenarioTrades.has(id)) trades.set(id, fixtureTrade(pair, scenario.trade));
+  return trades.get(id);
+}
+
+function openTrade(scenario: MockScenario, key: string, pair: PairConfig): ActiveTradeStatus | undefined {
+  const stored = storedTrade(scenario, key, pair);
+  if (!stored) return undefined;
+  const { units, ...trade } = stored;
+  return trade;
+}
+
+function tradeStatus(scenario: MockScenario, key: string, pair: PairConfig): TradeStatus {
+  const trade = openTrade(scenario, key, pair);
+  if (!trade) return { in_trade: false };
+
+  const current = fixturePrice(pair);
+  const atr = fixtureAtr(pair);
+  const direction = trade.trade_direction === 'SHORT' ? -1 : 1;
+  const move = (current - trade.entry_price) * direction;
+  const stop = trade.trailing_stop
+    ? trailedStop(pair, trade.trade_direction ?? 'LONG', current, trade.stop_loss, trade.trailing_stop, atr) ?? trade.stop_loss
+    : trade.stop_loss;
+  const units = storedTrade(scenario, key, pair)?.units;
+  return {
+    ...trade,
+    current_price: current,
+    stop_loss: stop,
+    atr,
+    ...(units !== undefined && { pnl: Number((move * units).toFixed(2)) }),
+    pnl_pct: Number(((move / trade.entry_price) * 100).toFixed(2)),
+    progress_to_tp1_pct: Math.round((move / Math.abs(trade.take_profit_1 - trade.entry_price)) * 100)
+  };
+}
+
+// Applies a stop/target change after checking it against the current price
+function modifyTrade(scenario: MockScenario, key: string, pair: PairConfig, changes: ModifyTradeRequest): Response {
+  const status = tradeStatus(scenario, key, pair);
+  if (!status.in_trade) return json({ success: false, error: 'No open trade' });
+
+  const edits: TradeEdits = {
+    stop_loss: changes.stop_loss ?? status.stop_loss,
+    take_profit_1: changes.take_profit_1 ?? status.take_profit_1,
+    take_profit_2: changes.take_profit_2 ?? status.take_profit_2,
+    trailing_stop: changes.trailing_stop === undefined ? status.trailing_stop : changes.trailing_stop ?? undefined
+  };
+  const errors = validateOpenTradeLevels(status.trade_direction ?? 'LONG', status.current_price ?? status.entry_price, edits, status.tp1_hit);
+  if (edits.trailing_stop && !(edits.trailing_stop.distance > 0)) errors.push('Trailing distance must be above 0');
+  if (errors.length) return json({ success: false, error: errors.join('; ') });
+
+  trades.set(tradeKey(scenario, key, pair), { ...storedTrade(scenario, key, pair)!, ...edits });
+  return json({ success: true, message: `${changes.reason || 'Trade updated'} (mock)` });
+}
+
+function sideSetup(scenario: MockScenario, pair: PairConfig, side: TraderSide) {
+  const setup = fixtureSetup(pair, side, scenario[side]);
+  if (scenario.error !== 'contract-changed') return setup;
+  // A backend release that renamed the fields the page renders
+  const { setup_steps, trade_plan, ...renamed } = setup;
+  return { ...renamed, steps: setup_steps, plan: trade_plan };
+}
+
+function scenarioError(scenario: MockScenario): Response | null {
+  switch (scenario.error) {
+    case 'backend-error':
+      return json({ detail: 'Analysis engine error: market data feed returned no candles' }, 500);
+    case 'invalid-response':
+      return new Response('<html><body><h1>502 Bad Gateway</h1></body></html>', { status: 502, headers: { 'Content-Type': 'text/html' } });
+  }
+  return null;
+}
+
+async function proTrader(request: Request, scenario: MockScenario, slug: string, action: string, search: URLSearchParams): Promise<Response> {
+  const pair = getPair(slug);
+  if (!pair) return notFound(`pro-trader-${slug}/${action}`);
+  const key = userKey(request);
+
+  switch (`${request.method} ${action}`) {
+    case 'GET analysis':
+      return json({ bullish: sideSetup(scenario, pair, 'bullish'), bearish: sideSetup(scenario, pair, 'bearish') });
+    case 'GET bullish':
+    case 'GET bearish':
+      return json(sideSetup(scenario, pair, action as TraderSide));
+    case 'GET candles': {
+      const timeframe = (search.get('timeframe') || 'H1') as CandleTimeframe;
+      const limit = parseInt(search.get('limit') || '200');
+      const end = search.get('end');
+      if (!end) return json({ timeframe, candles: fixtureCandles(pair, timeframe, fixturePrice(pair), limit) });
+      // The series always ends now - walk back far enough to have `limit` candles before `end`
+      const back = Math.max(0, Math.ceil((Date.now() / 1000 - parseInt(end)) / TIMEFRAME_SECONDS[timeframe]));
+      const candles = fixtureCandles(pair, timeframe, fixturePrice(pair), limit + back).filter(c => c.time < parseInt(end));
+      return json({ timeframe, candles: candles.slice(-limit) });
+    }
+    case 'GET history': {
+      const hours = Math.min(168, parseInt(search.get('hours') || '48'));
+      // The newest candle is still forming - snapshots are taken as candles close
+      const candles = fixtureCandles(pair, 'H1', fixturePrice(pair), hours + 1).slice(0, -1);
+      return json({ snapshots: fixtureHistory(pair, candles) });
+    }
+    case 'GET trade-status':
+      return json(tradeStatus(scenario, key, pair));
+    case 'POST enter-trade': {
+      const entry: EnterTradeRequest = await request.json();
+      const open = storedTrade(scenario, key, pair);
+      if (open && open.position_size + entry.position_size > 100) {
+        return json({ success: false, error: `Already holding ${open.position_size}% - can only add ${100 - open.position_size}%` });
+      }
+      // Adding to an open trade averages the entry by position size
+      const size = (open?.position_size ?? 0) + entry.position_size;
+      const entryPrice = open
+        ? (open.entry_price * open.position_size + entry.entry_price * entry.position_size) / size
+        : entry.entry_price;
+      trades.set(tradeKey(scenario, key, pair), {
+        in_trade: true,
+        trade_direction: entry.trade_direction,
+        entry_price: Number(entryPrice.toFixed(pair.decimals)),
+        stop_loss: entry.stop_loss,
+        take_profit_1: entry.take_profit_1,
+        take_profit_2: entry.take_profit_2,
+        position_size: size,
+        time_in_trade: open?.time_in_trade ?? '0m',
+        units: open && open.units === undefined ? undefined : (open?.units ?? 0) + (entry.units ?? 0)
+      });
+      return json({ success: true, message: open ? `Added ${entry.position_size}% (mock)` : 'Trade entered (mock)' });
+    }
+    case 'POST exit-trade': {
+      const exit: ExitTradeRequest = await request.json();
+      const id = tradeKey(scenario, key, pair);
+      const open = storedTrade(scenario, key, pair);
+      if (!open) return json({ success: false, error: 'No open trade' });
+
+      const direction = open.trade_direction === 'SHORT' ? -1 : 1;
+      const move = (exit.exit_price - open.entry_price) * direction;
+      const closedUnits = open.units === undefined ? undefined : open.units * Math.min(1, exit.position_size / open.position_size);
+      const remaining = open.position_size - exit.position_size;
+      if (remaining > 0) {
+        trades.set(id, { ...open, position_size: remaining, units: closedUnits === undefined ? undefined : open.units! - closedUnits });
+      } else {
+        trades.delete(id);
+        if (scenario.trade) closedScenarioTrades.add(id);
+      }
+
+      return json({
+        success: true,
+        message: remaining > 0 ? `Closed ${exit.position_size}%, ${remaining}% still open (mock)` : 'Trade closed (mock)',
+        ...(closedUnits !== undefined && { pnl: Number((move * closedUnits).toFixed(2)) }),
+        pnl_pct: Number(((move / open.entry_price) * 100).toFixed(2))
+      });
+    }
+    case 'POST modify-trade':
+      return modifyTrade(scenario, key, pair, await request.json());
+  }
+  return notFound(`pro-trader-${slug}/${action}`);
+}
+
+// /api/xauusd and /api/gbpusd - a BUY signal when the scenario's bullish side is READY
+function legacySignal(scenario: MockScenario, symbol: string) {
+  const pair = getPair(symbol === 'xauusd' ? 'gold' : 'gbpusd')!;
+  const session = { current_session: 'London', session_strength: 'HIGH' };
+  const now = new Date().toISOString();
+  const { entry, stop, tp1 } = fixtureLevels(pair, 'bullish');
+  const signal = {
+    signal: 'BUY',
+    symbol: pair.symbol,
+    entry_price: entry,
+    stop_loss: stop,
+    take_profit: tp1,
+    confluence_score: 14,
+    signal_strength: 'STRONG_BUY',
+    risk_reward_ratio: 2,
+    atr_stop_pips: Math.round(Math.abs(entry - stop) / pair.pipSize),
+    trade_reasons: ['Liquidity grab below the Asian low', 'H1 fair value gap retest', 'London session momentum'],
+    timestamp: now,
+    timestamp_chicago: now
+  };
+  return json({
+    status: scenario.bullish === 'READY' ? 'signal' : 'no_signal',
+    pair: pair.symbol,
+    data: {
+      ...(scenario.bullish === 'READY'
+        ? { signal }
+        : { skip_info: { skip_reason: 'Confluence score below threshold', context: 'Mock backend - recorded no-signal response' } }),
+      market_data: { current_price: fixturePrice(pair), session, timestamp: now },
+      last_update: now
+    }
+  });
+}
+
+function auth(action: string, search: URLSearchParams, body: Record<string, unknown>): Response {
+  if (action === 'magic-link') {
+    return json({ success: true, message: 'Mock backend - no email sent; use the local sign-in or an OAuth button' });
+  }
+  if (action === 'verify') {
+    const token = String(body.token || 'demo@example.com');
+    const email = token.includes('@') ? token : 'demo@example.com';
+    const session: AuthSession = { token: `mock:${email}`, user: { id: email, email, name: 'Mock Trader' } };
+    return json(session);
+  }
+  if (action === 'logout') return json({ success: true });
+  if (action.startsWith('oauth/')) {
+    const redirect = search.get('redirect_url') || '/login/verify';
+    const separator = redirect.includes('?') ? '&' : '?';
+    return new Response(null, { status: 302, headers: { Location: `${redirect}${separator}token=${encodeURIComponent(`${action.slice(6)}@example.com`)}` } });
+  }
+  return notFound(`auth/${action}`);
+}
+
+function stream(request: Request, scenario: MockScenario, search: URLSearchParams): Response {
+  const slugs = (search.get('pairs') || '').split(',').filter(slug => getPair(slug));
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const body = new ReadableStream({
+    start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      slugs.forEach(slug => {
+        const pair = getPair(slug)!;
+        send('price', { pair: slug, price: fixturePrice(pair), time: new Date().toISOString() });
+        (['bullish', 'bearish'] as const).forEach(side => {
+          const { setup_status, total_score } = fixtureSetup(pair, side, scenario[side]);
+          send('setup_status', { pair: slug, side, setup_status, total_score });
+        });
+        if (scenario.trade) send('trade_status', { pair: slug, status: tradeStatus(scenario, userKey(request), pair) });
+      });
+      heartbeat = setInterval(() => controller.enqueue(encoder.encode(': heartbeat\n\n')), 15000);
+      request.signal.addEventListener('abort', () => {
+        clearInterval(heartbeat);
+        controller.close();
+      });
+    },
+    cancel() {
+      clearInterval(heartbeat);
+    }
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+export async function mockBackend(request: Request, path: string): Promise<Response> {
+  const search = new URL(request.url).searchParams;
+  const scenario = requestScenario(request);
+  const [root, ...rest] = path.split('/');
+  const action = rest.join('/');
+
+  const proTraderMatch = root.match(/^pro-trader-(.+)$/);
+  const isSignal = root === 'xauusd' || root === 'gbpusd';
+  if (proTraderMatch || isSignal) {
+    const error = scenarioError(scenario);
+    if (error) return error;
+  }
+  if (proTraderMatch) return proTrader(request, scenario, proTraderMatch[1], action, search);
+  if (isSignal) return legacySignal(scenario, root);
+  if (root === 'stream') return stream(request, scenario, search);
+
+  if (root === 'auth') {
+    const body = request.method === 'POST' ? await request.json().catch(() => ({})) : {};
+    return auth(action, search, body);
+  }
+
+  if (root === 'settings') {
+    if (request.method === 'POST') return json({ success: true, message: 'Saved (mock) - nothing is sent from the mock backend' });
+    if (action === 'channels') return json({ channels: [] });
+    return json({ detail: 'No settings saved' }, 404);
+  }
+
+  return notFound(path);
+}
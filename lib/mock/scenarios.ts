@@ -0,0 +1,56 @@
+/*
+ * MOCK SCENARIOS
+ * ==============
+ *
+ * Named states the mock backend (lib/mock/backend.ts) can serve, so every
+ * state of the Pro Trader page can be reproduced on demand. Add ?scenario=<name>
+ * to any page URL, e.g. /pro-trader/gold?scenario=ready - middleware.ts keeps
+ * the choice in the fx-mock-scenario cookie for the API calls that follow,
+ * and ?scenario=default clears it. API requests also accept ?scenario=
+ * directly (handy with curl). Only the mock environment (lib/config.ts) uses it.
+ */
+
+import { readCookie } from '../config';
+import type { FixtureStatus } from '../fixtures/analysis';
+import type { TraderSide } from '../types';
+
+// Failure served by the pro-trader and signal endpoints (auth and settings keep working)
+export type ScenarioError =
+  | 'backend-error'       // HTTP 500 with a FastAPI detail
+  | 'invalid-response'    // HTML 502 page from a load balancer
+  | 'contract-changed';   // analysis without setup_steps / trade_plan
+
+export interface MockScenario {
+  name: string;
+  label: string;
+  description: string;
+  bullish: FixtureStatus;
+  bearish: FixtureStatus;
+  trade?: TraderSide;     // open trade on this side, with alerts
+  error?: ScenarioError;
+}
+
+export const MOCK_SCENARIOS: MockScenario[] = [
+  { name: 'default', label: 'DEFAULT', description: 'Bullish retest pending, bearish scanning', bullish: 'RETEST_WAITING', bearish: 'SCANNING' },
+  { name: 'scanning', label: 'SCANNING', description: 'No setup on either side', bullish: 'SCANNING', bearish: 'SCANNING' },
+  { name: 'retest-waiting', label: 'RETEST WAITING', description: 'Both sides waiting for a retest', bullish: 'RETEST_WAITING', bearish: 'RETEST_WAITING' },
+  { name: 'ready', label: 'READY', description: 'Bullish setup tradable now', bullish: 'READY', bearish: 'SCANNING' },
+  { name: 'in-trade', label: 'IN TRADE', description: 'Long trade open with alerts', bullish: 'READY', bearish: 'SCANNING', trade: 'bullish' },
+  { name: 'backend-error', label: 'BACKEND ERROR', description: 'Backend fails with HTTP 500', bullish: 'SCANNING', bearish: 'SCANNING', error: 'backend-error' },
+  { name: 'invalid-response', label: 'INVALID RESPONSE', description: 'HTML error page instead of JSON', bullish: 'SCANNING', bearish: 'SCANNING', error: 'invalid-response' },
+  { name: 'contract-changed', label: 'CONTRACT CHANGED', description: 'Analysis is missing fields the page needs', bullish: 'SCANNING', bearish: 'SCANNING', error: 'contract-changed' }
+];
+
+export const SCENARIO_PARAM = 'scenario';
+export const SCENARIO_COOKIE = 'fx-mock-scenario';
+
+export const isScenarioName = (value: unknown) => MOCK_SCENARIOS.some(s => s.name === value);
+
+export const mockScenario = (name: string | null | undefined) =>
+  MOCK_SCENARIOS.find(s => s.name === name) || MOCK_SCENARIOS[0];
+
+// Scenario of an API request: its own ?scenario= first, then the cookie
+export function requestScenario(request: Request): MockScenario {
+  const param = new URL(request.url).searchParams.get(SCENARIO_PARAM);
+  return mockScenario(param || readCookie(request.headers.get('cookie'), SCENARIO_COOKIE));
+}
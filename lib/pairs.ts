@@ -0,0 +1,101 @@
+/*
+ * PAIR REGISTRY
+ * =============
+ *
+ * Every instrument the Pro Trader dashboard can show is described here.
+ * Adding a pair (e.g. USDJPY, XAGUSD) is a new entry in PAIRS - the route
+ * /pro-trader/[slug], the home dashboard cards and the backend endpoints
+ * (/api/pro-trader-{slug}/...) are all derived from it.
+ */
+
+export type PairAccent = 'purple' | 'cyan' | 'green' | 'yellow' | 'blue' | 'red';
+
+export interface PairConfig {
+  slug: string;               // URL + backend slug: /pro-trader/{slug}, /api/pro-trader-{slug}
+  symbol: string;             // e.g. XAUUSD
+  displayName: string;        // e.g. XAU/USD
+  name: string;               // Short name used in headings, e.g. Gold
+  icon: string;
+  badge: string;              // Badge shown on the home dashboard card
+  pipSize: number;            // Price distance of one pip
+  contractSize: number;       // Units in one standard lot (100 oz for gold, 100,000 for FX)
+  baseCurrency: string;
+  quoteCurrency: string;      // Currency P&L is denominated in before conversion
+  decimals: number;           // Price precision
+  currencyPrefix: string;     // Prefix shown before prices ($ for metals, none for FX)
+  accent: PairAccent;
+}
+
+export const PAIRS: PairConfig[] = [
+  {
+    slug: 'gold',
+    symbol: 'XAUUSD',
+    displayName: 'XAU/USD',
+    name: 'Gold',
+    icon: '📊',
+    badge: 'GOLD',
+    pipSize: 0.1,
+    contractSize: 100,
+    baseCurrency: 'XAU',
+    quoteCurrency: 'USD',
+    decimals: 2,
+    currencyPrefix: '$',
+    accent: 'purple'
+  },
+  {
+    slug: 'eurusd',
+    symbol: 'EURUSD',
+    displayName: 'EUR/USD',
+    name: 'EUR/USD',
+    icon: '💱',
+    badge: 'EUR/USD',
+    pipSize: 0.0001,
+    contractSize: 100000,
+    baseCurrency: 'EUR',
+    quoteCurrency: 'USD',
+    decimals: 5,
+    currencyPrefix: '',
+    accent: 'cyan'
+  },
+  {
+    slug: 'gbpusd',
+    symbol: 'GBPUSD',
+    displayName: 'GBP/USD',
+    name: 'GBP/USD',
+    icon: '💷',
+    badge: 'NEW',
+    pipSize: 0.0001,
+    contractSize: 100000,
+    baseCurrency: 'GBP',
+    quoteCurrency: 'USD',
+    decimals: 5,
+    currencyPrefix: '',
+    accent: 'green'
+  }
+];
+
+// Full class names so Tailwind picks them up when scanning this file
+export const ACCENT_CLASSES: Record<PairAccent, { border: string; text: string; badge: string }> = {
+  purple: { border: 'border-purple-500 hover:border-purple-400', text: 'text-purple-400', badge: 'bg-purple-600' },
+  cyan: { border: 'border-cyan-500 hover:border-cyan-400', text: 'text-cyan-400', badge: 'bg-cyan-600' },
+  green: { border: 'border-green-500 hover:border-green-400', text: 'text-green-400', badge: 'bg-green-600' },
+  yellow: { border: 'border-yellow-500 hover:border-yellow-400', text: 'text-yellow-400', badge: 'bg-yellow-600' },
+  blue: { border: 'border-blue-500 hover:border-blue-400', text: 'text-blue-400', badge: 'bg-blue-600' },
+  red: { border: 'border-red-500 hover:border-red-400', text: 'text-red-400', badge: 'bg-red-600' }
+};
+
+export const getPair = (slug: string): PairConfig | undefined =>
+  PAIRS.find(p => p.slug === slug);
+
+export const proTraderPath = (pair: PairConfig) => `/pro-trader/${pair.slug}`;
+
+export const proTraderEndpoint = (pair: PairConfig) => `pro-trader-${pair.slug}`;
+
+// Formats a price with the pair's precision and prefix; empty string when missing
+export const formatPrice = (pair: PairConfig, price?: number | null) => {
+  if (price === undefined || price === null || isNaN(price)) return '';
+  return `${pair.currencyPrefix}${price.toFixed(pair.decimals)}`;
+};
+
+// Step attribute for price inputs, e.g. 0.01 for gold, 0.00001 for FX
+export const priceStep = (pair: PairConfig) => (1 / Math.pow(10, pair.decimals)).toFixed(pair.decimals);
@@ -0,0 +1,351 @@
+/*
+ * PAPER TRADING
+ * =============
+ *
+ * Forward-tests the confluence system without a broker. With paper mode on,
+ * the Pro Trader page sends entries, exits and stop/target changes here
+ * instead of the backend. Positions open at the displayed current_price plus
+ * the spread and slippage set on /paper, and every price the page sees
+ * (stream ticks, polled analysis) is checked against the stop and targets:
+ *
+ * - Stop (or trailed stop) touched: what is left closes at the stop, less slippage
+ * - TP1 touched: 50% of the full position closes at TP1 (all of it when there is no TP2)
+ * - TP2 touched: the rest closes at TP2
+ *
+ * Longs buy at the ask and sell at the bid (mid ± half the spread), shorts the
+ * other way round. Targets are limit orders and fill at their price; entries,
+ * manual exits and stops are market orders and slip. Positions and their fills
+ * live in IndexedDB (lib/db.ts), tagged with the signed-in user like the
+ * journal. Prices are only checked while a Pro Trader page for the pair is open.
+ */
+
+import { useEffect, useState } from 'react';
+import { getSession, storageOwner } from './auth';
+import * as db from './db';
+import { newId } from './journal';
+import { PairConfig, formatPrice } from './pairs';
+import { directionSign, toPips, trailedStop, validateOpenTradeLevels } from './trade';
+import type {
+  ActiveTradeStatus,
+  EnterTradeRequest,
+  ExitTradeRequest,
+  ModifyTradeRequest,
+  TradeActionResult,
+  TradeDirection,
+  TradeStatus,
+  TrailingStop
+} from './types';
+import { formatElapsed } from './watchlist';
+
+export interface PaperSettings {
+  enabled: boolean;
+  spreadPips: Record<string, number>;   // by pair slug
+  slippagePips: number;                  // against every market order
+}
+
+export interface PaperFill {
+  time: string;            // ISO timestamp
+  kind: 'entry' | 'exit';
+  reason: string;          // 'Entry', 'Added', 'TP1 hit', 'SL hit', 'Manual', ...
+  quote: number;           // mid price the fill was simulated from
+  price: number;           // after spread and slippage
+  position_size: number;   // percent of the full position
+  pips?: number;           // exits: move from the average entry in the trade's favour
+  pnl?: number;            // exits, quote currency - only when the entry was sized
+}
+
+export interface PaperPosition {
+  id: string;
+  user_id?: string;
+  pair: string;            // pair slug, see lib/pairs.ts
+  direction: TradeDirection;
+  status: 'open' | 'closed';
+  opened_at: string;
+  closed_at?: string;
+  entry_price: number;     // size-weighted average of the entry fills
+  initial_stop: number;    // R multiples are measured against it
+  stop_loss: number;
+  take_profit_1: number;
+  take_profit_2?: number;
+  trailing_stop?: TrailingStop;
+  position_size: number;   // percent of the full position still open
+  units: number;           // units still open, 0 when the entries were not sized
+  tp1_taken: boolean;
+  fills: PaperFill[];
+}
+
+const SETTINGS_KEY = 'fx-paper-settings';
+
+// Fired on window when the settings change in this tab ('storage' covers other tabs)
+export const PAPER_CHANGED_EVENT = 'fx-paper-changed';
+
+// Typical retail spreads: $0.30 on gold, about a pip on the majors
+const DEFAULT_SPREAD_PIPS: Record<string, number> = { gold: 3, eurusd: 1, gbpusd: 1.5 };
+
+export const DEFAULT_PAPER_SETTINGS: PaperSettings = { enabled: false, spreadPips: DEFAULT_SPREAD_PIPS, slippagePips: 0.5 };
+
+// Share of the full position TP1 takes off - the other half runs to TP2
+const TP1_SCALE_OUT = 50;
+
+// ---- Settings ----
+
+export function loadPaperSettings(): PaperSettings {
+  try {
+    const saved: Partial<PaperSettings> = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return { ...DEFAULT_PAPER_SETTINGS, ...saved, spreadPips: { ...DEFAULT_SPREAD_PIPS, ...saved.spreadPips } };
+  } catch {
+    return DEFAULT_PAPER_SETTINGS;
+  }
+}
+
+export function savePaperSettings(settings: PaperSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  window.dispatchEvent(new Event(PAPER_CHANGED_EVENT));
+}
+
+export const spreadPips = (settings: PaperSettings, pair: PairConfig) => settings.spreadPips[pair.slug] ?? 2;
+
+// Paper settings shared by every open page; read after mount to match the server render
+export function usePaperSettings(): [PaperSettings, (changes: Partial<PaperSettings>) => void] {
+  const [settings, setSettings] = useState<PaperSettings>(DEFAULT_PAPER_SETTINGS);
+
+  useEffect(() => {
+    const reload = () => setSettings(loadPaperSettings());
+    reload();
+    window.addEventListener(PAPER_CHANGED_EVENT, reload);
+    window.addEventListener('storage', reload);
+    return () => {
+      window.removeEventListener(PAPER_CHANGED_EVENT, reload);
+      window.removeEventListener('storage', reload);
+    };
+  }, []);
+
+  const update = (changes: Partial<PaperSettings>) => savePaperSettings({ ...loadPaperSettings(), ...changes });
+
+  return [settings, update];
+}
+
+// ---- Fills ----
+
+const round = (pair: PairConfig, price: number) => Number(price.toFixed(pair.decimals));
+
+// Bid for a long, ask for a short - what closing the position would get before slippage
+export const closingQuote = (pair: PairConfig, settings: PaperSettings, direction: TradeDirection, mid: number) =>
+  round(pair, mid - directionSign(direction) * spreadPips(settings, pair) / 2 * pair.pipSize);
+
+// Market order: opening a long pays the ask plus slippage, closing it gets the bid less slippage
+export function marketFill(pair: PairConfig, settings: PaperSettings, direction: TradeDirection, mid: number, opening: boolean) {
+  const cost = (spreadPips(settings, pair) / 2 + settings.slippagePips) * pair.pipSize;
+  return round(pair, mid + directionSign(direction) * (opening ? 1 : -1) * cost);
+}
+
+function closePortion(pair: PairConfig, position: PaperPosition, size: number, price: number, quote: number, reason: string, time: string): PaperPosition {
+  const sign = directionSign(position.direction);
+  const move = (price - position.entry_price) * sign;
+  const units = position.units * Math.min(1, size / position.position_size);
+  const fill: PaperFill = {
+    time,
+    kind: 'exit',
+    reason,
+    quote,
+    price,
+    position_size: size,
+    pips: Number(toPips(pair, move).toFixed(1)),
+    ...(units > 0 && { pnl: Number((move * units).toFixed(2)) })
+  };
+  const remaining = Math.round((position.position_size - size) * 100) / 100;
+  return {
+    ...position,
+    position_size: remaining,
+    units: position.units - units,
+    fills: [...position.fills, fill],
+    ...(remaining <= 0 && { status: 'closed' as const, closed_at: time })
+  };
+}
+
+// Runs one price through an open position: trails the stop, then fills a stop or target it touched
+export function simulatePrice(pair: PairConfig, position: PaperPosition, mid: number, settings: PaperSettings, time = new Date().toISOString()) {
+  if (position.status !== 'open') return { position, fills: [] as PaperFill[] };
+
+  const sign = directionSign(position.direction);
+  const quote = closingQuote(pair, settings, position.direction, mid);
+  let next = position;
+  const trailed = next.trailing_stop && trailedStop(pair, next.direction, quote, next.stop_loss, next.trailing_stop);
+  if (trailed && trailed !== next.stop_loss) next = { ...next, stop_loss: trailed };
+
+  if ((quote - next.stop_loss) * sign <= 0) {
+    const price = round(pair, next.stop_loss - sign * settings.slippagePips * pair.pipSize);
+    next = closePortion(pair, next, next.position_size, price, mid, 'SL hit', time);
+  } else {
+    if (!next.tp1_taken && (quote - next.take_profit_1) * sign >= 0) {
+      const size = next.take_profit_2 === undefined ? next.position_size : Math.min(TP1_SCALE_OUT, next.position_size);
+      next = { ...closePortion(pair, next, size, next.take_profit_1, mid, 'TP1 hit', time), tp1_taken: true };
+    }
+    if (next.status === 'open' && next.tp1_taken && next.take_profit_2 !== undefined && (quote - next.take_profit_2) * sign >= 0) {
+      next = closePortion(pair, next, next.position_size, next.take_profit_2, mid, 'TP2 hit', time);
+    }
+  }
+
+  return { position: next, fills: next.fills.slice(position.fills.length) };
+}
+
+// ---- Derived values ----
+
+export const paperExits = (position: PaperPosition) => position.fills.filter(f => f.kind === 'exit');
+
+const enteredSize = (position: PaperPosition) =>
+  position.fills.filter(f => f.kind === 'entry').reduce((total, f) => total + f.position_size, 0);
+
+// Size-weighted R of the exits so far, against the stop at entry
+export function paperRMultiple(position: PaperPosition): number | null {
+  const risk = Math.abs(position.entry_price - position.initial_stop);
+  const size = enteredSize(position);
+  const exits = paperExits(position);
+  if (risk === 0 || size === 0 || exits.length === 0) return null;
+  const sign = directionSign(position.direction);
+  return exits.reduce((total, f) => total + ((f.price - position.entry_price) * sign / risk) * (f.position_size / size), 0);
+}
+
+// Shaped like the backend's trade-status so the monitoring panel shows paper positions unchanged
+export function paperTradeStatus(position: PaperPosition, mid: number): ActiveTradeStatus {
+  const move = (mid - position.entry_price) * directionSign(position.direction);
+  return {
+    in_trade: true,
+    trade_direction: position.direction,
+    entry_price: position.entry_price,
+    current_price: mid,
+    stop_loss: position.stop_loss,
+    take_profit_1: position.take_profit_1,
+    take_profit_2: position.take_profit_2,
+    position_size: position.position_size,
+    ...(position.units > 0 && { pnl: Number((move * position.units).toFixed(2)) }),
+    pnl_pct: Number(((move / position.entry_price) * 100).toFixed(2)),
+    progress_to_tp1_pct: Math.round((move / Math.abs(position.take_profit_1 - position.entry_price)) * 100),
+    tp1_hit: position.tp1_taken,
+    time_in_trade: formatElapsed(position.opened_at),
+    trailing_stop: position.trailing_stop
+  };
+}
+
+// ---- Storage ----
+
+export const listPaperPositions = async (): Promise<PaperPosition[]> => {
+  const userId = storageOwner();
+  const positions = await db.getAll<PaperPosition>('paper');
+  return positions
+    .filter(p => userId !== undefined && p.user_id === userId)
+    .sort((a, b) => b.opened_at.localeCompare(a.opened_at));
+};
+
+const findOpenPosition = async (pair: PairConfig) =>
+  (await listPaperPositions()).find(p => p.pair === pair.slug && p.status === 'open');
+
+// Removes closed positions; open ones keep running
+export async function clearPaperHistory() {
+  const closed = (await listPaperPositions()).filter(p => p.status === 'closed');
+  await Promise.all(closed.map(p => db.remove('paper', p.id)));
+}
+
+// Ticks can arrive faster than IndexedDB answers - read-modify-write one at a time
+let queue: Promise<unknown> = Promise.resolve();
+const serial = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task, task);
+  queue = run.catch(() => {});
+  return run;
+};
+
+// ---- Trade actions (same answers as lib/api.ts) ----
+
+export const enterPaperTrade = (pair: PairConfig, entry: EnterTradeRequest, mid: number, settings: PaperSettings) =>
+  serial(async (): Promise<TradeActionResult> => {
+    const open = await findOpenPosition(pair);
+    if (open && open.direction !== entry.trade_direction) {
+      return { success: false, error: `Already holding a ${open.direction} paper position` };
+    }
+    if (open && open.position_size + entry.position_size > 100) {
+      return { success: false, error: `Already holding ${open.position_size}% - can only add ${100 - open.position_size}%` };
+    }
+
+    const time = new Date().toISOString();
+    const price = marketFill(pair, settings, entry.trade_direction, mid, true);
+    const fill: PaperFill = { time, kind: 'entry', reason: open ? 'Added' : 'Entry', quote: mid, price, position_size: entry.position_size };
+    const size = (open?.position_size ?? 0) + entry.position_size;
+    const position: PaperPosition = open
+      ? {
+          ...open,
+          entry_price: round(pair, (open.entry_price * open.position_size + price * entry.position_size) / size),
+          position_size: size,
+          units: open.units + (entry.units ?? 0),
+          fills: [...open.fills, fill]
+        }
+      : {
+          id: newId(),
+          user_id: getSession()?.user.id,
+          pair: pair.slug,
+          direction: entry.trade_direction,
+          status: 'open',
+          opened_at: time,
+          entry_price: price,
+          initial_stop: entry.stop_loss,
+          stop_loss: entry.stop_loss,
+          take_profit_1: entry.take_profit_1,
+          take_profit_2: entry.take_profit_2,
+          position_size: entry.position_size,
+          units: entry.units ?? 0,
+          tp1_taken: false,
+          fills: [fill]
+        };
+    await db.put('paper', position);
+    return { success: true, message: `Paper fill at ${formatPrice(pair, price)} (quote ${formatPrice(pair, mid)})` };
+  });
+
+export const exitPaperTrade = (pair: PairConfig, exit: ExitTradeRequest, mid: number, settings: PaperSettings) =>
+  serial(async (): Promise<TradeActionResult> => {
+    const open = await findOpenPosition(pair);
+    if (!open) return { success: false, error: 'No open paper position' };
+
+    const size = Math.min(exit.position_size, open.position_size);
+    const price = marketFill(pair, settings, open.direction, mid, false);
+    const closed = closePortion(pair, open, size, price, mid, exit.reason, new Date().toISOString());
+    await db.put('paper', closed);
+
+    const fill = closed.fills[closed.fills.length - 1];
+    const move = (price - open.entry_price) * directionSign(open.direction);
+    return {
+      success: true,
+      message: `${closed.status === 'closed' ? 'Paper position closed' : `Closed ${size}%, ${closed.position_size}% still open`} at ${formatPrice(pair, price)}`,
+      pnl: fill.pnl,
+      pnl_pct: Number(((move / open.entry_price) * 100).toFixed(2))
+    };
+  });
+
+export const modifyPaperTrade = (pair: PairConfig, changes: ModifyTradeRequest, mid: number) =>
+  serial(async (): Promise<TradeActionResult> => {
+    const open = await findOpenPosition(pair);
+    if (!open) return { success: false, error: 'No open paper position' };
+
+    const updated: PaperPosition = {
+      ...open,
+      stop_loss: changes.stop_loss ?? open.stop_loss,
+      take_profit_1: changes.take_profit_1 ?? open.take_profit_1,
+      take_profit_2: changes.take_profit_2 ?? open.take_profit_2,
+      trailing_stop: changes.trailing_stop === undefined ? open.trailing_stop : changes.trailing_stop ?? undefined
+    };
+    const errors = validateOpenTradeLevels(open.direction, mid, updated, open.tp1_taken);
+    if (updated.trailing_stop?.mode === 'atr') errors.push('Paper trades trail in pips only');
+    if (errors.length) return { success: false, error: errors.join('; ') };
+
+    await db.put('paper', updated);
+    return { success: true, message: 'Paper position updated' };
+  });
+
+// Checks the pair's open position against the latest price; returns its status and any fills this price caused
+export const updatePaperPrice = (pair: PairConfig, mid: number, settings: PaperSettings) =>
+  serial(async (): Promise<{ status: TradeStatus; fills: PaperFill[] }> => {
+    const open = await findOpenPosition(pair);
+    if (!open) return { status: { in_trade: false }, fills: [] };
+
+    const { position, fills } = simulatePrice(pair, open, mid, settings);
+    if (position !== open) await db.put('paper', position);
+    return { status: position.status === 'open' ? paperTradeStatus(position, mid) : { in_trade: false }, fills };
+  });
@@ -0,0 +1,244 @@
+/*
+ * BACKEND PROXY (server only)
+ * ===========================
+ *
+ * Used by the catch-all route handler app/api/[...path]/route.ts. The browser
+ * calls /api/... on this app; the handler forwards to the FastAPI backend so
+ * the backend URL, its API key and the Telegram bot token never reach the
+ * client and the backend needs no CORS.
+ *
+ * - Analysis reads (/analysis, /bullish, /bearish) without an Authorization
+ *   header are cached in memory for ANALYSIS_CACHE_SECONDS, at most
+ *   MAX_CACHE_ENTRIES of them; expired entries are dropped as they are read and
+ *   swept once per TTL. A signed-in user's reads are never cached - with backend
+ *   scoring (lib/strategy.ts) their total_score is weighted with their settings,
+ *   and a token must not end up as a key in server memory
+ * - Only the routes the web app calls are forwarded (ALLOWED_PATH) and . / ..
+ *   segments are refused - the request carries the server's API key, so this
+ *   must not reach any other backend route
+ * - EventSource can't send headers, so the event stream (GET /stream only)
+ *   carries the session token as ?token= - it is moved into an Authorization
+ *   header here. On every other route ?token= is ignored, and it is never
+ *   forwarded in a URL, where access logs would keep it
+ * - Every failure - backend error, unreachable backend, timeout, non-JSON
+ *   error page or success body - is returned as { error: { status, code, message, detail? } }
+ * - The backend is the one for the request's environment (lib/config.ts); the
+ *   mock environment is answered in-process by lib/mock/backend.ts
+ *
+ * SERVER ENVIRONMENT VARIABLES (backend URLs: see lib/config.ts):
+ * - BACKEND_API_KEY        - sent to the backend as X-API-Key
+ * - TELEGRAM_BOT_TOKEN     - default bot token added to POST /api/settings/telegram
+ * - ANALYSIS_CACHE_SECONDS - analysis cache TTL (default 15, 0 disables)
+ */
+
+import { activeEnvironment, backendUrl } from './config';
+import { mockBackend } from './mock/backend';
+import type { ProxyErrorBody, ProxyErrorCode } from './types';
+
+const API_KEY = process.env.BACKEND_API_KEY;
+const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
+const CACHE_SECONDS = parseInt(process.env.ANALYSIS_CACHE_SECONDS || '15');
+const TIMEOUT_MS = 20000;
+
+// Request headers passed through to the backend
+const FORWARDED_HEADERS = ['authorization', 'content-type', 'accept', 'last-event-id'];
+
+// Routes the web app calls (lib/api.ts, lib/stream.ts) - everything else is a 404
+const ALLOWED_PATH = /^(pro-trader-[a-z0-9]+\/[\w-]+|stream|settings\/[\w/-]+|auth\/[\w/-]+|backtests(\/[\w-]+)?|(xauusd|gbpusd)\/(analysis|scan))$/;
+
+// ., .. and their percent-encoded forms
+const DOT_SEGMENT = /^(\.|%2e){1,2}$/i;
+
+const CACHEABLE_PATH = /\/(analysis|bullish|bearish)$/;
+
+interface CachedResponse {
+  expires: number;
+  status: number;
+  body: string;
+  contentType: string;
+}
+
+const MAX_CACHE_ENTRIES = 500;
+
+// Insertion ordered - the first key is the oldest entry
+const cache = new Map<string, CachedResponse>();
+let lastSweep = 0;
+
+function cacheGet(key: string): CachedResponse | undefined {
+  const hit = cache.get(key);
+  if (!hit || hit.expires > Date.now()) return hit;
+  cache.delete(key);
+  return undefined;
+}
+
+function cacheSet(key: string, entry: CachedResponse) {
+  const now = Date.now();
+  if (now - lastSweep >= CACHE_SECONDS * 1000) {
+    cache.forEach((cached, k) => cached.expires <= now && cache.delete(k));
+    lastSweep = now;
+  }
+  cache.delete(key);
+  cache.set(key, entry);
+  if (cache.size > MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value!);
+}
+
+const CODES: Record<number, ProxyErrorCode> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  422: 'BAD_REQUEST',
+  429: 'RATE_LIMITED'
+};
+
+export function errorResponse(status: number, message: string, code?: ProxyErrorCode, detail?: unknown): Response {
+  const body: ProxyErrorBody = {
+    error: { status, code: code || CODES[status] || (status >= 500 ? 'BACKEND_ERROR' : 'BAD_REQUEST'), message, detail }
+  };
+  return Response.json(body, { status });
+}
+
+// FastAPI errors are { detail: string | [{ msg, loc }] }; other backends use { error } or { message }
+function backendMessage(body: unknown, status: number): { message: string; detail?: unknown } {
+  if (body && typeof body === 'object') {
+    const { detail, error, message } = body as Record<string, unknown>;
+    if (typeof detail === 'string') return { message: detail };
+    if (Array.isArray(detail)) {
+      return { message: detail.map(d => (d && typeof d === 'object' && 'msg' in d ? String(d.msg) : String(d))).join('; '), detail };
+    }
+    if (typeof error === 'string') return { message: error };
+    if (typeof message === 'string') return { message };
+  }
+  return { message: `Backend returned HTTP ${status}` };
+}
+
+function isJson(text: string) {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function normalizeError(upstream: Response): Promise<Response> {
+  const text = await upstream.text();
+  let body: unknown = null;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // HTML error page from a proxy/load balancer in front of the backend
+    return errorResponse(upstream.status >= 500 ? 502 : upstream.status, `Backend returned HTTP ${upstream.status}`, 'INVALID_RESPONSE');
+  }
+  const { message, detail } = backendMessage(body, upstream.status);
+  return errorResponse(upstream.status, message, undefined, detail);
+}
+
+async function requestBody(request: Request, path: string): Promise<BodyInit | undefined> {
+  if (request.method === 'GET' || request.method === 'HEAD') return undefined;
+  const text = await request.text();
+  if (!TELEGRAM_BOT_TOKEN || path !== 'settings/telegram' || !text) return text || undefined;
+
+  // The default bot token lives on the server; a custom token typed by the user still wins
+  const settings = JSON.parse(text);
+  return JSON.stringify({ ...settings, bot_token: settings.bot_token || TELEGRAM_BOT_TOKEN });
+}
+
+export async function proxy(request: Request, path: string): Promise<Response> {
+  if (path.split('/').some(segment => DOT_SEGMENT.test(segment))) {
+    return errorResponse(400, 'Path segments . and .. are not allowed', 'BAD_REQUEST');
+  }
+  if (!ALLOWED_PATH.test(path)) return errorResponse(404, `No such API route: /api/${path}`, 'NOT_FOUND');
+
+  const url = new URL(request.url);
+  // Only the event stream (GET, EventSource) may carry the token in the query string
+  const queryToken = path === 'stream' && request.method === 'GET' ? url.searchParams.get('token') : null;
+  url.searchParams.delete('token');
+  const authorization = request.headers.get('authorization') ?? (queryToken ? `Bearer ${queryToken}` : null);
+  const environment = activeEnvironment(request.headers.get('cookie'));
+  const upstreamUrl = backendUrl(environment);
+  if (upstreamUrl === undefined) {
+    return errorResponse(503, `No backend URL is configured for the ${environment} environment`, 'NOT_CONFIGURED');
+  }
+
+  const target = upstreamUrl === null ? null : `${upstreamUrl}/api/${path}${url.search}`;
+  const cacheable = target !== null && request.method === 'GET' && CACHE_SECONDS > 0 && CACHEABLE_PATH.test(path) && !authorization;
+
+  if (cacheable) {
+    const hit = cacheGet(target);
+    if (hit) {
+      return new Response(hit.body, { status: hit.status, headers: { 'Content-Type': hit.contentType, 'X-Cache': 'HIT' } });
+    }
+  }
+
+  // The event stream stays open - only time out regular requests
+  const isStream = path === 'stream';
+  let upstream: Response;
+  if (target === null) {
+    // Only the event stream carries ?token=, and it is a GET - no body to carry over
+    const headers = new Headers(request.headers);
+    if (authorization) headers.set('authorization', authorization);
+    upstream = await mockBackend(queryToken ? new Request(url, { headers, signal: request.signal }) : request, path);
+  } else {
+    const headers = new Headers();
+    FORWARDED_HEADERS.forEach(name => {
+      const value = name === 'authorization' ? authorization : request.headers.get(name);
+      if (value) headers.set(name, value);
+    });
+    if (API_KEY) headers.set('X-API-Key', API_KEY);
+
+    let body: BodyInit | undefined;
+    try {
+      body = await requestBody(request, path);
+    } catch {
+      return errorResponse(400, 'Request body is not valid JSON', 'BAD_REQUEST');
+    }
+
+    try {
+      upstream = await fetch(target, {
+        method: request.method,
+        headers,
+        body,
+        redirect: 'manual',
+        cache: 'no-store',
+        signal: isStream ? request.signal : AbortSignal.timeout(TIMEOUT_MS)
+      });
+    } catch (err) {
+      if (err instanceof Error && err.name === 'TimeoutError') {
+        return errorResponse(504, `Backend did not respond within ${TIMEOUT_MS / 1000}s`, 'TIMEOUT');
+      }
+      return errorResponse(502, 'Backend is unreachable', 'BACKEND_UNREACHABLE');
+    }
+  }
+
+  // OAuth sign-in redirects to the provider
+  if (upstream.status >= 300 && upstream.status < 400) {
+    return new Response(null, { status: upstream.status, headers: { Location: upstream.headers.get('location') || '/' } });
+  }
+
+  if (!upstream.ok) return normalizeError(upstream);
+
+  const contentType = upstream.headers.get('content-type') || 'application/json';
+  if (isStream) {
+    return new Response(upstream.body, {
+      headers: { 'Content-Type': contentType, 'Cache-Control': 'no-cache, no-transform', Connection: 'keep-alive' }
+    });
+  }
+
+  const text = await upstream.text();
+  // A 200 that is not JSON (maintenance page, misrouted request) is as broken as an error page
+  if (text && !isJson(text)) {
+    return errorResponse(502, 'Backend returned a response that is not JSON', 'INVALID_RESPONSE');
+  }
+  if (cacheable) {
+    cacheSet(target, { expires: Date.now() + CACHE_SECONDS * 1000, status: upstream.status, body: text, contentType });
+  }
+  return new Response(text, {
+    status: upstream.status,
+    headers: {
+      'Content-Type': contentType,
+      'Cache-Control': cacheable ? `private, max-age=${CACHE_SECONDS}` : 'no-store',
+      ...(cacheable ? { 'X-Cache': 'MISS' } : {})
+    }
+  });
+}
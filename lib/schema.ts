@@ -0,0 +1,354 @@
+/*
+ * RUNTIME PAYLOAD VALIDATION
+ * ==========================
+ *
+ * The pages render nested backend fields directly (setup_steps[].entry_timing,
+ * trade_plan.take_profit_1.price, ...). If the backend renames or drops one of
+ * them the page would silently render a blank section or crash on .replace().
+ * These parsers check the fields the UI depends on and throw a SchemaError with
+ * the exact path that broke; lib/api.ts turns it into a ContractError.
+ */
+
+import type {
+  AnalysisSnapshot,
+  AuthSession,
+  Candle,
+  CandleResponse,
+  GBPUSDAnalysis,
+  NotificationChannel,
+  PriceTick,
+  ProTraderAnalysis,
+  SavedTelegramSettings,
+  SetupStatusEvent,
+  TradeActionResult,
+  TraderSetup,
+  TradeStatus,
+  TradeStatusEvent,
+  XAUUSDAnalysis
+} from './types';
+
+export class SchemaError extends Error {
+  constructor(public path: string, expected: string, value: unknown) {
+    super(`${path}: expected ${expected}, got ${describe(value)}`);
+    this.name = 'SchemaError';
+  }
+}
+
+type Obj = Record<string, unknown>;
+
+const describe = (value: unknown) => {
+  if (value === undefined) return 'nothing (field missing)';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+// ---- Primitive checks ----
+
+export function object(value: unknown, path: string): Obj {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SchemaError(path, 'object', value);
+  }
+  return value as Obj;
+}
+
+export function array(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+  return value;
+}
+
+export function string(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new SchemaError(path, 'string', value);
+  return value;
+}
+
+export function number(value: unknown, path: string): number {
+  if (typeof value !== 'number' || isNaN(value)) throw new SchemaError(path, 'number', value);
+  return value;
+}
+
+export function boolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value);
+  return value;
+}
+
+// Runs the check only when the field is present
+export function optional<T>(check: (value: unknown, path: string) => T) {
+  return (value: unknown, path: string): T | undefined => (isMissing(value) ? undefined : check(value, path));
+}
+
+const optionalObject = optional(object);
+const optionalArray = optional(array);
+const optionalString = optional(string);
+const optionalNumber = optional(number);
+const optionalBoolean = optional(boolean);
+
+// ---- Pro Trader analysis ----
+
+function parseSetupStep(value: unknown, path: string) {
+  const step = object(value, path);
+  if (isMissing(step.step)) throw new SchemaError(`${path}.step`, 'step number', step.step);
+  string(step.title, `${path}.title`);
+  string(step.status, `${path}.status`);
+
+  const watching = optionalObject(step.watching_for, `${path}.watching_for`);
+  if (watching) {
+    Object.entries(watching).forEach(([key, item]) => {
+      string(object(item, `${path}.watching_for.${key}`).text, `${path}.watching_for.${key}.text`);
+    });
+  }
+
+  const timing = optionalObject(step.entry_timing, `${path}.entry_timing`);
+  if (timing) {
+    const early = object(timing.early_entry, `${path}.entry_timing.early_entry`);
+    boolean(early.available, `${path}.entry_timing.early_entry.available`);
+    string(early.stop_loss, `${path}.entry_timing.early_entry.stop_loss`);
+    object(timing.confirmation_entry, `${path}.entry_timing.confirmation_entry`);
+  }
+
+  optionalArray(step.entry_options, `${path}.entry_options`)?.forEach((option, i) => {
+    object(option, `${path}.entry_options[${i}]`);
+  });
+}
+
+function parseTradePlan(value: unknown, path: string) {
+  const plan = object(value, path);
+  (['stop_loss', 'take_profit_1', 'take_profit_2'] as const).forEach(key => {
+    const level = optionalObject(plan[key], `${path}.${key}`);
+    if (level) string(level.price, `${path}.${key}.price`);
+  });
+}
+
+function parseConfluence(value: unknown, path: string) {
+  const confluence = object(value, path);
+  string(confluence.type, `${path}.type`);
+  number(confluence.score, `${path}.score`);
+  (['zone_low', 'zone_high', 'price_level'] as const).forEach(key => {
+    optionalNumber(confluence[key], `${path}.${key}`);
+  });
+}
+
+function parseLiveCandle(value: unknown, path: string) {
+  const candle = object(value, path);
+  (['high', 'low', 'open', 'current', 'time_remaining'] as const).forEach(key => {
+    number(candle[key], `${path}.${key}`);
+  });
+}
+
+export function parseTraderSetup(value: unknown, path: string): TraderSetup {
+  const setup = object(value, path);
+  string(setup.setup_status, `${path}.setup_status`);
+  number(setup.current_price, `${path}.current_price`);
+  optionalNumber(setup.total_score, `${path}.total_score`);
+  optionalString(setup.confidence, `${path}.confidence`);
+
+  array(setup.confluences, `${path}.confluences`).forEach((item, i) => {
+    parseConfluence(item, `${path}.confluences[${i}]`);
+  });
+
+  array(setup.setup_steps, `${path}.setup_steps`).forEach((step, i) => {
+    parseSetupStep(step, `${path}.setup_steps[${i}]`);
+  });
+
+  parseTradePlan(setup.trade_plan, `${path}.trade_plan`);
+
+  if (!isMissing(setup.live_candle)) parseLiveCandle(setup.live_candle, `${path}.live_candle`);
+  optionalObject(setup.why_this_setup, `${path}.why_this_setup`);
+  optionalArray(setup.invalidation, `${path}.invalidation`);
+
+  const structure = optionalObject(setup.structure, `${path}.structure`);
+  if (structure) string(structure.structure_type, `${path}.structure.structure_type`);
+
+  return setup as unknown as TraderSetup;
+}
+
+export function parseProTraderAnalysis(value: unknown): ProTraderAnalysis {
+  const data = object(value, 'response');
+  return {
+    bullish: parseTraderSetup(data.bullish, 'bullish'),
+    bearish: parseTraderSetup(data.bearish, 'bearish')
+  };
+}
+
+// One side for the home scanner (/bullish, /bearish) - null or any subset of the setup, but the
+// fields the score card reads must have the right type
+export function parseProTraderSide(value: unknown): Partial<TraderSetup> | null {
+  if (value === null) return null;
+  const setup = object(value, 'response');
+  optionalString(setup.setup_status, 'setup_status');
+  optionalString(setup.pattern_type, 'pattern_type');
+  optionalNumber(setup.total_score, 'total_score');
+  optionalString(setup.confidence, 'confidence');
+  optionalNumber(setup.current_price, 'current_price');
+  optionalBoolean(setup.tradable, 'tradable');
+  optionalArray(setup.confluences, 'confluences')?.forEach((item, i) => parseConfluence(item, `confluences[${i}]`));
+
+  const plan = optionalObject(setup.trade_plan, 'trade_plan');
+  if (plan && !isMissing(plan.entry_price) && typeof plan.entry_price !== 'number') {
+    string(plan.entry_price, 'trade_plan.entry_price');
+  }
+  return setup as Partial<TraderSetup>;
+}
+
+export function parseAnalysisHistory(value: unknown): AnalysisSnapshot[] {
+  const data = object(value, 'response');
+  return array(data.snapshots, 'snapshots').map((item, i) => {
+    const snapshot = object(item, `snapshots[${i}]`);
+    return {
+      time: string(snapshot.time, `snapshots[${i}].time`),
+      bullish: parseTraderSetup(snapshot.bullish, `snapshots[${i}].bullish`),
+      bearish: parseTraderSetup(snapshot.bearish, `snapshots[${i}].bearish`)
+    };
+  });
+}
+
+// ---- Candles ----
+
+// Accepts unix seconds or an ISO timestamp and normalizes to unix seconds
+function parseCandleTime(value: unknown, path: string): number {
+  if (typeof value === 'number') return value;
+  const time = Date.parse(string(value, path));
+  if (isNaN(time)) throw new SchemaError(path, 'timestamp', value);
+  return Math.floor(time / 1000);
+}
+
+export function parseCandleResponse(value: unknown): CandleResponse {
+  const data = object(value, 'response');
+  const candles: Candle[] = array(data.candles, 'candles').map((item, i) => {
+    const candle = object(item, `candles[${i}]`);
+    return {
+      time: parseCandleTime(candle.time, `candles[${i}].time`),
+      open: number(candle.open, `candles[${i}].open`),
+      high: number(candle.high, `candles[${i}].high`),
+      low: number(candle.low, `candles[${i}].low`),
+      close: number(candle.close, `candles[${i}].close`)
+    };
+  });
+  return { timeframe: string(data.timeframe, 'timeframe') as CandleResponse['timeframe'], candles };
+}
+
+// ---- Trade endpoints ----
+
+export function parseTradeStatus(value: unknown): TradeStatus {
+  const status = object(value, 'response');
+  boolean(status.in_trade, 'in_trade');
+  if (status.in_trade) {
+    number(status.entry_price, 'entry_price');
+    number(status.stop_loss, 'stop_loss');
+    number(status.take_profit_1, 'take_profit_1');
+    number(status.position_size, 'position_size');
+    const heldBy = optionalObject(status.held_by, 'held_by');
+    if (heldBy) string(heldBy.email, 'held_by.email');
+    const trailing = optionalObject(status.trailing_stop, 'trailing_stop');
+    if (trailing) {
+      string(trailing.mode, 'trailing_stop.mode');
+      number(trailing.distance, 'trailing_stop.distance');
+    }
+    optionalNumber(status.atr, 'atr');
+    optionalBoolean(status.tp1_hit, 'tp1_hit');
+  }
+  optionalArray(status.alerts, 'alerts')?.forEach((alert, i) => {
+    string(object(alert, `alerts[${i}]`).title, `alerts[${i}].title`);
+  });
+  return status as unknown as TradeStatus;
+}
+
+export function parseTradeActionResult(value: unknown): TradeActionResult {
+  const result = object(value, 'response');
+  boolean(result.success, 'success');
+  optionalString(result.error, 'error');
+  optionalString(result.message, 'message');
+  return result as unknown as TradeActionResult;
+}
+
+// ---- Live stream events ----
+
+export function parsePriceTick(value: unknown): PriceTick {
+  const tick = object(value, 'price');
+  string(tick.pair, 'price.pair');
+  number(tick.price, 'price.price');
+  return tick as unknown as PriceTick;
+}
+
+export function parseSetupStatusEvent(value: unknown): SetupStatusEvent {
+  const event = object(value, 'setup_status');
+  string(event.pair, 'setup_status.pair');
+  const side = string(event.side, 'setup_status.side');
+  if (side !== 'bullish' && side !== 'bearish') throw new SchemaError('setup_status.side', '"bullish" or "bearish"', side);
+  string(event.setup_status, 'setup_status.setup_status');
+  optionalNumber(event.total_score, 'setup_status.total_score');
+  return event as unknown as SetupStatusEvent;
+}
+
+export function parseTradeStatusEvent(value: unknown): TradeStatusEvent {
+  const event = object(value, 'trade_status');
+  return { pair: string(event.pair, 'trade_status.pair'), status: parseTradeStatus(event.status) };
+}
+
+// ---- Auth ----
+
+export function parseAuthSession(value: unknown): AuthSession {
+  const session = object(value, 'response');
+  string(session.token, 'token');
+  const user = object(session.user, 'user');
+  string(user.id, 'user.id');
+  string(user.email, 'user.email');
+  optionalString(session.expires_at, 'expires_at');
+  return session as unknown as AuthSession;
+}
+
+// ---- Settings ----
+
+export function parseTelegramSettings(value: unknown): SavedTelegramSettings {
+  const settings = object(value, 'response');
+  string(settings.chat_id, 'chat_id');
+  boolean(settings.enabled, 'enabled');
+  optionalArray(settings.pairs, 'pairs')?.forEach((rule, i) => {
+    const path = `pairs[${i}]`;
+    const checked = object(rule, path);
+    string(checked.pair, `${path}.pair`);
+    boolean(checked.bullish, `${path}.bullish`);
+    boolean(checked.bearish, `${path}.bearish`);
+    number(checked.min_score, `${path}.min_score`);
+  });
+  const delivery = optionalObject(settings.last_delivery, 'last_delivery');
+  if (delivery) {
+    string(delivery.sent_at, 'last_delivery.sent_at');
+    boolean(delivery.success, 'last_delivery.success');
+  }
+  return settings as unknown as SavedTelegramSettings;
+}
+
+export function parseNotificationChannels(value: unknown): NotificationChannel[] {
+  const response = object(value, 'response');
+  return array(response.channels, 'channels').map((item, i) => {
+    const path = `channels[${i}]`;
+    const channel = object(item, path);
+    string(channel.id, `${path}.id`);
+    string(channel.kind, `${path}.kind`);
+    string(channel.name, `${path}.name`);
+    boolean(channel.enabled, `${path}.enabled`);
+    object(channel.config, `${path}.config`);
+    string(channel.template, `${path}.template`);
+    optionalArray(channel.secrets_set, `${path}.secrets_set`);
+    return channel as unknown as NotificationChannel;
+  });
+}
+
+// ---- Legacy signal pages ----
+
+function parseSignalAnalysis(value: unknown) {
+  const analysis = object(value, 'response');
+  string(analysis.status, 'status');
+  const data = object(analysis.data, 'data');
+  const market = object(data.market_data, 'data.market_data');
+  optionalNumber(market.current_price, 'data.market_data.current_price');
+  optionalObject(data.signal, 'data.signal');
+  return analysis;
+}
+
+export const parseXAUUSDAnalysis = (value: unknown) => parseSignalAnalysis(value) as unknown as XAUUSDAnalysis;
+
+export const parseGBPUSDAnalysis = (value: unknown) => parseSignalAnalysis(value) as unknown as GBPUSDAnalysis;
@@ -0,0 +1,86 @@
+/*
+ * POSITION SIZING
+ * ===============
+ *
+ * Risk-based lot size: risk amount = balance x risk %, and the stop distance
+ * in pips x pip value per lot tells how many lots lose exactly that amount.
+ *
+ *   pip value / lot (quote ccy) = pipSize x contractSize
+ *     XAUUSD: 0.1 x 100 oz      = $10
+ *     EURUSD: 0.0001 x 100,000  = $10
+ *
+ * Accounts not denominated in the quote currency convert with a quote->account
+ * rate (derived from the pair price when the account is in the base currency).
+ */
+
+import { PairConfig } from './pairs';
+
+export type AccountCurrency = 'USD' | 'EUR' | 'GBP';
+
+export const ACCOUNT_CURRENCIES: AccountCurrency[] = ['USD', 'EUR', 'GBP'];
+
+export interface AccountSettings {
+  balance: number;
+  riskPercent: number;
+  currency: AccountCurrency;
+}
+
+export interface PositionSize {
+  riskAmount: number;        // account currency
+  stopPips: number;
+  pipValuePerLot: number;    // account currency
+  lots: number;              // full position (100%), rounded down to 0.01
+  units: number;
+}
+
+const SETTINGS_KEY = 'fx-account-settings';
+const LOT_STEP = 0.01;
+
+export const DEFAULT_ACCOUNT: AccountSettings = { balance: 10000, riskPercent: 1, currency: 'USD' };
+
+export function loadAccountSettings(): AccountSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_ACCOUNT, ...JSON.parse(saved) } : DEFAULT_ACCOUNT;
+  } catch {
+    return DEFAULT_ACCOUNT;
+  }
+}
+
+export const saveAccountSettings = (settings: AccountSettings) =>
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+// Quote->account conversion we can derive on our own; undefined when the user must supply it
+export function knownConversionRate(pair: PairConfig, currency: AccountCurrency, price: number): number | undefined {
+  if (currency === pair.quoteCurrency) return 1;
+  if (currency === pair.baseCurrency && price > 0) return 1 / price;
+  return undefined;
+}
+
+// Rounds down to a whole lot step - the quotient is rounded first, as 0.29 / 0.01 is 28.999999999999996
+const floorToLotStep = (lots: number) => Math.floor(Math.round(lots / LOT_STEP * 1e6) / 1e6) * LOT_STEP;
+
+export function positionSize(
+  pair: PairConfig,
+  account: AccountSettings,
+  stopDistance: number,
+  quoteToAccountRate: number
+): PositionSize | null {
+  const riskAmount = account.balance * account.riskPercent / 100;
+  const stopPips = Math.abs(stopDistance) / pair.pipSize;
+  const pipValuePerLot = pair.pipSize * pair.contractSize * quoteToAccountRate;
+  if (!(riskAmount > 0) || !(stopPips > 0) || !(pipValuePerLot > 0)) return null;
+
+  const lots = floorToLotStep(riskAmount / (stopPips * pipValuePerLot));
+  return {
+    riskAmount,
+    stopPips,
+    pipValuePerLot,
+    lots: parseFloat(lots.toFixed(2)),
+    units: Math.round(lots * pair.contractSize)
+  };
+}
+
+// Portion of the full position for a 50% / 100% entry
+export const scaledLots = (size: PositionSize, percent: number) =>
+  parseFloat(floorToLotStep(size.lots * percent / 100).toFixed(2));
@@ -0,0 +1,176 @@
+/*
+ * ANALYSIS SNAPSHOTS
+ * ==================
+ *
+ * Every analysis the Pro Trader page fetches replaces the last one on screen.
+ * This archive keeps a copy of each side's setup in IndexedDB (lib/db.ts)
+ * whenever something worth comparing changed - status, score, pattern,
+ * confluences, step statuses or trade plan prices. Price ticks and countdowns
+ * alone do not make a new snapshot. /snapshots compares any two snapshots of
+ * a pair and side with diffSetups().
+ *
+ * Snapshots are tagged with the signed-in user like the journal, and the
+ * oldest are dropped past MAX_SNAPSHOTS per pair and side.
+ */
+
+import { storageOwner } from './auth';
+import * as db from './db';
+import { newId } from './journal';
+import { PairConfig } from './pairs';
+import { parsePrice } from './trade';
+import type { Confluence, ProTraderAnalysis, TraderSetup, TraderSide } from './types';
+
+export interface ArchivedSetup {
+  id: string;
+  user_id?: string;
+  pair: string;            // pair slug, see lib/pairs.ts
+  side: TraderSide;
+  time: string;            // ISO timestamp of the fetch
+  setup: TraderSetup;
+}
+
+export const MAX_SNAPSHOTS = 500;
+
+// ---- Diff ----
+
+export interface ConfluenceChange {
+  type: string;
+  before: Confluence;
+  after: Confluence;
+}
+
+export interface StepTransition {
+  step: number;
+  title: string;
+  from?: string;           // undefined: the step was not there
+  to?: string;
+}
+
+export interface PlanRevision {
+  level: string;           // Entry, Stop Loss, TP1, TP2
+  from?: string;
+  to?: string;
+  move?: number;           // price change, when both sides are prices
+}
+
+export interface SetupDiff {
+  status?: { from: string; to: string };
+  pattern?: { from?: string; to?: string };
+  score: { from: number; to: number; delta: number };
+  added: Confluence[];
+  removed: Confluence[];
+  changed: ConfluenceChange[];
+  steps: StepTransition[];
+  plan: PlanRevision[];
+}
+
+// Confluences are matched by type; a type listed twice is matched in order
+const confluenceKeys = (confluences: Confluence[]) => {
+  const seen: Record<string, number> = {};
+  return confluences.map(c => `${c.type}#${(seen[c.type] = (seen[c.type] ?? 0) + 1)}`);
+};
+
+const planPrices = (setup: TraderSetup): [string, string | undefined][] => {
+  const plan = setup.trade_plan;
+  const entry = plan.entry_price;
+  return [
+    ['Entry', entry === undefined ? undefined : String(entry)],
+    ['Stop Loss', plan.stop_loss?.price],
+    ['TP1', plan.take_profit_1?.price],
+    ['TP2', plan.take_profit_2?.price]
+  ];
+};
+
+export function diffSetups(before: TraderSetup, after: TraderSetup): SetupDiff {
+  const beforeKeys = confluenceKeys(before.confluences);
+  const afterKeys = confluenceKeys(after.confluences);
+  const beforeByKey = new Map(beforeKeys.map((key, i) => [key, before.confluences[i]]));
+  const afterByKey = new Map(afterKeys.map((key, i) => [key, after.confluences[i]]));
+
+  const changed = afterKeys
+    .filter(key => beforeByKey.has(key))
+    .map(key => ({ type: afterByKey.get(key)!.type, before: beforeByKey.get(key)!, after: afterByKey.get(key)! }))
+    .filter(c => c.before.score !== c.after.score || c.before.description !== c.after.description);
+
+  const stepNumbers = [...new Set([...before.setup_steps, ...after.setup_steps].map(s => s.step))].sort((a, b) => a - b);
+  const steps = stepNumbers
+    .map(step => {
+      const was = before.setup_steps.find(s => s.step === step);
+      const now = after.setup_steps.find(s => s.step === step);
+      return { step, title: (now ?? was)!.title, from: was?.status, to: now?.status };
+    })
+    .filter(t => t.from !== t.to);
+
+  const beforePlan = planPrices(before);
+  const plan = planPrices(after)
+    .map(([level, to], i): PlanRevision => {
+      const from = beforePlan[i][1];
+      const move = from && to ? parsePrice(to) - parsePrice(from) : NaN;
+      return { level, from, to, ...(isNaN(move) ? {} : { move }) };
+    })
+    .filter(r => r.from !== r.to && r.move !== 0);
+
+  const scoreFrom = before.total_score ?? 0;
+  const scoreTo = after.total_score ?? 0;
+
+  return {
+    ...(before.setup_status !== after.setup_status ? { status: { from: before.setup_status, to: after.setup_status } } : {}),
+    ...(before.pattern_type !== after.pattern_type ? { pattern: { from: before.pattern_type, to: after.pattern_type } } : {}),
+    score: { from: scoreFrom, to: scoreTo, delta: scoreTo - scoreFrom },
+    added: afterKeys.filter(key => !beforeByKey.has(key)).map(key => afterByKey.get(key)!),
+    removed: beforeKeys.filter(key => !afterByKey.has(key)).map(key => beforeByKey.get(key)!),
+    changed,
+    steps,
+    plan
+  };
+}
+
+export const diffIsEmpty = (diff: SetupDiff) =>
+  !diff.status && !diff.pattern && diff.score.delta === 0 &&
+  [diff.added, diff.removed, diff.changed, diff.steps, diff.plan].every(list => list.length === 0);
+
+// ---- Storage ----
+
+export const listSnapshots = async (pair?: string, side?: TraderSide): Promise<ArchivedSetup[]> => {
+  const userId = storageOwner();
+  const snapshots = await db.getAll<ArchivedSetup>('snapshots');
+  return snapshots
+    .filter(s => userId !== undefined && s.user_id === userId && (!pair || s.pair === pair) && (!side || s.side === side))
+    .sort((a, b) => b.time.localeCompare(a.time));
+};
+
+export async function clearSnapshots(pair: string) {
+  const snapshots = await listSnapshots(pair);
+  await Promise.all(snapshots.map(s => db.remove('snapshots', s.id)));
+}
+
+// The dashboard fetches every minute and on every status event - one archive write at a time
+let queue: Promise<unknown> = Promise.resolve();
+const serial = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task, task);
+  queue = run.catch(() => {});
+  return run;
+};
+
+// Stores each side of a fetched analysis that differs from its last snapshot; returns what was stored.
+// Nothing is archived where the browser has no IndexedDB, or with no one signed in.
+export const archiveAnalysis = (pair: PairConfig, analysis: ProTraderAnalysis, time = new Date().toISOString()) =>
+  serial(async (): Promise<ArchivedSetup[]> => {
+    const stored: ArchivedSetup[] = [];
+    const userId = db.available() ? storageOwner() : undefined;
+    if (!userId) return stored;
+
+    for (const side of ['bullish', 'bearish'] as const) {
+      const key = [userId, pair.slug, side];
+      const last = await db.findLast<ArchivedSetup>('snapshots', 'user_pair_side_time', key);
+      if (last && diffIsEmpty(diffSetups(last.setup, analysis[side]))) continue;
+
+      const snapshot: ArchivedSetup = { id: newId(), user_id: userId, pair: pair.slug, side, time, setup: analysis[side] };
+      await db.put('snapshots', snapshot);
+      // Counted and pruned through the same index - only this user's snapshots, oldest first
+      const excess = await db.count('snapshots', 'user_pair_side_time', key) - MAX_SNAPSHOTS;
+      await db.removeFirst('snapshots', 'user_pair_side_time', key, excess);
+      stored.push(snapshot);
+    }
+    return stored;
+  });
@@ -0,0 +1,159 @@
+/*
+ * STRATEGY SETTINGS
+ * =================
+ *
+ * The confluence thresholds and per-confluence weights every page scores
+ * setups with, edited on /strategy:
+ *
+ * - minScore:    a setup worth taking (SETUP / READY on the home scanner, ⭐, entry threshold)
+ * - goodScore:   ⭐⭐ and green on the scanner
+ * - strongScore: ⭐⭐⭐
+ * - maxScore:    a full confluence progress bar
+ * - alertScore:  default threshold of new browser alert and Telegram rules
+ *
+ * A weight multiplies the points the backend gave a confluence type (1 = as
+ * sent, 0 = ignore it); BULLISH_BOS / BEARISH_BOS share the BOS weight. The
+ * settings are saved in localStorage per signed-in user. They can also be
+ * pushed to the backend - with backendScoring on, the backend applies the
+ * weights itself and its total_score is shown as sent. /strategy only changes
+ * the flag once the backend took the push; turning it off resets the backend's
+ * weights to 1 first, so they never count twice.
+ */
+
+import { useEffect, useState } from 'react';
+import { getSession, useSession } from './auth';
+import type { StrategyScoring, TraderSetup } from './types';
+
+export interface StrategySettings {
+  minScore: number;
+  goodScore: number;
+  strongScore: number;
+  maxScore: number;
+  alertScore: number;
+  weights: Record<string, number>;   // by confluence type, see weightKey
+  backendScoring: boolean;           // the backend applies the weights (pushed from /strategy)
+}
+
+export type ScoreTier = 'strong' | 'good' | 'setup' | 'weak';
+
+// Confluence types the backend scores - the rows of the weights table on /strategy
+export const CONFLUENCE_TYPES = [
+  'LIQUIDITY_GRAB',
+  'FVG',
+  'ORDER_BLOCK',
+  'BOS',
+  'BREAKOUT_RETEST',
+  'BREAKDOWN_RETEST',
+  'DEMAND_ZONE',
+  'SUPPLY_ZONE',
+  'HTF_TREND'
+];
+
+export const DEFAULT_STRATEGY_SETTINGS: StrategySettings = {
+  minScore: 5,
+  goodScore: 7,
+  strongScore: 10,
+  maxScore: 12,
+  alertScore: 7,
+  weights: {},
+  backendScoring: false
+};
+
+// Fired on window when the settings change in this tab ('storage' covers other tabs)
+export const STRATEGY_CHANGED_EVENT = 'fx-strategy-changed';
+
+const settingsKey = () => `fx-strategy:${getSession()?.user.id ?? 'anonymous'}`;
+
+// ---- Settings ----
+
+export function loadStrategySettings(): StrategySettings {
+  try {
+    const saved: Partial<StrategySettings> = JSON.parse(localStorage.getItem(settingsKey()) || '{}');
+    return { ...DEFAULT_STRATEGY_SETTINGS, ...saved, weights: { ...saved.weights } };
+  } catch {
+    return DEFAULT_STRATEGY_SETTINGS;
+  }
+}
+
+export function saveStrategySettings(settings: StrategySettings) {
+  localStorage.setItem(settingsKey(), JSON.stringify(settings));
+  window.dispatchEvent(new Event(STRATEGY_CHANGED_EVENT));
+}
+
+// Why the settings can't be saved - empty when they can
+export function validateStrategy(settings: StrategySettings): string[] {
+  const { minScore, goodScore, strongScore, maxScore, alertScore, weights } = settings;
+  const errors: string[] = [];
+  const thresholds = { minScore, goodScore, strongScore, maxScore, alertScore };
+
+  if (Object.values(thresholds).some(n => !Number.isInteger(n) || n < 1)) {
+    return ['Thresholds must be whole numbers of at least 1'];
+  }
+  if (!(minScore < goodScore && goodScore < strongScore)) {
+    errors.push('Thresholds must rise: setup < ⭐⭐ < ⭐⭐⭐');
+  }
+  if (maxScore < strongScore) errors.push('The full bar must be at least the ⭐⭐⭐ score');
+  if (Object.values(weights).some(w => typeof w !== 'number' || isNaN(w) || w < 0)) {
+    errors.push('Weights must be 0 or more');
+  }
+  return errors;
+}
+
+// Strategy settings of the signed-in user; read after mount to match the server render
+export function useStrategySettings(): StrategySettings {
+  const session = useSession();
+  const [settings, setSettings] = useState<StrategySettings>(DEFAULT_STRATEGY_SETTINGS);
+
+  useEffect(() => {
+    const reload = () => setSettings(loadStrategySettings());
+    reload();
+    window.addEventListener(STRATEGY_CHANGED_EVENT, reload);
+    window.addEventListener('storage', reload);
+    return () => {
+      window.removeEventListener(STRATEGY_CHANGED_EVENT, reload);
+      window.removeEventListener('storage', reload);
+    };
+  }, [session]);
+
+  return settings;
+}
+
+// ---- Scoring ----
+
+export const weightKey = (type: string) => type.replace(/^(BULLISH|BEARISH)_(?=BOS$)/, '');
+
+export const confluenceWeight = (settings: StrategySettings, type: string) => settings.weights[weightKey(type)] ?? 1;
+
+// The setup's total_score with the weights applied - confluences outside the list keep their points
+export function setupScore(setup: Partial<TraderSetup> | null | undefined, settings: StrategySettings): number {
+  const total = setup?.total_score ?? 0;
+  if (settings.backendScoring) return total;
+  const adjustment = (setup?.confluences ?? []).reduce(
+    (sum, c) => sum + c.score * (confluenceWeight(settings, c.type) - 1), 0
+  );
+  return Math.round((total + adjustment) * 10) / 10;
+}
+
+export function scoreTier(score: number, settings: StrategySettings): ScoreTier {
+  if (score >= settings.strongScore) return 'strong';
+  if (score >= settings.goodScore) return 'good';
+  if (score >= settings.minScore) return 'setup';
+  return 'weak';
+}
+
+export const TIER_STARS: Record<ScoreTier, string> = { strong: '⭐⭐⭐', good: '⭐⭐', setup: '⭐', weak: '⚠️' };
+
+// Thresholds offered by the score pickers (watchlist filter, alert and Telegram rules), plus a
+// saved value that is none of them
+export const scoreOptions = (settings: StrategySettings, current?: number | null) =>
+  [...new Set([settings.minScore, settings.goodScore, settings.strongScore, settings.alertScore, ...(current ? [current] : [])])].sort((a, b) => a - b);
+
+// Pushed to POST /api/settings/strategy, snake_case like the rest of the backend
+export const strategyScoring = (settings: StrategySettings): StrategyScoring => ({
+  min_score: settings.minScore,
+  good_score: settings.goodScore,
+  strong_score: settings.strongScore,
+  max_score: settings.maxScore,
+  alert_score: settings.alertScore,
+  weights: Object.fromEntries(CONFLUENCE_TYPES.map(type => [type, confluenceWeight(settings, type)]))
+});
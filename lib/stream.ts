@@ -0,0 +1,118 @@
+/*
+ * LIVE STREAM
+ * ===========
+ *
+ * Server-Sent Events from GET /api/stream?pairs=gold,eurusd push price ticks,
+ * setup_status changes and trade-status updates to every open page.
+ *
+ * EVENTS:
+ * - price         { pair, price, time }
+ * - setup_status  { pair, side, setup_status, total_score }
+ * - trade_status  { pair, status: <trade-status payload> }
+ *
+ * The connection retries with exponential backoff (1s doubling to 30s, with
+ * jitter). Pages poll whenever the status is not 'live'; after a few failed
+ * attempts the status becomes 'polling' while retries continue in the
+ * background. NEXT_PUBLIC_STREAMING=false skips the stream entirely. The
+ * session token is passed as ?token= so trade_status events are per user;
+ * the proxy moves it into the Authorization header before going upstream.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { API_BASE } from './api';
+import { getSession } from './auth';
+import { STREAMING_ENABLED } from './config';
+import { SchemaError, parsePriceTick, parseSetupStatusEvent, parseTradeStatusEvent } from './schema';
+import type { PriceTick, SetupStatusEvent, TradeStatusEvent } from './types';
+
+export type StreamStatus = 'connecting' | 'live' | 'reconnecting' | 'polling';
+
+export interface StreamHandlers {
+  onPrice?: (tick: PriceTick) => void;
+  onSetupStatus?: (event: SetupStatusEvent) => void;
+  onTradeStatus?: (event: TradeStatusEvent) => void;
+  onStatus?: (status: StreamStatus) => void;
+}
+
+const BASE_DELAY = 1000;
+const MAX_DELAY = 30000;
+const ATTEMPTS_BEFORE_POLLING = 3;
+
+export const backoffDelay = (attempt: number) =>
+  Math.min(MAX_DELAY, BASE_DELAY * Math.pow(2, attempt)) * (0.5 + Math.random() / 2);
+
+// Opens the stream for the given pair slugs; returns a function that closes it
+export function connectStream(pairs: string[], handlers: StreamHandlers): () => void {
+  if (!STREAMING_ENABLED || typeof EventSource === 'undefined') {
+    handlers.onStatus?.('polling');
+    return () => {};
+  }
+
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+  let closed = false;
+
+  const listen = <T>(name: string, parse: (data: unknown) => T, handle?: (event: T) => void) => {
+    source?.addEventListener(name, (event) => {
+      try {
+        handle?.(parse(JSON.parse((event as MessageEvent).data)));
+      } catch (err) {
+        // A malformed event is dropped; the next poll/resync corrects the state
+        console.error(`Ignoring ${name} event:`, err instanceof SchemaError ? err.message : err);
+      }
+    });
+  };
+
+  const open = () => {
+    // EventSource can't send headers - the session token goes in the query string
+    const token = getSession()?.token;
+    source = new EventSource(`${API_BASE}/api/stream?pairs=${pairs.join(',')}${token ? `&token=${encodeURIComponent(token)}` : ''}`);
+    source.onopen = () => {
+      attempt = 0;
+      handlers.onStatus?.('live');
+    };
+    source.onerror = () => {
+      source?.close();
+      if (closed) return;
+      attempt += 1;
+      handlers.onStatus?.(attempt >= ATTEMPTS_BEFORE_POLLING ? 'polling' : 'reconnecting');
+      retryTimer = setTimeout(open, backoffDelay(attempt));
+    };
+    listen('price', parsePriceTick, handlers.onPrice);
+    listen('setup_status', parseSetupStatusEvent, handlers.onSetupStatus);
+    listen('trade_status', parseTradeStatusEvent, handlers.onTradeStatus);
+  };
+
+  handlers.onStatus?.('connecting');
+  open();
+
+  return () => {
+    closed = true;
+    clearTimeout(retryTimer);
+    source?.close();
+  };
+}
+
+// React binding: keeps one stream open per set of pairs and reports its status; no pairs, no stream
+export function useLiveStream(pairs: string[], handlers: Omit<StreamHandlers, 'onStatus'>): StreamStatus {
+  const [status, setStatus] = useState<StreamStatus>('connecting');
+  const handlersRef = useRef(handlers);
+  const key = pairs.join(',');
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!key) return;
+    return connectStream(key.split(','), {
+      onPrice: tick => handlersRef.current.onPrice?.(tick),
+      onSetupStatus: event => handlersRef.current.onSetupStatus?.(event),
+      onTradeStatus: event => handlersRef.current.onTradeStatus?.(event),
+      onStatus: setStatus
+    });
+  }, [key]);
+
+  return status;
+}
@@ -0,0 +1,70 @@
+/*
+ * TOASTS
+ * ======
+ *
+ * One way for every page to tell the user what happened - trade entered,
+ * exit refused, backend unreachable - instead of alert(). Call toast.success /
+ * toast.error / toast.info from anywhere in the browser; components/Toaster.tsx
+ * (mounted once in app/layout.tsx) shows them in the corner and dismisses them
+ * after a few seconds. Errors stay up longer than confirmations.
+ */
+
+import { useEffect, useState } from 'react';
+
+export type ToastKind = 'success' | 'error' | 'info';
+
+export interface Toast {
+  id: string;
+  kind: ToastKind;
+  title: string;
+  message?: string;
+}
+
+// Fired on window for every new toast
+const TOAST_EVENT = 'fx-toast';
+
+const DISMISS_AFTER_MS: Record<ToastKind, number> = { success: 5000, info: 5000, error: 10000 };
+
+const MAX_VISIBLE = 4;
+
+function show(kind: ToastKind, title: string, message?: string) {
+  if (typeof window === 'undefined') return;
+  const toast: Toast = { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, kind, title, message };
+  window.dispatchEvent(new CustomEvent<Toast>(TOAST_EVENT, { detail: toast }));
+}
+
+// Message of anything thrown - ApiError / ContractError messages are already user-facing
+export const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+export const toast = {
+  success: (title: string, message?: string) => show('success', title, message),
+  info: (title: string, message?: string) => show('info', title, message),
+  error: (title: string, err?: unknown) => show('error', title, err === undefined ? undefined : errorMessage(err))
+};
+
+// Toasts currently on screen, newest last
+export function useToasts(): [Toast[], (id: string) => void] {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const dismiss = (id: string) => setToasts(prev => prev.filter(t => t.id !== id));
+
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    const add = (event: Event) => {
+      const toast = (event as CustomEvent<Toast>).detail;
+      setToasts(prev => [...prev, toast].slice(-MAX_VISIBLE));
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        dismiss(toast.id);
+      }, DISMISS_AFTER_MS[toast.kind]);
+      timers.add(timer);
+    };
+    window.addEventListener(TOAST_EVENT, add);
+    return () => {
+      window.removeEventListener(TOAST_EVENT, add);
+      timers.forEach(clearTimeout);
+    };
+  }, []);
+
+  return [toasts, dismiss];
+}
@@ -0,0 +1,139 @@
+/*
+ * TRADE MATH
+ * ==========
+ *
+ * Direction-aware helpers shared by the trade entry, management and exit
+ * flows: which side a trader trades, whether SL/TP sit on the correct side of
+ * entry (or of the current price, once in a trade), the resulting risk and R:R
+ * in pips, where a break-even or trailing stop goes, and what an exit would
+ * realize.
+ */
+
+import { PairConfig } from './pairs';
+import type { TradeDirection, TraderSide, TrailingStop } from './types';
+
+export interface TradeLevels {
+  entry_price: number;
+  stop_loss: number;
+  take_profit_1: number;
+  take_profit_2?: number;
+}
+
+// Fallback targets when the trade plan has no TP yet (100 pips = $10 on gold)
+const FALLBACK_TP_PIPS = [100, 200];
+
+export const directionFor = (side: TraderSide): TradeDirection => (side === 'bullish' ? 'LONG' : 'SHORT');
+
+// +1 for LONG, -1 for SHORT - multiply a price distance to get it in the trade's favour
+export const directionSign = (direction: TradeDirection) => (direction === 'LONG' ? 1 : -1);
+
+export const toPips = (pair: PairConfig, distance: number) => distance / pair.pipSize;
+
+export const fallbackTargets = (pair: PairConfig, direction: TradeDirection, price: number) =>
+  FALLBACK_TP_PIPS.map(pips => price + directionSign(direction) * pips * pair.pipSize);
+
+// Parses backend price strings such as "$2645.20"
+export const parsePrice = (value: string) => parseFloat(value.replace(/[$,]/g, ''));
+
+// Returns one message per level on the wrong side of entry; empty when valid
+export function validateTradeLevels(direction: TradeDirection, levels: TradeLevels): string[] {
+  const { entry_price, stop_loss, take_profit_1, take_profit_2 } = levels;
+  const errors: string[] = [];
+  const numbers = [entry_price, stop_loss, take_profit_1, ...(take_profit_2 === undefined ? [] : [take_profit_2])];
+
+  if (numbers.some(n => typeof n !== 'number' || isNaN(n))) {
+    return ['Entry, stop loss and take profit must all be set'];
+  }
+
+  const sign = directionSign(direction);
+  const below = direction === 'LONG' ? 'below' : 'above';
+  const above = direction === 'LONG' ? 'above' : 'below';
+
+  if ((entry_price - stop_loss) * sign <= 0) errors.push(`Stop loss must be ${below} entry for a ${direction} trade`);
+  if ((take_profit_1 - entry_price) * sign <= 0) errors.push(`Take profit 1 must be ${above} entry for a ${direction} trade`);
+  if (take_profit_2 !== undefined && (take_profit_2 - entry_price) * sign <= 0) {
+    errors.push(`Take profit 2 must be ${above} entry for a ${direction} trade`);
+  }
+
+  return errors;
+}
+
+export function riskReward(pair: PairConfig, levels: TradeLevels) {
+  const riskPips = toPips(pair, Math.abs(levels.entry_price - levels.stop_loss));
+  const rewardPips = toPips(pair, Math.abs(levels.take_profit_1 - levels.entry_price));
+  return {
+    riskPips,
+    rewardPips,
+    riskReward: riskPips > 0 ? rewardPips / riskPips : 0
+  };
+}
+
+// ---- Managing an open trade ----
+
+const roundPrice = (pair: PairConfig, price: number) => Number(price.toFixed(pair.decimals));
+
+// Stop and targets of an open trade must sit on either side of where price is now - once TP1 has
+// filled, price is already past it and only the stop and TP2 are checked
+export function validateOpenTradeLevels(direction: TradeDirection, price: number, levels: Omit<TradeLevels, 'entry_price'>, tp1Taken = false): string[] {
+  return validateTradeLevels(direction, { ...levels, entry_price: price })
+    .filter(message => !(tp1Taken && message.startsWith('Take profit 1')))
+    .map(message => message.replace(/entry for a/, 'the current price for a'));
+}
+
+// Stop already at entry or better - the trade can no longer lose
+export const stopIsProtected = (direction: TradeDirection, levels: { entry_price: number; stop_loss: number }) =>
+  (levels.stop_loss - levels.entry_price) * directionSign(direction) >= 0;
+
+// Break-even is only possible once price has moved past entry
+export const canMoveToBreakEven = (direction: TradeDirection, price: number, levels: { entry_price: number; stop_loss: number }) =>
+  !stopIsProtected(direction, levels) && (price - levels.entry_price) * directionSign(direction) > 0;
+
+// Price distance a trailing stop keeps; null in ATR mode when the backend sent no ATR
+export const trailDistance = (pair: PairConfig, trail: TrailingStop, atr?: number) =>
+  trail.mode === 'pips' ? trail.distance * pair.pipSize : atr === undefined ? null : trail.distance * atr;
+
+// Where the trail puts the stop at this price - a trailing stop only ever moves in the trade's favour
+export function trailedStop(pair: PairConfig, direction: TradeDirection, price: number, stop: number, trail: TrailingStop, atr?: number): number | null {
+  const distance = trailDistance(pair, trail, atr);
+  if (distance === null || !(distance > 0)) return null;
+  const candidate = roundPrice(pair, price - directionSign(direction) * distance);
+  return (candidate - stop) * directionSign(direction) > 0 ? candidate : stop;
+}
+
+export const describeTrail = (trail: TrailingStop) =>
+  trail.mode === 'pips' ? `${trail.distance} pips` : `${trail.distance}× ATR`;
+
+// ---- Exits ----
+
+// Reasons offered in the Exit dialog; stored with the exit in the journal
+export const EXIT_REASONS = ['TP1 hit', 'SL hit', 'Invalidation', 'Manual', 'Time stop'];
+
+export const EXIT_PORTIONS = [25, 50, 75, 100];
+
+// Percent of the full position an exit closes, given the percent of the open position chosen
+export const exitSize = (openSize: number, portion: number) => Math.round(openSize * portion) / 100;
+
+export interface ExitPreview {
+  pips: number;
+  r: number | null;        // per unit, against the stop in place at entry
+  pnl: number | null;      // account currency, when the full position's planned risk is known
+}
+
+// What closing sizeOfFull % of the position at exitPrice would realize
+export function exitPreview(
+  pair: PairConfig,
+  direction: TradeDirection,
+  levels: { entry_price: number; stop_loss: number },
+  exitPrice: number,
+  sizeOfFull: number,
+  fullRiskAmount?: number
+): ExitPreview {
+  const move = (exitPrice - levels.entry_price) * directionSign(direction);
+  const risk = Math.abs(levels.entry_price - levels.stop_loss);
+  const r = risk > 0 ? move / risk : null;
+  return {
+    pips: toPips(pair, move),
+    r,
+    pnl: r !== null && fullRiskAmount !== undefined ? r * fullRiskAmount * (sizeOfFull / 100) : null
+  };
+}
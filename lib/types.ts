@@ -0,0 +1,471 @@
+/*
+ * BACKEND PAYLOAD TYPES
+ * =====================
+ *
+ * Shapes returned by the FastAPI backend (https://github.com/Ohlluu/fx-trading-backend).
+ * Field names mirror the backend (snake_case). Payloads are checked at runtime
+ * by lib/schema.ts before they reach the pages.
+ */
+
+// ---- Pro Trader: /api/pro-trader-{slug}/analysis ----
+
+export type TraderSide = 'bullish' | 'bearish';
+
+export interface Confluence {
+  type: string;          // LIQUIDITY_GRAB, FVG, ORDER_BLOCK, BREAKOUT_RETEST, ...
+  score: number;
+  description: string;
+  zone_low?: number;     // Price zone (FVG / order block / S&D) when the backend provides one
+  zone_high?: number;
+  price_level?: number;  // Single level (swept liquidity, broken structure)
+}
+
+export interface WatchItem {
+  text: string;
+  status?: string;
+  current?: string;
+  time_left?: string;
+  explanation?: string;
+}
+
+export interface EarlyEntry {
+  type: string;
+  status: string;
+  available: boolean;
+  trigger: string;
+  entry_price: string;
+  stop_loss: string;     // e.g. "$2645.20"
+  position_size: string;
+  pros: string;
+  cons: string;
+}
+
+export interface ConfirmationEntry {
+  type: string;
+  trigger: string;
+  expected_time: string;
+  time_remaining: string;
+  entry_price: string;
+  position_size: string;
+  pros: string;
+  cons: string;
+}
+
+export interface EntryTiming {
+  recommended: string;
+  early_entry: EarlyEntry;
+  confirmation_entry: ConfirmationEntry;
+}
+
+export interface EntryOption {
+  type: string;
+  entry: string;
+  stop_loss?: string;
+  take_profit?: string;
+  risk_pips?: string;
+  reward_pips?: string;
+  risk_reward?: string;
+  why_sl?: string;
+  why_tp?: string;
+  trigger: string;
+  current?: string;
+  current_count?: string;
+  pros: string;
+  cons: string;
+}
+
+export interface SetupStep {
+  step: number;
+  title: string;
+  status: string;        // complete | in_progress | waiting | ready
+  details?: string;
+  explanation?: string;
+  watching_for?: Record<string, WatchItem>;
+  entry_timing?: EntryTiming;
+  entry_options?: EntryOption[];
+  recommendation?: string;
+}
+
+export interface PlanLevel {
+  price: string;         // e.g. "$2645.20"
+  reason?: string;
+  why?: string;
+}
+
+export interface PlanTarget {
+  price: string;
+  rr_ratio?: string;
+  action?: string;
+  why?: string;
+}
+
+export interface TradePlan {
+  status?: string;       // "Not ready yet" while scanning
+  entry_price?: string | number;
+  entry_method?: string;
+  stop_loss?: PlanLevel;
+  take_profit_1?: PlanTarget;
+  take_profit_2?: PlanTarget;
+}
+
+export interface LiveCandle {
+  high: number;
+  low: number;
+  open: number;
+  current: number;
+  time_remaining: number;  // minutes until the H1 candle closes
+  candle_start?: string;
+  candle_close_expected?: string;
+}
+
+export interface TimeframeContext {
+  points?: string[];
+  last_updated?: string;
+  next_update?: string;
+}
+
+export interface SessionContext {
+  current_session: string;
+  strength: string;
+  explanation?: string;
+}
+
+export interface WhyThisSetup {
+  daily?: TimeframeContext;
+  h4?: TimeframeContext;
+  h1?: TimeframeContext;
+  session?: SessionContext;
+}
+
+export interface Invalidation {
+  condition: string;
+  reason: string;
+  action: string;
+  price_level?: number;  // Price that invalidates the setup, when it is a price condition
+}
+
+export interface MarketStructure {
+  structure_type: string;  // BULLISH_BOS, BEARISH_CHOCH, NEUTRAL, ...
+  description?: string;
+}
+
+export interface TraderSetup {
+  setup_status: string;    // SCANNING | RETEST_WAITING | READY
+  pattern_type?: string;
+  total_score?: number;
+  confidence?: string;
+  confluences: Confluence[];
+  setup_steps: SetupStep[];
+  trade_plan: TradePlan;
+  current_price: number;
+  live_candle?: LiveCandle;
+  why_this_setup?: WhyThisSetup;
+  invalidation?: Invalidation[];
+  structure?: MarketStructure;
+  h1_setup?: { pattern_type?: string; direction?: string };
+  tradable?: boolean;
+}
+
+export interface ProTraderAnalysis {
+  bullish: TraderSetup;
+  bearish: TraderSetup;
+}
+
+// ---- Pro Trader: /api/pro-trader-{slug}/history ----
+
+// The analysis as it stood at one hour - stored by the backend, or recomputed from historical candles
+export interface AnalysisSnapshot extends ProTraderAnalysis {
+  time: string;            // ISO timestamp of the hour
+}
+
+// ---- Pro Trader: /api/pro-trader-{slug}/candles ----
+
+export type CandleTimeframe = 'H1' | 'H4' | 'D1';
+
+export interface Candle {
+  time: number;          // Candle open, unix seconds (UTC)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface CandleResponse {
+  timeframe: CandleTimeframe;
+  candles: Candle[];
+}
+
+// ---- Pro Trader: trade endpoints ----
+
+export type TradeDirection = 'LONG' | 'SHORT';
+
+export interface TradeAlert {
+  title: string;
+  message: string;
+  action?: string;
+  priority: string;        // HIGH | MEDIUM | LOW
+}
+
+export interface ActiveTradeStatus {
+  in_trade: true;
+  trade_direction?: TradeDirection;
+  entry_price: number;
+  current_price?: number;
+  stop_loss: number;
+  take_profit_1: number;
+  take_profit_2?: number;
+  position_size: number;   // percent of the full position (50 or 100)
+  pnl?: number;
+  pnl_pct?: number;
+  progress_to_tp1_pct?: number;
+  tp1_hit?: boolean;       // TP1 has filled and the rest runs to TP2
+  time_in_trade?: string;
+  alerts?: TradeAlert[];
+  held_by?: AuthUser;      // user whose position this is
+  trailing_stop?: TrailingStop;  // set when the backend trails the stop
+  atr?: number;            // H1 ATR(14) in price units - trailing stops in ATR multiples are based on it
+}
+
+export type TrailingMode = 'pips' | 'atr';
+
+export interface TrailingStop {
+  mode: TrailingMode;
+  distance: number;        // pips, or a multiple of the ATR
+}
+
+export type TradeStatus = { in_trade: false } | ActiveTradeStatus;
+
+export interface EnterTradeRequest {
+  entry_price: number;
+  position_size: number;
+  stop_loss: number;
+  take_profit_1: number;
+  take_profit_2?: number;
+  trade_direction: TradeDirection;
+  // Position sizing from the account balance / risk % (lib/sizing.ts)
+  lots?: number;
+  units?: number;
+  risk_amount?: number;
+  account_currency?: string;
+}
+
+export interface ExitTradeRequest {
+  exit_price: number;
+  position_size: number;
+  reason: string;
+}
+
+// POST /api/pro-trader-{slug}/modify-trade - only the fields sent are changed
+export interface ModifyTradeRequest {
+  stop_loss?: number;
+  take_profit_1?: number;
+  take_profit_2?: number;
+  trailing_stop?: TrailingStop | null;   // null stops trailing and leaves the stop where it is
+  reason?: string;                        // 'Break-even', 'Trailing stop', 'Targets edited'
+}
+
+export interface TradeActionResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  pnl?: number;
+  pnl_pct?: number;
+}
+
+// ---- Live stream: /api/stream (Server-Sent Events) ----
+
+export interface PriceTick {
+  pair: string;            // pair slug
+  price: number;
+  time: string;
+}
+
+export interface SetupStatusEvent {
+  pair: string;
+  side: TraderSide;
+  setup_status: string;
+  total_score?: number;
+}
+
+export interface TradeStatusEvent {
+  pair: string;
+  status: TradeStatus;
+}
+
+// ---- Errors: every failed /api/... call through the proxy (lib/proxy.ts) ----
+
+export type ProxyErrorCode =
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'BACKEND_ERROR'
+  | 'BACKEND_UNREACHABLE'
+  | 'TIMEOUT'
+  | 'INVALID_RESPONSE'
+  | 'NOT_CONFIGURED';     // no backend URL for the selected environment
+
+export interface ProxyErrorBody {
+  error: {
+    status: number;
+    code: ProxyErrorCode;
+    message: string;
+    detail?: unknown;      // backend validation details, when there are any
+  };
+}
+
+// ---- Auth: /api/auth/... ----
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string;
+}
+
+export interface AuthSession {
+  token: string;           // sent as Authorization: Bearer <token>
+  user: AuthUser;
+  expires_at?: string;     // ISO timestamp
+}
+
+// ---- Settings ----
+
+export interface TelegramPairRule {
+  pair: string;            // pair slug, see lib/pairs.ts
+  bullish: boolean;
+  bearish: boolean;
+  min_score: number;       // confluence score that triggers a message
+}
+
+export interface NotificationDelivery {
+  sent_at: string;         // ISO timestamp
+  success: boolean;
+  pair?: string;
+  message?: string;
+  error?: string;
+}
+
+export interface TelegramSettings {
+  chat_id: string;
+  bot_token?: string;      // write-only; the backend never returns it
+  enabled: boolean;
+  pairs?: TelegramPairRule[];
+}
+
+// GET /api/settings/telegram
+export interface SavedTelegramSettings extends Omit<TelegramSettings, 'bot_token'> {
+  bot_token_set?: boolean;
+  last_delivery?: NotificationDelivery | null;
+}
+
+export type NotificationChannelKind = 'discord' | 'slack' | 'email' | 'webhook';
+
+// GET/POST /api/settings/channels - see lib/channels.ts for the fields of each kind
+export interface NotificationChannel {
+  id: string;
+  kind: NotificationChannelKind;
+  name: string;
+  enabled: boolean;
+  config: Record<string, string>;   // secret fields are write-only and come back empty
+  template: string;                 // message template with {{placeholders}}
+  secrets_set?: string[];           // secret config keys the backend has stored
+  last_delivery?: NotificationDelivery | null;
+}
+
+// POST /api/settings/strategy - thresholds and weights the backend scores with, see lib/strategy.ts
+export interface StrategyScoring {
+  min_score: number;
+  good_score: number;
+  strong_score: number;
+  max_score: number;
+  alert_score: number;
+  weights: Record<string, number>;  // by confluence type, 1 = unchanged
+}
+
+// ---- Legacy signal pages: /api/{xauusd|gbpusd}/analysis and /scan ----
+
+export interface SkipInfo {
+  skip_reason: string;
+  context: string;
+}
+
+export interface SignalSession {
+  current_session: string;
+  expected_range?: number;
+  session_strength: string;
+  hours_remaining?: number;
+}
+
+export interface XAUUSDSignal {
+  signal: string;
+  symbol: string;
+  entry_price: number;
+  stop_loss: number;
+  take_profit: number;
+  confluence_score: number;
+  signal_strength: string;
+  risk_reward_ratio: number;
+  atr_stop_pips: number;
+  key_levels?: Array<{
+    level: number;
+    distance_pips: number;
+    strength: string;
+    bounce_rate: number;
+  }>;
+  trade_reasons?: string[];
+  timestamp_chicago: string;
+  session_info?: {
+    current_session: string;
+    expected_range: number;
+    session_strength: string;
+  };
+}
+
+export interface XAUUSDAnalysis {
+  status: 'signal' | 'no_signal' | 'error';
+  data: {
+    signal?: XAUUSDSignal;
+    skip_info?: SkipInfo;
+    market_data: {
+      current_price: number;
+      session: SignalSession;
+    };
+    levels?: Array<{
+      level: number;
+      distance_pips: number;
+      direction: string;
+      is_major: boolean;
+      bounce_rate?: number;
+      touches?: number;
+      distance_percent?: number;
+    }>;
+    last_update?: string;
+  };
+}
+
+export interface GBPUSDSignal {
+  signal: string;
+  entry_price: number;
+  stop_loss: number;
+  take_profit: number;
+  confluence_score: number;
+  risk_reward_ratio: number;
+  trade_reasons?: string[];
+  timestamp: string;
+}
+
+export interface GBPUSDAnalysis {
+  status: 'signal' | 'no_signal' | 'error';
+  pair: string;
+  data: {
+    signal?: GBPUSDSignal;
+    skip_info?: SkipInfo;
+    market_data: {
+      current_price: number;
+      session: SignalSession;
+      timestamp: string;
+    };
+    last_update?: string;
+  };
+}
@@ -0,0 +1,115 @@
+/*
+ * HOME WATCHLIST
+ * ==============
+ *
+ * Which pairs the home scanner shows, in which order, and how the grid is
+ * sorted/filtered - saved in localStorage. Also derives the per-side scanner
+ * fields (distance to entry, time since the setup_status last changed) from
+ * the /bullish and /bearish payloads. The score is kept as the backend sent
+ * it, with its confluences, so the page can weigh it with the current strategy
+ * (lib/strategy.ts).
+ */
+
+import { PAIRS, PairConfig } from './pairs';
+import { parsePrice, toPips } from './trade';
+import type { Confluence, TraderSetup, TraderSide } from './types';
+
+export type WatchlistSort = 'order' | 'score' | 'distance';
+
+export interface WatchlistConfig {
+  slugs: string[];         // pairs shown, in display order
+  sort: WatchlistSort;
+  minScore: number;        // hide pairs whose best side scores below this (0 = show all)
+  readyOnly: boolean;      // only pairs with a READY side
+}
+
+export interface WatchlistSide {
+  setup_status: string;
+  total_score: number;           // as sent - see setupScore in lib/strategy.ts
+  confluences: Confluence[];
+  pattern_type?: string;
+  confidence?: string;
+  tradable?: boolean;
+  distancePips: number | null;   // current price to planned entry
+  statusSince?: string;          // ISO time the setup_status was first seen with its current value
+}
+
+const CONFIG_KEY = 'fx-watchlist';
+const STATUS_SINCE_KEY = 'fx-watchlist-status-since';
+
+export const DEFAULT_WATCHLIST: WatchlistConfig = {
+  slugs: PAIRS.map(p => p.slug),
+  sort: 'order',
+  minScore: 0,
+  readyOnly: false
+};
+
+export function loadWatchlist(): WatchlistConfig {
+  try {
+    const saved = localStorage.getItem(CONFIG_KEY);
+    const config: WatchlistConfig = saved ? { ...DEFAULT_WATCHLIST, ...JSON.parse(saved) } : DEFAULT_WATCHLIST;
+    // Drop pairs that were removed from the registry since the list was saved
+    return { ...config, slugs: config.slugs.filter(slug => PAIRS.some(p => p.slug === slug)) };
+  } catch {
+    return DEFAULT_WATCHLIST;
+  }
+}
+
+export const saveWatchlist = (config: WatchlistConfig) =>
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+
+export const moveSlug = (slugs: string[], slug: string, offset: -1 | 1) => {
+  const from = slugs.indexOf(slug);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= slugs.length) return slugs;
+  const moved = [...slugs];
+  [moved[from], moved[to]] = [moved[to], moved[from]];
+  return moved;
+};
+
+// Remembers when each pair/side's setup_status last changed; returns that time
+function statusSince(slug: string, side: TraderSide, status: string): string {
+  const key = `${slug}:${side}`;
+  let seen: Record<string, { status: string; since: string }> = {};
+  try {
+    seen = JSON.parse(localStorage.getItem(STATUS_SINCE_KEY) || '{}');
+  } catch {
+    // Corrupt entry - start over
+  }
+  if (seen[key]?.status !== status) {
+    seen[key] = { status, since: new Date().toISOString() };
+    localStorage.setItem(STATUS_SINCE_KEY, JSON.stringify(seen));
+  }
+  return seen[key].since;
+}
+
+const entryPrice = (setup: Partial<TraderSetup>) => {
+  const value = setup.trade_plan?.entry_price;
+  const price = typeof value === 'number' ? value : typeof value === 'string' ? parsePrice(value) : NaN;
+  return isNaN(price) ? null : price;
+};
+
+export function watchlistSide(pair: PairConfig, side: TraderSide, setup: Partial<TraderSetup> | null): WatchlistSide {
+  const entry = setup ? entryPrice(setup) : null;
+  const status = setup?.setup_status || 'UNKNOWN';
+  return {
+    setup_status: status,
+    total_score: setup?.total_score || 0,
+    confluences: setup?.confluences || [],
+    pattern_type: setup?.pattern_type,
+    confidence: setup?.confidence,
+    tradable: setup?.tradable,
+    distancePips: entry !== null && setup?.current_price ? toPips(pair, Math.abs(setup.current_price - entry)) : null,
+    statusSince: setup?.setup_status ? statusSince(pair.slug, side, status) : undefined
+  };
+}
+
+// "12m", "3h 05m", "2d 4h"
+export function formatElapsed(since: string | undefined, now = Date.now()): string {
+  if (!since) return '—';
+  const minutes = Math.max(0, Math.floor((now - new Date(since).getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${String(minutes % 60).padStart(2, '0')}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
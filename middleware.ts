@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SCENARIO_COOKIE, SCENARIO_PARAM, isScenarioName } from '@/lib/mock/scenarios';
+
+// Keeps ?scenario= from a page URL in a cookie so the page's /api calls get the
+// same mock scenario - see lib/mock/scenarios.ts
+export function middleware(request: NextRequest) {
+  const scenario = request.nextUrl.searchParams.get(SCENARIO_PARAM);
+  const response = NextResponse.next();
+  if (scenario === null) return response;
+
+  if (isScenarioName(scenario) && scenario !== 'default') {
+    response.cookies.set(SCENARIO_COOKIE, scenario, { path: '/', sameSite: 'lax' });
+  } else {
+    response.cookies.delete(SCENARIO_COOKIE);
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ['/((?!api|_next|favicon.ico).*)']
+};
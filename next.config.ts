@@ -2,6 +2,14 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   reactStrictMode: true,
+  async redirects() {
+    // Legacy per-pair pages, now served by /pro-trader/[pair]
+    return [
+      { source: "/pro-trader-gold", destination: "/pro-trader/gold", permanent: true },
+      { source: "/pro-trader-eurusd", destination: "/pro-trader/eurusd", permanent: true },
+      { source: "/pro-trader-gbpusd", destination: "/pro-trader/gbpusd", permanent: true },
+    ];
+  },
 };
 
 export default nextConfig;
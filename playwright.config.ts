@@ -0,0 +1,30 @@
+import { defineConfig, devices } from '@playwright/test';
+
+const PORT = 3100;
+
+// End-to-end tests run against a production build on the mock environment (lib/mock/backend.ts) -
+// no backend or market data needed
+export default defineConfig({
+  testDir: 'tests/e2e',
+  fullyParallel: false,
+  workers: 1,
+  retries: process.env.CI ? 1 : 0,
+  use: {
+    baseURL: `http://localhost:${PORT}`,
+    trace: 'retain-on-failure'
+  },
+  projects: [
+    { name: 'chromium', use: { ...devices['Desktop Chrome'] } }
+  ],
+  webServer: {
+    command: `npm run build && npm run start -- -p ${PORT}`,
+    url: `http://localhost:${PORT}/login`,
+    timeout: 300000,
+    reuseExistingServer: !process.env.CI,
+    env: {
+      NEXT_PUBLIC_APP_ENV: 'mock',
+      NEXT_PUBLIC_AUTH_PROVIDERS: 'local',
+      NEXT_PUBLIC_STREAMING: 'false'
+    }
+  }
+});
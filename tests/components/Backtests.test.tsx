@@ -0,0 +1,147 @@
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import BacktestsPage from '@/app/backtests/page';
+import {
+  BacktestTrade,
+  backtestStats,
+  confluenceContribution,
+  parseBacktestFile,
+  rDistribution
+} from '@/lib/backtest';
+import { signIn } from './helpers';
+import { table } from '../mocks/db';
+
+vi.mock('next/navigation', () => ({ useSearchParams: () => new URLSearchParams() }));
+
+const rows = table('backtests');
+
+const trade = (r: number, confluences: string[], closed_at: string): BacktestTrade => ({
+  opened_at: closed_at,
+  closed_at,
+  direction: 'LONG',
+  entry_price: 100,
+  exit_price: 100 + r,
+  stop_loss: 99,
+  r_multiple: r,
+  confluences
+});
+
+// +2, -1, -1, +3, -1 in close order
+const trades = [
+  trade(-1, ['FVG'], '2024-01-03T00:00:00Z'),
+  trade(2, ['LIQUIDITY_GRAB', 'FVG'], '2024-01-01T00:00:00Z'),
+  trade(-1, ['FVG'], '2024-01-02T00:00:00Z'),
+  trade(3, ['LIQUIDITY_GRAB'], '2024-01-04T00:00:00Z'),
+  trade(-1, [], '2024-01-05T00:00:00Z')
+];
+
+const jsonRun = (name: string, minScore: number) => JSON.stringify({
+  name,
+  pair: 'gold',
+  parameters: { min_score: minScore, session: 'London' },
+  trades: [{
+    opened_at: '2024-03-04T08:00:00Z',
+    closed_at: '2024-03-04T15:00:00Z',
+    direction: 'SHORT',
+    entry_price: 2115,
+    exit_price: 2100,
+    stop_loss: 2120,
+    confluences: ['LIQUIDITY_GRAB', 'FVG'],
+    exit_reason: 'TP1 hit'
+  }]
+});
+
+const CSV = [
+  '# pair: gbpusd',
+  '# name: Cable London',
+  '# min_score: 5',
+  '# trail: true',
+  'opened_at,closed_at,direction,entry_price,exit_price,stop_loss,pnl,confluences,exit_reason',
+  '2024-05-01T07:00:00Z,2024-05-01T12:00:00Z,LONG,1.2500,1.2540,1.2480,40,FVG|ORDER_BLOCK,"TP1 hit, rest at BE"',
+  '2024-05-02T07:00:00Z,2024-05-02T09:00:00Z,long,1.2600,1.2580,1.2580,-20,,SL hit'
+].join('\n');
+
+beforeEach(() => signIn());
+
+describe('backtest files', () => {
+  it('reads a JSON run and works out R from the prices', () => {
+    const run = parseBacktestFile('gold-h1.json', jsonRun('Gold H1', 7));
+
+    expect(run).toMatchObject({ name: 'Gold H1', pair: 'gold', strategy: 'confluence', parameters: { min_score: 7 } });
+    expect(run.trades[0]).toMatchObject({ direction: 'SHORT', r_multiple: 3, confluences: ['LIQUIDITY_GRAB', 'FVG'] });
+  });
+
+  it('reads a CSV run with parameters in the comment lines', () => {
+    const run = parseBacktestFile('cable.csv', CSV);
+
+    expect(run).toMatchObject({ name: 'Cable London', pair: 'gbpusd', parameters: { min_score: 5, trail: true } });
+    expect(run.trades).toHaveLength(2);
+    expect(run.trades[0]).toMatchObject({ pnl: 40, confluences: ['FVG', 'ORDER_BLOCK'], exit_reason: 'TP1 hit, rest at BE' });
+    expect(run.trades[0].r_multiple).toBeCloseTo(2);
+    expect(run.trades[1]).toMatchObject({ direction: 'LONG', confluences: [] });
+    expect(run.trades[1].r_multiple).toBeCloseTo(-1);
+  });
+
+  it('names the field that broke the import', () => {
+    expect(() => parseBacktestFile('bad.csv', CSV.replace('1.2540', 'n/a'))).toThrow('line 6.exit_price: expected number, got string');
+    expect(() => parseBacktestFile('bad.json', jsonRun('x', 7).replace('"gold"', '"usdjpy"'))).toThrow(/^pair: expected one of gold/);
+    expect(() => parseBacktestFile('bad.json', '{"pair": "gold"}')).toThrow('trades: expected array, got nothing (field missing)');
+  });
+});
+
+describe('backtest statistics', () => {
+  it('measures the run in R', () => {
+    expect(backtestStats(trades)).toEqual({
+      trades: 5,
+      wins: 2,
+      losses: 3,
+      winRate: 40,
+      avgR: 0.4,
+      totalR: 2,
+      profitFactor: 5 / 3,
+      maxDrawdownR: 2,
+      longestLosingStreak: 2
+    });
+  });
+
+  it('buckets R and rates each confluence against the trades without it', () => {
+    const buckets = Object.fromEntries(rDistribution(trades).map(b => [b.label, b.count]));
+    expect(buckets).toMatchObject({ '-1R to 0R': 3, '2R to 3R': 1, '3R to 4R': 1 });
+
+    expect(confluenceContribution(trades)).toEqual([
+      { type: 'LIQUIDITY_GRAB', trades: 2, winRate: 100, avgR: 2.5, totalR: 5, edge: 3.5 },
+      { type: 'FVG', trades: 3, winRate: (1 / 3) * 100, avgR: 0, totalR: 0, edge: -1 }
+    ]);
+  });
+});
+
+describe('backtests page', () => {
+  const upload = (...files: File[]) =>
+    fireEvent.change(screen.getByLabelText(/Import result files/), { target: { files } });
+
+  it('imports two runs and compares them', async () => {
+    render(<BacktestsPage />);
+    expect(await screen.findByText(/No backtest runs yet/)).toBeInTheDocument();
+
+    upload(
+      new File([jsonRun('Score 7', 7)], 'a.json', { type: 'application/json' }),
+      new File([jsonRun('Score 5', 5)], 'b.json', { type: 'application/json' })
+    );
+
+    const compare = within((await screen.findByText('⚖️ COMPARE')).parentElement as HTMLElement);
+    expect(compare.getByText('A: Score 7')).toBeInTheDocument();
+    expect(compare.getByText('min_score').parentElement).toHaveClass('text-yellow-300');
+    expect(compare.getByText('session').parentElement).not.toHaveClass('text-yellow-300');
+    expect(screen.getAllByText('💰 Equity (R)')).toHaveLength(2);
+  });
+
+  it('lists files that could not be imported', async () => {
+    render(<BacktestsPage />);
+    await screen.findByText(/No backtest runs yet/);
+
+    upload(new File(['{"pair": "gold", "trades": [{}]}'], 'broken.json'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('broken.json: trades[0].direction: expected string');
+    expect(rows.size).toBe(0);
+  });
+});
@@ -0,0 +1,45 @@
+import { screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { fixtureSetup } from '@/lib/fixtures/analysis';
+import { analysis, gold, renderDashboard } from './helpers';
+
+describe('confluence panel', () => {
+  it('scores a READY setup with three stars and lists every pattern', async () => {
+    await renderDashboard(analysis('READY'));
+
+    expect(screen.getByText('11 points')).toBeInTheDocument();
+    expect(screen.getByText('⭐⭐⭐')).toBeInTheDocument();
+    expect(screen.getByText('HIGH')).toBeInTheDocument();
+    ['LIQUIDITY GRAB', 'FVG', 'ORDER BLOCK', 'BREAKOUT RETEST'].forEach(name => {
+      expect(screen.getByText(name)).toBeInTheDocument();
+    });
+    expect(screen.getAllByText('+3')).toHaveLength(3);
+    expect(screen.getByText('+2')).toBeInTheDocument();
+  });
+
+  it('scores a retest setup with two stars', async () => {
+    await renderDashboard(analysis('RETEST_WAITING'));
+
+    expect(screen.getByText('8 points')).toBeInTheDocument();
+    expect(screen.getByText('⭐⭐')).toBeInTheDocument();
+    expect(screen.getByText('MEDIUM')).toBeInTheDocument();
+    expect(screen.getByText(/H1 bullish break of structure/)).toBeInTheDocument();
+  });
+
+  it('warns about low confluence when nothing was detected', async () => {
+    const setup = { ...fixtureSetup(gold, 'bullish', 'SCANNING'), confluences: [], total_score: 0 };
+    await renderDashboard(analysis(setup));
+
+    expect(screen.getByText('0 points')).toBeInTheDocument();
+    expect(screen.getByText('Low Confluence')).toBeInTheDocument();
+    // Neutral structure is not worth a line
+    expect(screen.queryByText('Market Structure:')).not.toBeInTheDocument();
+  });
+
+  it('leaves the panel out when the backend sends no score', async () => {
+    const setup = { ...fixtureSetup(gold, 'bullish', 'SCANNING'), total_score: undefined };
+    await renderDashboard(analysis(setup));
+
+    expect(screen.queryByText('🎯 Confluence Analysis')).not.toBeInTheDocument();
+  });
+});
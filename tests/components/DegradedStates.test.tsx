@@ -0,0 +1,86 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import ProTraderDashboard from '@/components/ProTraderDashboard';
+import SectionBoundary from '@/components/SectionBoundary';
+import * as api from '@/lib/api';
+import { fixtureTrade } from '@/lib/fixtures/analysis';
+import { analysis, gold, renderDashboard } from './helpers';
+
+const backendDown = new api.ApiError('Backend returned HTTP 500', 500, 'BACKEND_ERROR');
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('stale data', () => {
+  it('keeps the last analysis on screen when a refresh fails', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    await renderDashboard(analysis('READY'));
+
+    vi.mocked(api.fetchProTraderAnalysis).mockRejectedValue(backendDown);
+    await act(() => vi.advanceTimersByTimeAsync(3 * 60000)); // three missed polls
+
+    expect(screen.getByText(/Data is 3m stale/)).toBeInTheDocument();
+    expect(screen.getByText('Backend returned HTTP 500')).toBeInTheDocument();
+    expect(screen.getByText('11 points')).toBeInTheDocument();
+
+    vi.mocked(api.fetchProTraderAnalysis).mockResolvedValue(analysis('READY'));
+    fireEvent.click(screen.getByRole('button', { name: 'Retry now' }));
+    await vi.waitFor(() => expect(screen.queryByText(/stale/)).not.toBeInTheDocument());
+  });
+
+  it('keeps an open trade on screen when its status cannot be refreshed', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    await renderDashboard(analysis('READY'), fixtureTrade(gold, 'bullish'));
+
+    vi.mocked(api.fetchTradeStatus).mockRejectedValue(backendDown);
+    await act(() => vi.advanceTimersByTimeAsync(60000));
+
+    expect(screen.getByText('Trade status: Backend returned HTTP 500')).toBeInTheDocument();
+    expect(screen.getByText(/ACTIVE TRADE MONITORING/)).toBeInTheDocument();
+  });
+
+  it('shows the error page with a retry when nothing has loaded yet', async () => {
+    vi.mocked(api.fetchProTraderAnalysis).mockRejectedValue(backendDown);
+    vi.mocked(api.fetchTradeStatus).mockResolvedValue({ in_trade: false });
+    render(<ProTraderDashboard pair={gold} />);
+
+    expect(await screen.findByText('Failed to load')).toBeInTheDocument();
+    vi.mocked(api.fetchProTraderAnalysis).mockResolvedValue(analysis('SCANNING'));
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(await screen.findByText(/CURRENT SETUP PLAN/)).toBeInTheDocument();
+  });
+});
+
+describe('trade action feedback', () => {
+  it('reports a failed entry and keeps the modal open', async () => {
+    await renderDashboard(analysis('RETEST_WAITING'));
+    vi.mocked(api.enterTrade).mockRejectedValue(new api.ApiError('Backend did not respond within 20s', 504, 'TIMEOUT'));
+
+    fireEvent.click(screen.getByRole('button', { name: /I TOOK THE TRADE/ }));
+    fireEvent.click(screen.getByRole('button', { name: /Confirm Entry/ }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Backend did not respond within 20s');
+    expect(screen.getByText('✅ Confirm Trade Entry')).toBeInTheDocument();
+  });
+});
+
+describe('section boundary', () => {
+  const Broken = () => {
+    throw new Error('levels missing');
+  };
+
+  it('contains a section that fails to render', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(
+      <>
+        <SectionBoundary name="Trade Plan"><Broken /></SectionBoundary>
+        <p>Rest of the page</p>
+      </>
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Trade Plan could not be displayed');
+    expect(screen.getByText('levels missing')).toBeInTheDocument();
+    expect(screen.getByText('Rest of the page')).toBeInTheDocument();
+  });
+});
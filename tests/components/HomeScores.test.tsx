@@ -0,0 +1,101 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Home from '@/app/page';
+import { fetchProTraderSide } from '@/lib/api';
+import { FixtureStatus, fixtureSetup } from '@/lib/fixtures/analysis';
+import { getPair } from '@/lib/pairs';
+import type { TraderSide } from '@/lib/types';
+
+// Status the stubbed backend serves per pair and side; a missing pair answers like the proxy does for a 404
+let statuses: Record<string, Partial<Record<TraderSide, FixtureStatus>>>;
+
+const respond = (url: string) => {
+  const [, slug, side] = url.match(/pro-trader-(\w+)\/(bullish|bearish)$/) || [];
+  const status = statuses[slug]?.[side as TraderSide];
+  if (!status) {
+    return Promise.resolve(Response.json({ error: { status: 404, code: 'NOT_FOUND', message: 'Pair not found' } }, { status: 404 }));
+  }
+  return Promise.resolve(Response.json(fixtureSetup(getPair(slug)!, side as TraderSide, status)));
+};
+
+const card = async (name: string) => {
+  const link = await screen.findByRole('link', { name });
+  return link.closest('.rounded-lg') as HTMLElement;
+};
+
+describe('home score cards', () => {
+  beforeEach(() => {
+    statuses = {
+      gold: { bullish: 'READY', bearish: 'SCANNING' },
+      eurusd: { bullish: 'RETEST_WAITING', bearish: 'RETEST_WAITING' },
+      gbpusd: { bullish: 'SCANNING', bearish: 'SCANNING' }
+    };
+    vi.spyOn(globalThis, 'fetch').mockImplementation(input => respond(String(input)));
+  });
+
+  it('shows each side’s score and signal', async () => {
+    render(<Home />);
+
+    const gold = within(await card('XAU/USD'));
+    expect(await gold.findByText('11')).toBeInTheDocument();
+    // Signal lines are divs; the setup_status detail under them is a span
+    expect(gold.getByText('READY', { selector: 'div' })).toBeInTheDocument();
+    expect(gold.getByText('NO SIGNAL', { selector: 'div' })).toBeInTheDocument();
+
+    const eurusd = within(await card('EUR/USD'));
+    expect(await eurusd.findAllByText('SETUP')).toHaveLength(2);
+    expect(eurusd.getAllByText('8')).toHaveLength(2);
+  });
+
+  it('marks a pair that failed to load', async () => {
+    delete statuses.gbpusd;
+    render(<Home />);
+
+    const gbpusd = within(await card('GBP/USD'));
+    expect(await gbpusd.findByText(/Failed to load: Pair not found/)).toBeInTheDocument();
+    expect(gbpusd.getAllByText('ERROR')).toHaveLength(2);
+  });
+
+  it('retries a scanner request that hit an HTML error page', async () => {
+    const fetch = vi.mocked(globalThis.fetch);
+    fetch.mockResolvedValueOnce(new Response('<html>502 Bad Gateway</html>', { status: 502 }));
+
+    const setup = await fetchProTraderSide(getPair('gold')!, 'bullish');
+
+    expect(setup?.total_score).toBe(11);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a scanner side whose fields changed type', async () => {
+    const setup = fixtureSetup(getPair('gold')!, 'bullish', 'READY');
+    vi.mocked(globalThis.fetch).mockResolvedValueOnce(Response.json({ ...setup, total_score: '11' }));
+
+    await expect(fetchProTraderSide(getPair('gold')!, 'bullish')).rejects.toThrow('total_score: expected number, got string');
+  });
+
+  it('keeps only READY pairs when the filter is on', async () => {
+    render(<Home />);
+    await within(await card('XAU/USD')).findByText('11');
+
+    await userEvent.click(screen.getByLabelText('READY only'));
+
+    expect(screen.getByRole('link', { name: 'XAU/USD' })).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'EUR/USD' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'GBP/USD' })).not.toBeInTheDocument();
+  });
+
+  it('fetches only the watched pairs, and a pair once it is added', async () => {
+    localStorage.setItem('fx-watchlist', JSON.stringify({ slugs: ['gold'] }));
+    const fetched = () => vi.mocked(globalThis.fetch).mock.calls.map(([input]) => String(input).match(/pro-trader-(\w+)\//)?.[1]);
+    render(<Home />);
+    await within(await card('XAU/USD')).findByText('11');
+    expect(new Set(fetched())).toEqual(new Set(['gold']));
+
+    await userEvent.click(screen.getByRole('button', { name: /Edit/ }));
+    await userEvent.selectOptions(screen.getByDisplayValue('+ Add pair...'), 'eurusd');
+
+    expect(await within(await card('EUR/USD')).findAllByText('SETUP')).toHaveLength(2);
+    expect(new Set(fetched())).toEqual(new Set(['gold', 'eurusd']));
+  });
+});
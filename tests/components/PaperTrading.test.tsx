@@ -0,0 +1,162 @@
+import { fireEvent, screen, waitFor, within } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { TRADER, analysis, gold, renderDashboard, signIn } from './helpers';
+import { table } from '../mocks/db';
+import * as api from '@/lib/api';
+import { fixtureLevels } from '@/lib/fixtures/analysis';
+import * as journal from '@/lib/journal';
+import { DEFAULT_PAPER_SETTINGS, PaperPosition, listPaperPositions, modifyPaperTrade, simulatePrice } from '@/lib/paper';
+
+const rows = table('paper');
+
+const { price, entry, stop, tp1, tp2 } = fixtureLevels(gold, 'bullish');
+
+// Gold: 3 pip spread ($0.30) and 0.5 pip slippage ($0.05)
+const settings = DEFAULT_PAPER_SETTINGS;
+
+const position = (changes: Partial<PaperPosition> = {}): PaperPosition => ({
+  id: 'paper-1',
+  user_id: TRADER,
+  pair: 'gold',
+  direction: 'LONG',
+  status: 'open',
+  opened_at: '2026-10-19T08:00:00.000Z',
+  entry_price: entry,
+  initial_stop: stop,
+  stop_loss: stop,
+  take_profit_1: tp1,
+  take_profit_2: tp2,
+  position_size: 100,
+  units: 0,
+  tp1_taken: false,
+  fills: [{ time: '2026-10-19T08:00:00.000Z', kind: 'entry', reason: 'Entry', quote: entry, price: entry, position_size: 100 }],
+  ...changes
+});
+
+const enablePaper = () => localStorage.setItem('fx-paper-settings', JSON.stringify({ enabled: true }));
+
+beforeEach(() => signIn());
+
+describe('paper fills', () => {
+  it('scales out 50% at TP1 and the rest at TP2', () => {
+    const atTp1 = simulatePrice(gold, position(), tp1 + 0.15, settings);
+    expect(atTp1.fills).toMatchObject([{ kind: 'exit', reason: 'TP1 hit', price: tp1, position_size: 50 }]);
+    expect(atTp1.position).toMatchObject({ status: 'open', position_size: 50, tp1_taken: true });
+
+    // Back below TP1 does nothing more
+    expect(simulatePrice(gold, atTp1.position, tp1 - 1, settings).fills).toEqual([]);
+
+    const atTp2 = simulatePrice(gold, atTp1.position, tp2 + 1, settings);
+    expect(atTp2.fills).toMatchObject([{ reason: 'TP2 hit', price: tp2, position_size: 50 }]);
+    expect(atTp2.position.status).toBe('closed');
+  });
+
+  it('waits for the bid to reach a long target', () => {
+    // Mid on TP1, bid $0.15 short of it
+    expect(simulatePrice(gold, position(), tp1, settings).fills).toEqual([]);
+  });
+
+  it('closes everything at TP1 when there is no TP2', () => {
+    const { position: closed } = simulatePrice(gold, position({ take_profit_2: undefined }), tp1 + 1, settings);
+    expect(closed.fills[1]).toMatchObject({ reason: 'TP1 hit', position_size: 100 });
+    expect(closed.status).toBe('closed');
+  });
+
+  it('stops out at the stop less slippage, with P&L for a sized position', () => {
+    const { position: closed, fills } = simulatePrice(gold, position({ units: 100 }), stop - 2, settings);
+    expect(fills).toMatchObject([{ reason: 'SL hit', price: Number((stop - 0.05).toFixed(2)), position_size: 100 }]);
+    expect(fills[0].pips).toBeCloseTo((stop - 0.05 - entry) * 10, 1);
+    expect(fills[0].pnl).toBeCloseTo((stop - 0.05 - entry) * 100, 2);
+    expect(closed.status).toBe('closed');
+  });
+
+  it('ratchets a trailing stop up and stops out on the pullback', () => {
+    const trailing = position({ trailing_stop: { mode: 'pips', distance: 50 } });
+    const up = simulatePrice(gold, trailing, 2660.15, settings);
+    // Bid 2660.00 less 50 pips
+    expect(up.position.stop_loss).toBe(2655);
+    expect(up.fills).toEqual([]);
+
+    expect(simulatePrice(gold, up.position, 2658, settings).position.stop_loss).toBe(2655);
+    expect(simulatePrice(gold, up.position, 2655, settings).fills).toMatchObject([{ reason: 'SL hit', price: 2654.95 }]);
+  });
+});
+
+describe('paper trade edits', () => {
+  it('moves the stop of the runner once price is past TP1', async () => {
+    const { position: runner } = simulatePrice(gold, position(), tp1 + 0.15, settings);
+    rows.set('paper-1', runner);
+
+    expect(await modifyPaperTrade(gold, { stop_loss: entry, reason: 'Break-even' }, tp1 + 0.15)).toMatchObject({ success: true });
+    expect(rows.get('paper-1')).toMatchObject({ stop_loss: entry, tp1_taken: true });
+
+    // Before the fill TP1 still has to be ahead of price
+    rows.set('paper-1', position());
+    expect(await modifyPaperTrade(gold, { stop_loss: entry }, tp1 + 0.15)).toMatchObject({ success: false, error: expect.stringMatching(/Take profit 1/) });
+  });
+});
+
+describe('paper history per user', () => {
+  it('lists only the signed-in user’s positions and gives untagged ones to the first user', async () => {
+    const { user_id, ...legacy } = position({ id: 'legacy' });
+    rows.set('legacy', legacy);
+    rows.set('ben-1', position({ id: 'ben-1', user_id: 'ben@example.com' }));
+
+    expect((await listPaperPositions()).map(p => p.id)).toEqual(['legacy']);
+    expect(rows.get('legacy')).toMatchObject({ user_id });
+
+    signIn('ben@example.com');
+    expect((await listPaperPositions()).map(p => p.id)).toEqual(['ben-1']);
+  });
+});
+
+describe('paper mode on the dashboard', () => {
+  it('turns paper mode on from the header and fills the entry at the ask plus slippage', async () => {
+    await renderDashboard(analysis('RETEST_WAITING'));
+
+    fireEvent.click(screen.getByRole('button', { name: /PAPER OFF/ }));
+    expect(await screen.findByRole('button', { name: /PAPER ON/ })).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(screen.getByRole('button', { name: /I TOOK THE TRADE/ }));
+    expect(screen.getByText(/Paper trade - fills at the live price/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /Confirm Entry/ }));
+
+    expect(await screen.findByText('📝 PAPER POSITION')).toBeInTheDocument();
+    expect(screen.getByText(`$${(price + 0.2).toFixed(2)}`)).toBeInTheDocument();
+    expect(screen.getByText(/Paper LONG 50% entered/)).toBeInTheDocument();
+    expect(api.enterTrade).not.toHaveBeenCalled();
+    expect(journal.recordJournalEntry).not.toHaveBeenCalled();
+    expect([...rows.values()]).toMatchObject([{ direction: 'LONG', position_size: 50, entry_price: Number((price + 0.2).toFixed(2)) }]);
+  });
+
+  it('takes TP1 on its own when the price on the page reaches it', async () => {
+    enablePaper();
+    rows.set('paper-1', position({ take_profit_1: price - 1 }));
+    await renderDashboard(analysis('READY'));
+
+    expect(await screen.findByText('Paper TP1 hit: closed 50%')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /EXIT 50% \(Close Trade\)/ })).toBeInTheDocument();
+    expect(rows.get('paper-1')).toMatchObject({ position_size: 50, tp1_taken: true });
+  });
+
+  it('exits a paper position at the bid without asking for a fill price', async () => {
+    enablePaper();
+    rows.set('paper-1', position());
+    await renderDashboard(analysis('READY'));
+
+    fireEvent.click(await screen.findByRole('button', { name: /EXIT 50% \(Take Partial Profit\)/ }));
+    const dialog = within(screen.getByRole('dialog', { name: 'Exit Trade' }));
+    expect(dialog.queryByLabelText('Fill Price')).not.toBeInTheDocument();
+    expect(dialog.getByText(/Paper exit - fills at the live bid/)).toHaveTextContent(`about $${(price - 0.2).toFixed(2)} now`);
+    // The preview is worked out at the simulator's fill, not the mid
+    const pips = (price - 0.2 - entry) / gold.pipSize;
+    expect(dialog.getByText(`${pips >= 0 ? '+' : ''}${pips.toFixed(1)} pips`)).toBeInTheDocument();
+    expect(journal.findOpenTrade).not.toHaveBeenCalled();
+
+    fireEvent.click(dialog.getByRole('button', { name: 'Exit 50%' }));
+
+    expect(await dialog.findByText(`✅ Closed 50%, 50% still open at $${(price - 0.2).toFixed(2)}`)).toBeInTheDocument();
+    expect(api.exitTrade).not.toHaveBeenCalled();
+    await waitFor(() => expect(rows.get('paper-1')).toMatchObject({ position_size: 50 }));
+  });
+});
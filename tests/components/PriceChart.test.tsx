@@ -0,0 +1,41 @@
+import { render, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import PriceChart from '@/components/PriceChart';
+import * as api from '@/lib/api';
+import { fixtureSetup } from '@/lib/fixtures/analysis';
+import { gold } from './helpers';
+
+vi.unmock('@/components/PriceChart');
+// jsdom has no canvas - the chart is a stub that records what it was given
+const series = vi.hoisted(() => ({ setData: vi.fn(), update: vi.fn(), createPriceLine: vi.fn(), removePriceLine: vi.fn() }));
+const fitContent = vi.hoisted(() => vi.fn());
+vi.mock('lightweight-charts', () => ({
+  CandlestickSeries: {},
+  ColorType: { Solid: 'solid' },
+  LineStyle: { Solid: 0, Dotted: 1, Dashed: 2 },
+  createChart: () => ({ addSeries: () => series, timeScale: () => ({ fitContent }), remove: () => {} })
+}));
+vi.mock('@/lib/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  fetchCandles: vi.fn()
+}));
+
+const setup = fixtureSetup(gold, 'bullish', 'READY');
+const candle = { time: 1760000000, open: 2650, high: 2652, low: 2648, close: 2651 };
+
+describe('price chart', () => {
+  it('moves the forming candle on a price tick without reloading the candles', async () => {
+    vi.mocked(api.fetchCandles).mockResolvedValue({ timeframe: 'H1', candles: [candle] });
+    const { rerender } = render(<PriceChart pair={gold} setup={{ ...setup, current_price: 2651 }} />);
+    await waitFor(() => expect(series.setData).toHaveBeenCalledWith([candle]));
+    series.setData.mockClear();
+    fitContent.mockClear();
+
+    rerender(<PriceChart pair={gold} setup={{ ...setup, current_price: 2655 }} />);
+
+    expect(series.update).toHaveBeenLastCalledWith({ ...candle, close: 2655, high: 2655 });
+    expect(api.fetchCandles).toHaveBeenCalledTimes(1);
+    expect(series.setData).not.toHaveBeenCalled();
+    expect(fitContent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { gold } from './helpers';
+import ReplayPlayer from '@/components/ReplayPlayer';
+import * as api from '@/lib/api';
+import { fixtureHistory, fixturePrice } from '@/lib/fixtures/analysis';
+import { fixtureCandles } from '@/lib/fixtures/candles';
+
+// 48 closed hours, as the mock backend serves them: scanning, retest waiting, READY, then invalidated
+const history = fixtureHistory(gold, fixtureCandles(gold, 'H1', fixturePrice(gold), 49).slice(0, -1));
+const readyAt = history.findIndex(s => s.bullish.setup_status === 'READY');
+
+async function renderReplay(snapshots = history) {
+  vi.mocked(api.fetchAnalysisHistory).mockResolvedValue(snapshots);
+  const result = render(<ReplayPlayer pair={gold} />);
+  await screen.findByText(/CURRENT SETUP PLAN/);
+  return result;
+}
+
+const scrubber = () => screen.getByRole('slider', { name: 'Replay time' });
+
+describe('replay', () => {
+  it('shows the first stored hour read-only, without live data or trade actions', async () => {
+    await renderReplay();
+
+    expect(api.fetchAnalysisHistory).toHaveBeenCalledWith(gold, 48);
+    expect(screen.getByText(`(1/${history.length})`, { exact: false })).toBeInTheDocument();
+    expect(screen.getByText(/⏪ REPLAY \w/)).toBeInTheDocument();
+    expect(screen.getByText('Status: SCANNING', { selector: '.text-green-300' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /PAPER/ })).not.toBeInTheDocument();
+    expect(api.fetchProTraderAnalysis).not.toHaveBeenCalled();
+    expect(api.fetchTradeStatus).not.toHaveBeenCalled();
+  });
+
+  it('scrubs to the hour the setup went READY and on to its invalidation', async () => {
+    await renderReplay();
+
+    fireEvent.change(scrubber(), { target: { value: String(readyAt) } });
+    expect(screen.getByText('Status: READY', { selector: '.text-green-300' })).toBeInTheDocument();
+    expect(screen.getByText(`(${readyAt + 1}/${history.length})`, { exact: false })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /I TOOK THE TRADE/ })).not.toBeInTheDocument();
+
+    // Timeline cells jump straight to an hour
+    fireEvent.click(screen.getAllByRole('button', { name: /^bearish RETEST_WAITING/ }).at(-1)!);
+    expect(scrubber()).toHaveValue(String(history.length - 1));
+    expect(screen.getByText('Status: SCANNING', { selector: '.text-green-300' })).toBeInTheDocument();
+    expect(screen.getByText('Status: RETEST_WAITING', { selector: '.text-red-300' })).toBeInTheDocument();
+  });
+
+  it('plays at the chosen speed and stops on the last hour', async () => {
+    await renderReplay(history.slice(0, 4));
+    vi.useFakeTimers();
+    try {
+      fireEvent.click(screen.getByRole('button', { name: '4x' }));
+      fireEvent.click(screen.getByRole('button', { name: '▶ Play' }));
+
+      await act(async () => { vi.advanceTimersByTime(250); });
+      expect(scrubber()).toHaveValue('1');
+
+      await act(async () => { vi.advanceTimersByTime(250); });
+      await act(async () => { vi.advanceTimersByTime(250); });
+      expect(scrubber()).toHaveValue('3');
+      expect(screen.getByRole('button', { name: '▶ Play' })).toBeInTheDocument();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reports a failed history load with a retry', async () => {
+    vi.mocked(api.fetchAnalysisHistory)
+      .mockRejectedValueOnce(new Error('Backend unavailable'))
+      .mockResolvedValue(history);
+    render(<ReplayPlayer pair={gold} />);
+
+    expect(await screen.findByText('⚠️ Backend unavailable')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+    expect(await screen.findByText(/CURRENT SETUP PLAN/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,56 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { fixtureSetup } from '@/lib/fixtures/analysis';
+import { analysis, gold, renderDashboard } from './helpers';
+
+describe('setup steps', () => {
+  it('shows what the trader is watching while scanning', async () => {
+    await renderDashboard(analysis('SCANNING'));
+
+    expect(screen.getByText('Step 1: Liquidity Grab')).toBeInTheDocument();
+    expect(screen.getByText("👁️ What I'm Watching Right Now:")).toBeInTheDocument();
+    expect(screen.getByText('H1 close back inside the range')).toBeInTheDocument();
+    expect(screen.queryByText(/ENTRY TIMING OPTIONS/)).not.toBeInTheDocument();
+    // "Not ready yet" plans are hidden
+    expect(screen.queryByText('🎯 TRADE PLAN')).not.toBeInTheDocument();
+  });
+
+  it('offers the early and confirmation entries while waiting for the retest', async () => {
+    await renderDashboard(analysis('RETEST_WAITING'));
+
+    expect(screen.getByText('Step 3: Retest Entry')).toBeInTheDocument();
+    expect(screen.getByText(/ENTRY TIMING OPTIONS/)).toBeInTheDocument();
+    expect(screen.getByText('Early Entry')).toBeInTheDocument();
+    expect(screen.getByText('Confirmation Entry')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /I TOOK THE TRADE/ })).toBeInTheDocument();
+    expect(screen.getByText('🎯 TRADE PLAN')).toBeInTheDocument();
+  });
+
+  it('hides the early entry button when it is not available', async () => {
+    const setup = fixtureSetup(gold, 'bullish', 'RETEST_WAITING');
+    setup.setup_steps[2].entry_timing!.early_entry.available = false;
+    await renderDashboard(analysis(setup));
+
+    expect(screen.getByText('Early Entry')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /I TOOK THE TRADE/ })).not.toBeInTheDocument();
+  });
+
+  it('lists the entry options and recommendation when ready', async () => {
+    await renderDashboard(analysis('READY'));
+
+    expect(screen.getByText('Step 4: Entry')).toBeInTheDocument();
+    expect(screen.getByText('🎯 ENTRY OPTIONS:')).toBeInTheDocument();
+    expect(screen.getByText('Market Entry')).toBeInTheDocument();
+    expect(screen.getByText(/Take the market entry with the full position/)).toBeInTheDocument();
+  });
+
+  it('switches to the bearish trader steps', async () => {
+    await renderDashboard(analysis('SCANNING', 'RETEST_WAITING'));
+    expect(screen.queryByText(/ENTRY TIMING OPTIONS/)).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /BEARISH TRADER/ }));
+
+    expect(screen.getByText(/ENTRY TIMING OPTIONS/)).toBeInTheDocument();
+    expect(screen.getByText('H1 bearish close inside the zone', { exact: false })).toBeInTheDocument();
+  });
+});
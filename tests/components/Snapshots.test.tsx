@@ -0,0 +1,111 @@
+import { render, screen, waitFor, within } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { TRADER, analysis, gold, renderDashboard, signIn } from './helpers';
+import { table } from '../mocks/db';
+import SnapshotDiff from '@/components/SnapshotDiff';
+import { fixtureLevels, fixtureSetup } from '@/lib/fixtures/analysis';
+import { formatPrice } from '@/lib/pairs';
+import { ArchivedSetup, MAX_SNAPSHOTS, archiveAnalysis, diffSetups, listSnapshots } from '@/lib/snapshots';
+import type { TraderSetup } from '@/lib/types';
+
+const rows = table('snapshots');
+
+const { stop } = fixtureLevels(gold, 'bullish');
+const waiting = fixtureSetup(gold, 'bullish', 'RETEST_WAITING');
+const ready = fixtureSetup(gold, 'bullish', 'READY');
+
+// Stop pulled up 20 pips, the FVG rescored, the order block gone
+const revised: TraderSetup = {
+  ...waiting,
+  total_score: 5,
+  confluences: waiting.confluences
+    .filter(c => c.type !== 'ORDER_BLOCK')
+    .map(c => (c.type === 'FVG' ? { ...c, score: 2 } : c)),
+  trade_plan: { ...waiting.trade_plan, stop_loss: { price: formatPrice(gold, stop + 2) } }
+};
+
+const archived = (setup: TraderSetup, time: string): ArchivedSetup => ({ id: time, pair: 'gold', side: 'bullish', time, setup });
+
+beforeEach(() => signIn());
+
+describe('snapshot diff', () => {
+  it('picks up the status change, the new confluence and the step transitions', () => {
+    const diff = diffSetups(waiting, ready);
+
+    expect(diff.status).toEqual({ from: 'RETEST_WAITING', to: 'READY' });
+    expect(diff.score).toEqual({ from: 8, to: 11, delta: 3 });
+    expect(diff.added.map(c => c.type)).toEqual(['BREAKOUT_RETEST']);
+    expect(diff.removed).toEqual([]);
+    expect(diff.steps).toEqual([
+      { step: 3, title: 'Retest Entry', from: 'in_progress', to: 'complete' },
+      { step: 4, title: 'Entry', from: undefined, to: 'ready' }
+    ]);
+    expect(diff.plan).toEqual([]);
+  });
+
+  it('reports rescored and removed confluences and revised plan prices', () => {
+    const diff = diffSetups(waiting, revised);
+
+    expect(diff.status).toBeUndefined();
+    expect(diff.removed.map(c => c.type)).toEqual(['ORDER_BLOCK']);
+    expect(diff.changed).toMatchObject([{ type: 'FVG', before: { score: 3 }, after: { score: 2 } }]);
+    expect(diff.plan).toHaveLength(1);
+    expect(diff.plan[0]).toMatchObject({ level: 'Stop Loss', from: formatPrice(gold, stop), to: formatPrice(gold, stop + 2) });
+    expect(diff.plan[0].move).toBeCloseTo(2);
+  });
+
+  it('shows the changes between two snapshots', () => {
+    render(<SnapshotDiff pair={gold} before={archived(waiting, '2026-10-19T08:00:00.000Z')} after={archived(revised, '2026-10-19T09:00:00.000Z')} />);
+
+    expect(screen.getByText('(-3)')).toHaveClass('text-red-400');
+    expect(screen.getByText(/ORDER_BLOCK \(\+2\)/)).toHaveClass('line-through');
+    expect(screen.getByText(/FVG: \+3 → \+2/)).toBeInTheDocument();
+    const plan = within(screen.getByText('Trade Plan').parentElement as HTMLElement);
+    expect(plan.getByText('(+20.0 pips)')).toBeInTheDocument();
+  });
+
+  it('says so when nothing changed', () => {
+    render(<SnapshotDiff pair={gold} before={archived(waiting, '2026-10-19T08:00:00.000Z')} after={archived(waiting, '2026-10-19T09:00:00.000Z')} />);
+
+    expect(screen.getByText('No changes between these snapshots.')).toBeInTheDocument();
+  });
+});
+
+describe('snapshot archive', () => {
+  it('stores a side only when its setup changed, not on price moves', async () => {
+    await archiveAnalysis(gold, analysis('RETEST_WAITING'), '2026-10-19T08:00:00.000Z');
+    const moved = analysis({ ...waiting, current_price: waiting.current_price + 1 });
+    expect(await archiveAnalysis(gold, moved, '2026-10-19T08:01:00.000Z')).toEqual([]);
+
+    const stored = await archiveAnalysis(gold, analysis('READY'), '2026-10-19T09:00:00.000Z');
+    expect(stored.map(s => s.side)).toEqual(['bullish']);
+    expect((await listSnapshots('gold', 'bullish')).map(s => s.setup.setup_status)).toEqual(['READY', 'RETEST_WAITING']);
+    expect(await listSnapshots('gold', 'bearish')).toHaveLength(1);
+  });
+
+  it('archives what the Pro Trader page fetches', async () => {
+    await renderDashboard(analysis('RETEST_WAITING'));
+
+    await waitFor(() => expect(rows.size).toBe(2));
+    const snapshots = await listSnapshots('gold');
+    expect(snapshots.map(s => `${s.side} ${s.setup.setup_status}`).sort()).toEqual(['bearish SCANNING', 'bullish RETEST_WAITING']);
+  });
+
+  it('prunes the oldest of the user\'s own snapshots, whatever other users keep', async () => {
+    const seed = (user_id: string, i: number) => {
+      const time = new Date(Date.UTC(2026, 9, 1) + i * 60_000).toISOString();
+      rows.set(`${user_id}-${i}`, { ...archived(waiting, time), id: `${user_id}-${i}`, user_id });
+    };
+    for (let i = 0; i < MAX_SNAPSHOTS; i++) seed(TRADER, i);
+    for (let i = 0; i < 10; i++) seed('ben@example.com', i);
+
+    await archiveAnalysis(gold, analysis('READY'), '2026-10-19T09:00:00.000Z');
+
+    const mine = await listSnapshots('gold', 'bullish');
+    expect(mine).toHaveLength(MAX_SNAPSHOTS);
+    expect(mine[0].setup.setup_status).toBe('READY');
+    expect(rows.has(`${TRADER}-0`)).toBe(false);
+    expect(rows.has(`${TRADER}-1`)).toBe(true);
+    expect([...rows.keys()].filter(id => id.startsWith('ben@'))).toHaveLength(10);
+  });
+});
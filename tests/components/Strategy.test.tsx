@@ -0,0 +1,143 @@
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import Home from '@/app/page';
+import StrategyPage from '@/app/strategy/page';
+import Toaster from '@/components/Toaster';
+import { localSession, setSession } from '@/lib/auth';
+import { FixtureStatus, fixtureSetup } from '@/lib/fixtures/analysis';
+import { getPair } from '@/lib/pairs';
+import {
+  DEFAULT_STRATEGY_SETTINGS,
+  loadStrategySettings,
+  saveStrategySettings,
+  scoreTier,
+  setupScore,
+  validateStrategy
+} from '@/lib/strategy';
+import type { TraderSide } from '@/lib/types';
+import { analysis, gold, renderDashboard } from './helpers';
+
+// READY: LIQUIDITY_GRAB 3 + FVG 3 + ORDER_BLOCK 2 + BREAKOUT_RETEST 3 = 11
+const ready = fixtureSetup(gold, 'bullish', 'READY');
+
+describe('strategy scoring', () => {
+  it('weights the confluences and tiers the score', () => {
+    expect(setupScore(ready, DEFAULT_STRATEGY_SETTINGS)).toBe(11);
+
+    const weighted = { ...DEFAULT_STRATEGY_SETTINGS, weights: { LIQUIDITY_GRAB: 2, ORDER_BLOCK: 0, BOS: 0.5 } };
+    expect(setupScore(ready, weighted)).toBe(12);
+    expect(setupScore({ total_score: 4, confluences: [{ type: 'BULLISH_BOS', score: 4, description: '' }] }, weighted)).toBe(2);
+    // The backend already applied them
+    expect(setupScore(ready, { ...weighted, backendScoring: true })).toBe(11);
+
+    expect([4, 5, 7, 10].map(score => scoreTier(score, DEFAULT_STRATEGY_SETTINGS))).toEqual(['weak', 'setup', 'good', 'strong']);
+  });
+
+  it('rejects thresholds that do not rise', () => {
+    expect(validateStrategy(DEFAULT_STRATEGY_SETTINGS)).toEqual([]);
+    expect(validateStrategy({ ...DEFAULT_STRATEGY_SETTINGS, goodScore: 5 })).toEqual(['Thresholds must rise: setup < ⭐⭐ < ⭐⭐⭐']);
+    expect(validateStrategy({ ...DEFAULT_STRATEGY_SETTINGS, maxScore: NaN })).toEqual(['Thresholds must be whole numbers of at least 1']);
+    expect(validateStrategy({ ...DEFAULT_STRATEGY_SETTINGS, weights: { FVG: -1 } })).toEqual(['Weights must be 0 or more']);
+  });
+
+  it('keeps each user’s settings apart', () => {
+    setSession(localSession('ana@example.com'));
+    saveStrategySettings({ ...DEFAULT_STRATEGY_SETTINGS, minScore: 6 });
+    expect(loadStrategySettings().minScore).toBe(6);
+
+    setSession(localSession('ben@example.com'));
+    expect(loadStrategySettings()).toEqual(DEFAULT_STRATEGY_SETTINGS);
+  });
+});
+
+describe('pages follow the strategy', () => {
+  it('scores the Pro Trader page with the weights and thresholds', async () => {
+    saveStrategySettings({ ...DEFAULT_STRATEGY_SETTINGS, strongScore: 15, maxScore: 15, weights: { LIQUIDITY_GRAB: 2 } });
+    await renderDashboard(analysis(ready));
+
+    expect(screen.getByText('14 points')).toBeInTheDocument();
+    expect(screen.getByText('⭐⭐')).toBeInTheDocument();
+    expect(screen.getByText('×2')).toBeInTheDocument();
+  });
+
+  it('rates the home scanner against the strategy', async () => {
+    const statuses: Record<string, Record<TraderSide, FixtureStatus>> = {
+      gold: { bullish: 'READY', bearish: 'SCANNING' },
+      eurusd: { bullish: 'RETEST_WAITING', bearish: 'RETEST_WAITING' },
+      gbpusd: { bullish: 'SCANNING', bearish: 'SCANNING' }
+    };
+    vi.spyOn(globalThis, 'fetch').mockImplementation(input => {
+      const [, slug, side] = String(input).match(/pro-trader-(\w+)\/(bullish|bearish)$/) || [];
+      return Promise.resolve(Response.json(fixtureSetup(getPair(slug)!, side as TraderSide, statuses[slug][side as TraderSide])));
+    });
+    saveStrategySettings({ ...DEFAULT_STRATEGY_SETTINGS, minScore: 9, goodScore: 10, strongScore: 12, weights: { ORDER_BLOCK: 0 } });
+    render(<Home />);
+
+    const card = async (name: string) => within((await screen.findByRole('link', { name })).closest('.rounded-lg') as HTMLElement);
+    const goldCard = await card('XAU/USD');
+    expect(await goldCard.findByText('9')).toBeInTheDocument();
+    expect(goldCard.getByText('READY', { selector: 'div' })).toBeInTheDocument();
+
+    const eurusd = await card('EUR/USD');
+    expect(await eurusd.findAllByText('6')).toHaveLength(2);
+    expect(eurusd.getAllByText('NO SIGNAL', { selector: 'div' })).toHaveLength(2);
+
+    // A save rescores the cards on screen without waiting for the next poll
+    const requests = vi.mocked(fetch).mock.calls.length;
+    act(() => saveStrategySettings(DEFAULT_STRATEGY_SETTINGS));
+    expect(goldCard.getByText('11')).toBeInTheDocument();
+    expect(eurusd.getAllByText('SETUP', { selector: 'div' })).toHaveLength(2);
+    expect(vi.mocked(fetch).mock.calls.length).toBe(requests);
+  });
+});
+
+describe('strategy page', () => {
+  it('refuses thresholds out of order', async () => {
+    render(<StrategyPage />);
+
+    fireEvent.change(screen.getByLabelText('Good (⭐⭐)'), { target: { value: '4' } });
+    fireEvent.click(screen.getByText('💾 Save'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Thresholds must rise');
+    expect(loadStrategySettings()).toEqual(DEFAULT_STRATEGY_SETTINGS);
+  });
+
+  it('saves the weights and pushes them to the backend', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ success: true }));
+    render(<StrategyPage />);
+
+    fireEvent.change(screen.getByLabelText('FVG'), { target: { value: '1.5' } });
+    fireEvent.click(screen.getByLabelText(/Backend scoring/));
+    fireEvent.click(screen.getByText('💾 Save'));
+
+    await waitFor(() => expect(fetch).toHaveBeenCalledWith('/api/settings/strategy', expect.anything()));
+    const body = JSON.parse(String(fetch.mock.calls[0][1]?.body));
+    expect(body).toMatchObject({ min_score: 5, alert_score: 7, weights: { FVG: 1.5, LIQUIDITY_GRAB: 1 } });
+    expect(loadStrategySettings()).toMatchObject({ weights: { FVG: 1.5 }, backendScoring: true });
+  });
+
+  it('keeps the saved settings when the backend refuses the push', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ success: false, error: 'Unknown setting' }));
+    render(<><StrategyPage /><Toaster /></>);
+
+    fireEvent.change(screen.getByLabelText('FVG'), { target: { value: '2' } });
+    fireEvent.click(screen.getByLabelText(/Backend scoring/));
+    fireEvent.click(screen.getByText('💾 Save'));
+
+    expect(await screen.findByText('Strategy not saved - the backend did not take it')).toBeInTheDocument();
+    expect(loadStrategySettings()).toEqual(DEFAULT_STRATEGY_SETTINGS);
+  });
+
+  it('resets the backend weights before scoring in the browser again', async () => {
+    saveStrategySettings({ ...DEFAULT_STRATEGY_SETTINGS, weights: { FVG: 2 }, backendScoring: true });
+    const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ success: true }));
+    render(<StrategyPage />);
+
+    fireEvent.click(await screen.findByLabelText(/Backend scoring/));
+    fireEvent.click(screen.getByText('💾 Save'));
+
+    await waitFor(() => expect(loadStrategySettings().backendScoring).toBe(false));
+    expect(JSON.parse(String(fetch.mock.calls[0][1]?.body)).weights).toMatchObject({ FVG: 1, LIQUIDITY_GRAB: 1 });
+    expect(loadStrategySettings().weights).toEqual({ FVG: 2 });
+  });
+});
@@ -0,0 +1,171 @@
+import { fireEvent, screen, waitFor, within } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import * as api from '@/lib/api';
+import * as journal from '@/lib/journal';
+import type { JournalEntry } from '@/lib/journal';
+import { fixtureLevels, fixtureTrade } from '@/lib/fixtures/analysis';
+import { analysis, gold, renderDashboard } from './helpers';
+
+const modal = () => within(screen.getByText('✅ Confirm Trade Entry').closest('div.bg-gray-900') as HTMLElement);
+
+describe('enter trade', () => {
+  it('enters a bullish early entry as a 50% LONG', async () => {
+    await renderDashboard(analysis('RETEST_WAITING'));
+
+    fireEvent.click(screen.getByRole('button', { name: /I TOOK THE TRADE/ }));
+    expect(modal().getByText('📈 LONG (BUY)')).toBeInTheDocument();
+
+    const statusCalls = vi.mocked(api.fetchTradeStatus).mock.calls.length;
+    fireEvent.click(modal().getByRole('button', { name: /Confirm Entry/ }));
+
+    const { price, stop, tp1, tp2 } = fixtureLevels(gold, 'bullish');
+    await waitFor(() => expect(api.enterTrade).toHaveBeenCalled());
+    expect(vi.mocked(api.enterTrade).mock.calls[0][1]).toMatchObject({
+      trade_direction: 'LONG',
+      position_size: 50,
+      entry_price: price,
+      stop_loss: stop,
+      take_profit_1: tp1,
+      take_profit_2: tp2
+    });
+    await waitFor(() => expect(screen.queryByText('✅ Confirm Trade Entry')).not.toBeInTheDocument());
+    // Trade status is refreshed right away rather than on the next poll
+    expect(vi.mocked(api.fetchTradeStatus).mock.calls.length).toBeGreaterThan(statusCalls);
+  });
+
+  it('enters the bearish trader as a SHORT', async () => {
+    await renderDashboard(analysis('SCANNING', 'RETEST_WAITING'));
+
+    fireEvent.click(screen.getByRole('button', { name: /BEARISH TRADER/ }));
+    fireEvent.click(screen.getByRole('button', { name: /I TOOK THE TRADE/ }));
+    expect(modal().getByText('📉 SHORT (SELL)')).toBeInTheDocument();
+
+    fireEvent.click(modal().getByRole('button', { name: /Confirm Entry/ }));
+
+    await waitFor(() => expect(api.enterTrade).toHaveBeenCalled());
+    expect(vi.mocked(api.enterTrade).mock.calls[0][1].trade_direction).toBe('SHORT');
+  });
+
+  it('blocks a stop loss on the wrong side of entry', async () => {
+    await renderDashboard(analysis('RETEST_WAITING'));
+
+    fireEvent.click(screen.getByRole('button', { name: /I TOOK THE TRADE/ }));
+    const stopInput = modal().getAllByRole('spinbutton')[1];
+    fireEvent.change(stopInput, { target: { value: String(fixtureLevels(gold, 'bullish').price + 5) } });
+
+    expect(modal().getByText(/Stop loss must be below entry for a LONG trade/)).toBeInTheDocument();
+    expect(modal().getByRole('button', { name: /Confirm Entry/ })).toBeDisabled();
+  });
+
+  it('adds the second half in the direction of the open trade', async () => {
+    const trade = { ...fixtureTrade(gold, 'bearish'), position_size: 50 };
+    await renderDashboard(analysis('SCANNING', 'READY'), trade);
+
+    fireEvent.click(screen.getByRole('button', { name: /ADD 50% MORE/ }));
+
+    expect(modal().getByText('📉 SHORT (SELL)')).toBeInTheDocument();
+    expect(modal().getByDisplayValue('50% (Early Entry)')).toBeInTheDocument();
+
+    fireEvent.click(modal().getByRole('button', { name: /Confirm Entry/ }));
+
+    await waitFor(() => expect(api.enterTrade).toHaveBeenCalled());
+    expect(vi.mocked(api.enterTrade).mock.calls[0][1]).toMatchObject({
+      trade_direction: 'SHORT',
+      position_size: 50,
+      stop_loss: trade.stop_loss,
+      take_profit_1: trade.take_profit_1
+    });
+  });
+});
+
+describe('exit trade', () => {
+  const dialog = () => within(screen.getByRole('dialog', { name: 'Exit Trade' }));
+
+  it('takes partial profit on a full position and shows the result in place', async () => {
+    await renderDashboard(analysis('READY'), fixtureTrade(gold, 'bullish'));
+
+    fireEvent.click(screen.getByRole('button', { name: /EXIT 50% \(Take Partial Profit\)/ }));
+    expect(dialog().getByRole('button', { name: '50%' })).toHaveAttribute('aria-pressed', 'true');
+    expect(dialog().getByLabelText('Reason')).toHaveValue('TP1 hit');
+    fireEvent.click(dialog().getByRole('button', { name: 'Exit 50%' }));
+
+    await waitFor(() => expect(api.exitTrade).toHaveBeenCalled());
+    expect(vi.mocked(api.exitTrade).mock.calls[0][1]).toEqual({
+      exit_price: fixtureLevels(gold, 'bullish').price,
+      position_size: 50,
+      reason: 'TP1 hit'
+    });
+    expect(await dialog().findByText('Realized P&L: +$10.00 (+0.40%)')).toBeInTheDocument();
+
+    fireEvent.click(dialog().getByRole('button', { name: 'Done' }));
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('closes the rest of a half position', async () => {
+    await renderDashboard(analysis('READY'), { ...fixtureTrade(gold, 'bullish'), position_size: 50 });
+
+    expect(screen.queryByRole('button', { name: /Take Partial Profit/ })).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /EXIT 50% \(Close Trade\)/ }));
+    expect(dialog().getByText('= 50% of the full position, 0% stays open')).toBeInTheDocument();
+    fireEvent.click(dialog().getByRole('button', { name: 'Exit 50%' }));
+
+    await waitFor(() => expect(api.exitTrade).toHaveBeenCalled());
+    expect(vi.mocked(api.exitTrade).mock.calls[0][1]).toMatchObject({ position_size: 50, reason: 'Manual' });
+  });
+
+  it('exits a custom portion at the actual fill with the chosen reason', async () => {
+    await renderDashboard(analysis('READY'), fixtureTrade(gold, 'bullish'));
+
+    fireEvent.click(screen.getByRole('button', { name: /EXIT ALL/ }));
+    fireEvent.click(dialog().getByRole('button', { name: 'Custom' }));
+    fireEvent.change(dialog().getByLabelText('Custom portion (%)'), { target: { value: '30' } });
+    fireEvent.change(dialog().getByLabelText('Fill Price'), { target: { value: '2655.1' } });
+    fireEvent.change(dialog().getByLabelText('Reason'), { target: { value: 'Time stop' } });
+    fireEvent.click(dialog().getByRole('button', { name: 'Exit 30%' }));
+
+    await waitFor(() => expect(api.exitTrade).toHaveBeenCalled());
+    expect(vi.mocked(api.exitTrade).mock.calls[0][1]).toEqual({ exit_price: 2655.1, position_size: 30, reason: 'Time stop' });
+  });
+
+  it('previews realized P&L and R from the journaled trade', async () => {
+    const { entry, stop } = fixtureLevels(gold, 'bullish');
+    vi.mocked(journal.findOpenTrade).mockResolvedValue({ stop_loss: stop, risk_amount: 100, account_currency: 'USD' } as JournalEntry);
+    await renderDashboard(analysis('READY'), fixtureTrade(gold, 'bullish'));
+
+    fireEvent.click(screen.getByRole('button', { name: /Take Partial Profit/ }));
+    // One R in profit on half the position
+    fireEvent.change(dialog().getByLabelText('Fill Price'), { target: { value: String(entry + (entry - stop)) } });
+
+    expect(dialog().getByText('+1.00R')).toBeInTheDocument();
+    expect(await dialog().findByText('+50.00 USD')).toBeInTheDocument();
+  });
+
+  it('keeps the dialog open with the error when the backend refuses the exit', async () => {
+    await renderDashboard(analysis('READY'), fixtureTrade(gold, 'bullish'));
+    vi.mocked(api.exitTrade).mockResolvedValue({ success: false, error: 'Market is closed' });
+
+    fireEvent.click(screen.getByRole('button', { name: /EXIT ALL/ }));
+    fireEvent.click(dialog().getByRole('button', { name: 'Exit 100%' }));
+
+    expect(await dialog().findByRole('alert')).toHaveTextContent('Market is closed');
+    expect(dialog().getByRole('button', { name: 'Exit 100%' })).toBeEnabled();
+  });
+
+  it('does nothing when the exit is cancelled', async () => {
+    await renderDashboard(analysis('READY'), fixtureTrade(gold, 'bullish'));
+
+    fireEvent.click(screen.getByRole('button', { name: /EXIT ALL/ }));
+    fireEvent.click(dialog().getByRole('button', { name: 'Cancel' }));
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(api.exitTrade).not.toHaveBeenCalled();
+  });
+
+  it('renders a trade the backend sent without P&L or progress', async () => {
+    const { pnl, pnl_pct, progress_to_tp1_pct, ...trade } = fixtureTrade(gold, 'bullish');
+    await renderDashboard(analysis('READY'), trade);
+
+    expect(screen.getByText('Progress to TP1: —')).toBeInTheDocument();
+    expect(screen.queryByText(/undefined|NaN/)).not.toBeInTheDocument();
+  });
+});
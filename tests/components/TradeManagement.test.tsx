@@ -0,0 +1,130 @@
+import { fireEvent, screen, waitFor, within } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { analysis, gold, renderDashboard } from './helpers';
+import * as api from '@/lib/api';
+import { fixtureLevels, fixtureTrade } from '@/lib/fixtures/analysis';
+import { formatPrice } from '@/lib/pairs';
+import type { ActiveTradeStatus } from '@/lib/types';
+
+const { price, entry, stop, tp1 } = fixtureLevels(gold, 'bullish');
+
+const panel = () => within(screen.getByText('🛡️ MANAGE TRADE').parentElement as HTMLElement);
+
+// Renders the open long, then serves `after` once the change has been sent
+async function renderTrade(trade: ActiveTradeStatus, after?: ActiveTradeStatus) {
+  await renderDashboard(analysis('READY'), trade);
+  vi.mocked(api.modifyTrade).mockResolvedValue({ success: true, message: 'Updated (mock)' });
+  if (after) vi.mocked(api.fetchTradeStatus).mockResolvedValue(after);
+}
+
+describe('trade management', () => {
+  it('moves the stop to break-even and badges it on the progress bar', async () => {
+    const trade = fixtureTrade(gold, 'bullish');
+    await renderTrade(trade, { ...trade, stop_loss: entry });
+    expect(screen.queryByText('BE')).not.toBeInTheDocument();
+
+    fireEvent.click(panel().getByRole('button', { name: /Move SL to Break-Even/ }));
+
+    await waitFor(() => expect(api.modifyTrade).toHaveBeenCalledWith(gold, { stop_loss: entry, reason: 'Break-even' }));
+    expect(await screen.findByText('Break-even')).toBeInTheDocument();
+    expect(await screen.findByText('BE')).toBeInTheDocument();
+    expect(screen.getByText(`SL: ${formatPrice(gold, entry)}`)).toBeInTheDocument();
+    expect(panel().getByRole('button', { name: /Move SL to Break-Even/ })).toBeDisabled();
+  });
+
+  it('keeps break-even disabled until price is past entry', async () => {
+    await renderTrade({ ...fixtureTrade(gold, 'bullish'), current_price: entry });
+
+    expect(panel().getByRole('button', { name: /Move SL to Break-Even/ })).toBeDisabled();
+    expect(panel().getByText('Price has to move past entry first')).toBeInTheDocument();
+  });
+
+  it('sets a trailing stop in ATR multiples with a preview of the new stop', async () => {
+    const trade = { ...fixtureTrade(gold, 'bullish'), atr: 5 };
+    await renderTrade(trade, { ...trade, stop_loss: price - 10, trailing_stop: { mode: 'atr', distance: 2 } });
+
+    expect(panel().getByRole('button', { name: 'ATR ×' })).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.change(panel().getByLabelText('Trailing distance'), { target: { value: '2' } });
+    expect(panel().getByText(`Stop moves to ${formatPrice(gold, price - 10)} now`)).toBeInTheDocument();
+
+    fireEvent.click(panel().getByRole('button', { name: 'Set Trailing Stop' }));
+
+    await waitFor(() => expect(api.modifyTrade).toHaveBeenCalledWith(gold, {
+      trailing_stop: { mode: 'atr', distance: 2 },
+      reason: 'Trailing stop'
+    }));
+    expect(await screen.findByText('TRAIL')).toBeInTheDocument();
+    expect(panel().getByText(/trailing 2× ATR/)).toBeInTheDocument();
+    expect(panel().getByRole('button', { name: 'Update Trail' })).toBeInTheDocument();
+  });
+
+  it('trails in pips and can switch trailing off', async () => {
+    const trade: ActiveTradeStatus = { ...fixtureTrade(gold, 'bullish'), trailing_stop: { mode: 'pips', distance: 50 } };
+    await renderTrade(trade);
+
+    expect(panel().getByRole('button', { name: 'Pips' })).toHaveAttribute('aria-pressed', 'true');
+    expect(panel().getByLabelText('Trailing distance')).toHaveValue(50);
+
+    fireEvent.click(panel().getByRole('button', { name: 'Stop Trailing' }));
+
+    await waitFor(() => expect(api.modifyTrade).toHaveBeenCalledWith(gold, { trailing_stop: null, reason: 'Trailing stop off' }));
+  });
+
+  it('asks for pips when the backend sent no ATR', async () => {
+    await renderTrade(fixtureTrade(gold, 'bullish'));
+
+    fireEvent.click(panel().getByRole('button', { name: 'ATR ×' }));
+
+    expect(panel().getByText(/sent no ATR/)).toBeInTheDocument();
+    expect(panel().getByRole('button', { name: 'Set Trailing Stop' })).toBeDisabled();
+  });
+
+  it('edits the targets', async () => {
+    const trade = fixtureTrade(gold, 'bullish');
+    await renderTrade(trade, { ...trade, take_profit_1: 2660, take_profit_2: 2700 });
+    expect(panel().getByRole('button', { name: 'Update Targets' })).toBeDisabled();
+
+    fireEvent.change(panel().getByLabelText('TP1'), { target: { value: '2660' } });
+    fireEvent.change(panel().getByLabelText('TP2'), { target: { value: '2700' } });
+    fireEvent.click(panel().getByRole('button', { name: 'Update Targets' }));
+
+    await waitFor(() => expect(api.modifyTrade).toHaveBeenCalledWith(gold, {
+      take_profit_1: 2660,
+      take_profit_2: 2700,
+      reason: 'Targets edited'
+    }));
+    expect(await screen.findByText(`TP1: ${formatPrice(gold, 2660)} · TP2: ${formatPrice(gold, 2700)}`)).toBeInTheDocument();
+  });
+
+  it('starts the form over when a new trade replaces the one on screen', async () => {
+    const trade = fixtureTrade(gold, 'bullish');
+    const next = { ...trade, entry_price: entry + 1, take_profit_1: tp1 + 5 };
+    await renderTrade(trade, next);
+
+    fireEvent.change(panel().getByLabelText('TP1'), { target: { value: String(tp1 + 1) } });
+    fireEvent.click(panel().getByRole('button', { name: /Move SL to Break-Even/ }));
+
+    await waitFor(() => expect(panel().getByLabelText('TP1')).toHaveValue(tp1 + 5));
+  });
+
+  it('blocks a target on the losing side of the current price', async () => {
+    await renderTrade(fixtureTrade(gold, 'bullish'));
+
+    fireEvent.change(panel().getByLabelText('TP1'), { target: { value: String(stop) } });
+
+    expect(panel().getByRole('alert')).toHaveTextContent('Take profit 1 must be above the current price for a LONG trade');
+    expect(panel().getByRole('button', { name: 'Update Targets' })).toBeDisabled();
+    expect(api.modifyTrade).not.toHaveBeenCalled();
+  });
+
+  it('reports a refused change in a toast and keeps the old levels', async () => {
+    await renderTrade(fixtureTrade(gold, 'bullish'));
+    vi.mocked(api.modifyTrade).mockResolvedValue({ success: false, error: 'Stop loss must be below the current price for a LONG trade' });
+
+    fireEvent.click(panel().getByRole('button', { name: /Move SL to Break-Even/ }));
+
+    expect(await screen.findByText('Trade not updated')).toBeInTheDocument();
+    expect(screen.getByText(`SL: ${formatPrice(gold, stop)}`)).toBeInTheDocument();
+    expect(screen.getByText(`TP1: ${formatPrice(gold, tp1)}`, { exact: false })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,38 @@
+import { render, screen } from '@testing-library/react';
+import { vi } from 'vitest';
+import ProTraderDashboard from '@/components/ProTraderDashboard';
+import Toaster from '@/components/Toaster';
+import * as api from '@/lib/api';
+import { localSession, setSession } from '@/lib/auth';
+import { FixtureStatus, fixtureSetup } from '@/lib/fixtures/analysis';
+import { getPair } from '@/lib/pairs';
+import type { ProTraderAnalysis, TradeStatus, TraderSetup } from '@/lib/types';
+
+export const gold = getPair('gold')!;
+
+// Browser-stored rows (journal, paper, snapshots, backtests) are listed for the signed-in user only
+export const TRADER = 'trader@example.com';
+export const signIn = (email = TRADER) => setSession(localSession(email));
+
+export const analysis = (bullish: FixtureStatus | TraderSetup, bearish: FixtureStatus | TraderSetup = 'SCANNING'): ProTraderAnalysis => ({
+  bullish: typeof bullish === 'string' ? fixtureSetup(gold, 'bullish', bullish) : bullish,
+  bearish: typeof bearish === 'string' ? fixtureSetup(gold, 'bearish', bearish) : bearish
+});
+
+// Renders the gold dashboard (and the toasts it raises) against the lib/api mock of tests/setup.ts
+export async function renderDashboard(data: ProTraderAnalysis, status: TradeStatus = { in_trade: false }) {
+  vi.mocked(api.fetchProTraderAnalysis).mockResolvedValue(data);
+  vi.mocked(api.fetchTradeStatus).mockResolvedValue(status);
+  vi.mocked(api.enterTrade).mockResolvedValue({ success: true });
+  vi.mocked(api.exitTrade).mockResolvedValue({ success: true, message: 'Closed', pnl: 10, pnl_pct: 0.4 });
+
+  const result = render(
+    <>
+      <ProTraderDashboard pair={gold} />
+      <Toaster />
+    </>
+  );
+  // Either heading - in paper mode the position comes from lib/paper.ts, not `status`
+  await screen.findByText(/ACTIVE TRADE MONITORING|CURRENT SETUP PLAN/);
+  return result;
+}
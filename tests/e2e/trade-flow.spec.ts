@@ -0,0 +1,61 @@
+import { Page, expect, test } from '@playwright/test';
+
+// Mock trades are kept per session, so every run signs in as a new user
+async function signInAsNewUser(page: Page, next: string) {
+  await page.goto('/login?next=' + encodeURIComponent(next));
+  await page.getByPlaceholder('you@example.com').fill(`e2e-${Date.now()}@example.com`);
+  await page.getByRole('button', { name: /Sign In Locally/ }).click();
+}
+
+// Full trade on the mock backend: scanning → enter 50% → add 50% → exit 50% → exit all
+test('walks a gold trade from scanning to closed', async ({ page }) => {
+  const exitDialog = page.getByRole('dialog', { name: 'Exit Trade' });
+  await signInAsNewUser(page, '/pro-trader/gold?scenario=default');
+
+  await expect(page.getByText('SCANNING', { exact: true })).toBeVisible();
+  await expect(page.getByText(/CURRENT SETUP PLAN/)).toBeVisible();
+
+  // Early entry on the retest
+  await page.getByRole('button', { name: /I TOOK THE TRADE/ }).click();
+  await page.getByRole('button', { name: /Confirm Entry/ }).click();
+  await expect(page.getByText(/ACTIVE TRADE MONITORING/)).toBeVisible();
+  await expect(page.getByText('🔴 IN TRADE')).toBeVisible();
+  await expect(page.getByRole('button', { name: /EXIT 50% \(Close Trade\)/ })).toBeVisible();
+
+  // Confirmation entry brings the position to 100%
+  await page.getByRole('button', { name: /ADD 50% MORE/ }).click();
+  await page.getByRole('button', { name: /Confirm Entry/ }).click();
+  await expect(page.getByRole('button', { name: /EXIT ALL \(Close Trade\)/ })).toBeVisible();
+  await expect(page.getByRole('button', { name: /ADD 50% MORE/ })).toBeHidden();
+
+  await page.getByRole('button', { name: /EXIT 50% \(Take Partial Profit\)/ }).click();
+  await exitDialog.getByRole('button', { name: 'Exit 50%' }).click();
+  await expect(exitDialog.getByText(/Closed 50%, 50% still open \(mock\)/)).toBeVisible();
+  await exitDialog.getByRole('button', { name: 'Done' }).click();
+  await expect(page.getByRole('button', { name: /EXIT 50% \(Close Trade\)/ })).toBeVisible();
+
+  await page.getByRole('button', { name: /EXIT 50% \(Close Trade\)/ }).click();
+  await exitDialog.getByRole('button', { name: 'Exit 50%' }).click();
+  await expect(exitDialog.getByText(/Trade closed \(mock\)/)).toBeVisible();
+  await exitDialog.getByRole('button', { name: 'Done' }).click();
+  await expect(page.getByText(/CURRENT SETUP PLAN/)).toBeVisible();
+  await expect(page.getByText('SCANNING', { exact: true })).toBeVisible();
+});
+
+// The in-trade scenario opens with the trade already held - it closes like one entered on the page
+test('exits the trade the in-trade scenario starts with', async ({ page }) => {
+  const exitDialog = page.getByRole('dialog', { name: 'Exit Trade' });
+  await signInAsNewUser(page, '/pro-trader/gold?scenario=in-trade');
+
+  await expect(page.getByText('🔴 IN TRADE')).toBeVisible();
+  await page.getByRole('button', { name: /EXIT ALL \(Close Trade\)/ }).click();
+  await exitDialog.getByRole('button', { name: 'Exit 100%' }).click();
+  await expect(exitDialog.getByText(/Trade closed \(mock\)/)).toBeVisible();
+  await exitDialog.getByRole('button', { name: 'Done' }).click();
+  await expect(page.getByText(/CURRENT SETUP PLAN/)).toBeVisible();
+
+  // Closed for good - a reload does not bring the scenario's trade back
+  await page.reload();
+  await expect(page.getByText(/CURRENT SETUP PLAN/)).toBeVisible();
+  await expect(page.getByText('🔴 IN TRADE')).toBeHidden();
+});
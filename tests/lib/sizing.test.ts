@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { getPair } from '@/lib/pairs';
+import { positionSize, scaledLots } from '@/lib/sizing';
+
+describe('position size', () => {
+  it('keeps a size that lands exactly on a lot step', () => {
+    // $29 risk over 10 pips at $10 a pip per lot: 0.29 lots, where 0.29 / 0.01 is 28.999999999999996
+    const size = positionSize(getPair('eurusd')!, { balance: 2900, riskPercent: 1, currency: 'USD' }, 0.001, 1);
+    expect(size?.lots).toBe(0.29);
+
+    expect(scaledLots({ ...size!, lots: 0.58 }, 50)).toBe(0.29);
+    expect(scaledLots({ ...size!, lots: 0.59 }, 50)).toBe(0.29);
+  });
+});
@@ -0,0 +1,59 @@
+// jsdom has no IndexedDB - tests/setup.ts swaps lib/db for this module, which keeps each store in a map.
+// Tests seed and inspect a store through table(); every store is emptied after each test.
+import { vi } from 'vitest';
+import type * as realDb from '@/lib/db';
+import type { StoreName } from '@/lib/db';
+
+// '@/lib/db' is this module once mocked - the index key paths come from the real one
+export const { INDEXES } = await vi.importActual<typeof realDb>('@/lib/db');
+
+const tables = new Map<StoreName, Map<string, unknown>>();
+
+export const table = (store: StoreName) => {
+  if (!tables.has(store)) tables.set(store, new Map());
+  return tables.get(store)!;
+};
+
+export const clearTables = () => tables.forEach(rows => rows.clear());
+
+// Values of a store under an index prefix, in index order - like IndexedDB, rows missing a key part are left out
+const indexed = <T>(store: StoreName, index: string, prefix: IDBValidKey[]) => {
+  const keyPath = INDEXES[store]![index];
+  const key = (value: unknown) => keyPath.map(part => String((value as Record<string, unknown>)[part]));
+  return [...table(store).values()]
+    .filter(value => keyPath.every(part => (value as Record<string, unknown>)[part] !== undefined))
+    .filter(value => prefix.every((part, i) => key(value)[i] === String(part)))
+    .sort((a, b) => (key(a).join('\u0000') < key(b).join('\u0000') ? -1 : 1)) as T[];
+};
+
+export const available: typeof realDb.available = () => true;
+
+export const getAll: typeof realDb.getAll = async <T>(store: StoreName) => [...table(store).values()] as T[];
+
+export const get: typeof realDb.get = async <T>(store: StoreName, id: string) => table(store).get(id) as T | undefined;
+
+export const put: typeof realDb.put = async <T>(store: StoreName, value: T) => {
+  const id = (value as { id: string }).id;
+  table(store).set(id, value);
+  return id;
+};
+
+export const remove: typeof realDb.remove = async (store, id) => {
+  table(store).delete(id);
+  return undefined;
+};
+
+export const count: typeof realDb.count = async (store, index, prefix) => indexed(store, index, prefix).length;
+
+export const findLast: typeof realDb.findLast = async <T>(store: StoreName, index: string, prefix: IDBValidKey[]) =>
+  indexed<T>(store, index, prefix).at(-1);
+
+export const removeFirst: typeof realDb.removeFirst = async (store, index, prefix, n) => {
+  indexed<{ id: string }>(store, index, prefix).slice(0, Math.max(n, 0)).forEach(value => table(store).delete(value.id));
+};
+
+export const claimUntagged: typeof realDb.claimUntagged = async userId => {
+  tables.forEach(rows => rows.forEach((row, id) => {
+    if (!(row as { user_id?: string }).user_id) rows.set(id, { ...(row as object), user_id: userId });
+  }));
+};
@@ -0,0 +1,32 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import { afterEach, vi } from 'vitest';
+import { clearTables } from './mocks/db';
+
+// Mocked for every component test - a test file mocks a module again only where it needs other behaviour
+vi.mock('@/lib/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  fetchProTraderAnalysis: vi.fn(),
+  fetchTradeStatus: vi.fn(),
+  fetchAnalysisHistory: vi.fn(),
+  enterTrade: vi.fn(),
+  exitTrade: vi.fn(),
+  modifyTrade: vi.fn()
+}));
+vi.mock('@/lib/journal', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/journal')>()),
+  recordJournalEntry: vi.fn(async () => {}),
+  recordJournalExit: vi.fn(async () => {}),
+  findOpenTrade: vi.fn(async () => undefined)
+}));
+vi.mock('@/lib/db', () => import('./mocks/db'));
+// lightweight-charts needs a real canvas
+vi.mock('@/components/PriceChart', () => ({ default: () => null }));
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  clearTables();
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
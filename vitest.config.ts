@@ -0,0 +1,15 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Component tests (tests/components) and unit tests of lib modules (tests/lib) - the end-to-end suite runs with Playwright, see playwright.config.ts
+export default defineConfig({
+  esbuild: { jsx: 'automatic' },
+  resolve: {
+    alias: { '@': path.resolve(__dirname) }
+  },
+  test: {
+    environment: 'jsdom',
+    include: ['tests/components/**/*.test.{ts,tsx}', 'tests/lib/**/*.test.{ts,tsx}'],
+    setupFiles: ['tests/setup.ts']
+  }
+});